@@ -1,82 +1,161 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Search, MapPin, Sparkles, AlertCircle, CloudDrizzle, Mic, MicOff, Image as ImageIcon, Loader2, Sun } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo } from 'react';
+import { Search, MapPin, Sparkles, AlertCircle, CloudDrizzle, Mic, MicOff, Image as ImageIcon, Loader2, Sun, LocateFixed, Star, LayoutGrid, SlidersHorizontal, Bell, Languages, AudioLines, Settings2 } from 'lucide-react';
 import { WeatherIcon, Volume2, VolumeX, Sunrise, Sunset, Droplets, Thermometer, Eye, Gauge, Activity, Umbrella, Clock, Waves, RefreshCw, Zap } from './components/Icons';
-import { getCurrentWeather, getForecast } from './services/weatherService';
+import { getWeatherBundle, peekWeatherBundle, searchLocations, isAmbiguous, formatLocationLabel, resolveCoordinates, getLocationKey } from './services/weatherService';
+import { getNowcast } from './services/nowcastService';
+import { getWeatherComparison, peekWeatherComparison } from './services/historyService';
+import { getRecommendations } from './services/recommendationService';
+import { getAstronomy, formatDuration, formatDayLengthChange } from './services/astronomy';
+import { formatTime, formatInZone, getZonedParts, getLocalDate, resolveTimeZone } from './services/timezone';
+import { evaluateAlerts, isDismissed, dismissAlert, DEFAULT_ALERT_THRESHOLDS } from './services/alertService';
+import { parseCoordinates } from './services/geoUtils';
+import { getAQIColor, getAQIDescription } from './services/airQuality';
+import { isFresh } from './services/cacheService';
+import { checkUsage, getUsageCounts, DAILY_BUDGETS } from './services/geminiUsage';
 import { streamWeatherInsight, parseSearchQuery, generateWeatherScene } from './services/geminiService';
-import { CurrentWeather, ForecastResponse, Unit, ForecastItem } from './types';
+import { parseQueryLocally, hasQueryDetails, resolveTimeWindow, getPlaceWithWeatherWord } from './services/queryParser';
+import { LOCALES, setLocale, getIntlLocale, t, formatNumber, describeCondition, isLocale } from './services/i18n';
+import { CurrentWeather, ForecastResponse, Unit, UnitSettings, ForecastItem, HourlyItem, GeoLocation, WeatherBundle, Nowcast, WeatherAlert, AlertThresholds, WeatherComparison, ChatContext, Recommendations, InsightMode, Locale, ParsedQuery, QueryFocus, QueryMetric } from './types';
+import { formatTemperature, convertWind, convertPressure, convertDistance, convertPrecipitation, UNIT_LABELS } from './services/units';
+import { UnitsMenu } from './components/UnitsMenu';
+import { LocationPicker } from './components/LocationPicker';
+import { LocationSuggestions } from './components/LocationSuggestions';
+import { useLocationAutocomplete } from './hooks/useLocationAutocomplete';
+import { useFavorites } from './hooks/useFavorites';
+import { usePreferences } from './hooks/usePreferences';
+import { useWatchNotifications } from './hooks/useWatchNotifications';
+import { useWeatherChat } from './hooks/useWeatherChat';
+import { useVoiceAssistant, SpeechStream, VoiceError } from './hooks/useVoiceAssistant';
+import { FavoritesDashboard } from './components/FavoritesDashboard';
+import { FreshnessBadge } from './components/FreshnessBadge';
+import { HourlyChart, HourlyPanel } from './components/HourlyChart';
+import { NowcastCard } from './components/NowcastCard';
+import { AlertsBanner } from './components/AlertsBanner';
+import { AlertSettings } from './components/AlertSettings';
+import { AirQualityPanel } from './components/AirQualityPanel';
+import { HistoryCard } from './components/HistoryCard';
+import { AstronomyPanel, MoonPhaseIcon } from './components/AstronomyPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { RecommendationsCard } from './components/RecommendationsCard';
+import { VoiceMenu } from './components/VoiceMenu';
+import { VoiceBar } from './components/VoiceBar';
+import { QueryFocusPanel } from './components/QueryFocusPanel';
+import type { MessageKey } from './locales/en';
+
+// Zoom levels for the forecast sections; anything past what the provider returned is simply omitted
+const HOURLY_RANGES = [
+  { label: 'hourly.24h', hours: 24 },
+  { label: 'hourly.48h', hours: 48 },
+  { label: 'hourly.7d', hours: 168 }
+] as const;
+const DAILY_RANGES = [7, 10, 16];
+
+const VOICE_ERRORS: Record<VoiceError, MessageKey> = {
+  unsupported: 'voice.unsupported',
+  denied: 'voice.denied',
+  failed: 'voice.failed'
+};
+
+// Metrics the hourly chart plots; asking about one dims the other panels
+const CHART_EMPHASIS: Partial<Record<QueryMetric, HourlyPanel>> = {
+  temperature: 'temperature',
+  rain: 'precipitation',
+  snow: 'precipitation',
+  wind: 'wind'
+};
+
+// Everything a parsed query asked about besides the place itself
+const toFocus = ({ when, activity, compareWith, metric }: ParsedQuery): QueryFocus | null => {
+  const focus = { when, activity, compareWith, metric };
+  return hasQueryDetails(focus) ? focus : null;
+};
 
 // --- Local Clock Component ---
-const LocalClock: React.FC<{ timezoneOffset: number }> = ({ timezoneOffset }) => {
+const LocalClock: React.FC<{ timeZone: string }> = ({ timeZone }) => {
   const [time, setTime] = useState<string>('');
 
   useEffect(() => {
+    // Always the location's wall clock, whichever zone the rest of the page is shown in
     const updateTime = () => {
-      // Create date with current UTC time
-      const now = new Date();
-      const utc = now.getTime() + (now.getTimezoneOffset() * 60000);
-      const cityTime = new Date(utc + (1000 * timezoneOffset));
-      setTime(cityTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }));
+      setTime(formatInZone(Date.now() / 1000, timeZone, { hour: '2-digit', minute: '2-digit', second: '2-digit' }));
     };
 
     updateTime();
     const interval = setInterval(updateTime, 1000);
     return () => clearInterval(interval);
-  }, [timezoneOffset]);
+  }, [timeZone]);
 
   return <span className="font-mono text-xl md:text-2xl font-bold tracking-widest">{time}</span>;
 };
 
 const App: React.FC = () => {
+  // Persisted Preferences (restored on boot, synced across tabs)
+  const { preferences, updatePreferences } = usePreferences();
+  // t() and the formatters read the i18n module's locale. It is switched in a layout effect, which runs
+  // before paint and before any data-fetching effect; the state update re-renders in the new language.
+  const [, setAppliedLocale] = useState<Locale | null>(null);
+  useLayoutEffect(() => {
+    setLocale(preferences.locale);
+    setAppliedLocale(preferences.locale);
+  }, [preferences.locale]);
+  const units = preferences.units;
+  const setUnits = (changes: Partial<UnitSettings>) => updatePreferences((prev) => ({ units: { ...prev.units, ...changes } }));
+  const setFavorites = useCallback(
+    (update: (prev: GeoLocation[]) => GeoLocation[]) => updatePreferences((prev) => ({ favorites: update(prev.favorites) })),
+    [updatePreferences]
+  );
+
   // Weather State
-  const [city, setCity] = useState<string>('New Delhi');
+  // A picked GeoLocation pins refreshes to the same place; a plain name is geocoded each time
+  const [city, setCity] = useState<string | GeoLocation>(() => preferences.lastLocation || 'New Delhi');
   const [currentWeather, setCurrentWeather] = useState<CurrentWeather | null>(null);
   const [forecast, setForecast] = useState<ForecastResponse | null>(null);
-  const [unit, setUnit] = useState<Unit>(Unit.CELSIUS);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [revalidating, setRevalidating] = useState<boolean>(false);
+  const [offline, setOffline] = useState<boolean>(false);
+  const [nowcast, setNowcast] = useState<Nowcast | null>(null);
+  const [comparison, setComparison] = useState<WeatherComparison | null>(null);
   
   // App State
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [candidates, setCandidates] = useState<GeoLocation[]>([]);
+  const [pendingSearch, setPendingSearch] = useState<{ query: string; intent: string; focus: QueryFocus | null } | null>(null);
+  const [queryFocus, setQueryFocus] = useState<QueryFocus | null>(null);
+  const [locating, setLocating] = useState<boolean>(false);
+  const [view, setView] = useState<'detail' | 'saved'>('detail');
+  const [showUnitsMenu, setShowUnitsMenu] = useState<boolean>(false);
+  const [showAlertSettings, setShowAlertSettings] = useState<boolean>(false);
+  const [showAirQuality, setShowAirQuality] = useState<boolean>(false);
+  const [showAstronomy, setShowAstronomy] = useState<boolean>(false);
+  const [showVoiceMenu, setShowVoiceMenu] = useState<boolean>(false);
+  const watch = useWatchNotifications(preferences, updatePreferences);
+  const [hourlyRange, setHourlyRange] = useState<number>(HOURLY_RANGES[0].hours);
+  const [hourlyView, setHourlyView] = useState<'chart' | 'list'>('chart');
+  const [dailyRange, setDailyRange] = useState<number>(DAILY_RANGES[0]);
+  const { favorites, toggle: toggleFavorite, remove: removeFavorite, move: moveFavorite, isFavorite } = useFavorites(preferences.favorites, setFavorites);
   
   // AI State
   const [insight, setInsight] = useState<string>('');
   const [loadingInsight, setLoadingInsight] = useState<boolean>(false);
+  const [recommendations, setRecommendations] = useState<Recommendations | null>(null);
+  const [loadingRecommendations, setLoadingRecommendations] = useState<boolean>(false);
   const [bgImage, setBgImage] = useState<string | null>(null);
   const [loadingBg, setLoadingBg] = useState<boolean>(false);
-  const [bgQuotaError, setBgQuotaError] = useState<boolean>(false);
-  const [retryCountdown, setRetryCountdown] = useState<number>(0);
+  // A quota backoff from an earlier session still applies after a reload
+  const [bgQuotaError, setBgQuotaError] = useState<boolean>(() => !checkUsage('scene').allowed);
+  const [retryCountdown, setRetryCountdown] = useState<number>(() => checkUsage('scene').retryAfter || 0);
   const [userIntent, setUserIntent] = useState<string>('');
 
-  // Voice & TTS State
-  const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const recognitionRef = useRef<any>(null);
-  const synthRef = useRef<SpeechSynthesis | null>(null);
-
-  // Initialize Speech Recognition & Synthesis
-  useEffect(() => {
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = 'en-US';
-
-      recognitionRef.current.onresult = (event: any) => {
-        const transcript = event.results[0][0].transcript;
-        setSearchQuery(transcript);
-        handleSearch(null, transcript);
-        setIsListening(false);
-      };
-
-      recognitionRef.current.onerror = () => setIsListening(false);
-      recognitionRef.current.onend = () => setIsListening(false);
-    }
-    
-    if ('speechSynthesis' in window) {
-      synthRef.current = window.speechSynthesis;
-    }
-  }, []);
+  // Voice: push-to-talk, hands-free conversation and read-aloud all share one speech pipeline
+  const insightSpeechRef = useRef<SpeechStream | null>(null);
+  const voice = useVoiceAssistant({
+    language: getIntlLocale(preferences.locale),
+    settings: preferences.voice,
+    onTranscript: (transcript, speech) => answerVoiceQuery(transcript, speech),
+    onError: (voiceError) => setError(t(VOICE_ERRORS[voiceError]))
+  });
 
   // Timer Effect for Quota Reset
   useEffect(() => {
@@ -88,63 +167,102 @@ const App: React.FC = () => {
     }
   }, [retryCountdown]);
 
-  const toggleVoiceSearch = () => {
-    if (isListening) {
-      recognitionRef.current?.stop();
-      setIsListening(false);
-    } else {
-      recognitionRef.current?.start();
-      setIsListening(true);
-      setSearchQuery('Listening...');
-    }
-  };
-
   const toggleTTS = () => {
-    if (isSpeaking) {
-      synthRef.current?.cancel();
-      setIsSpeaking(false);
-    } else if (insight) {
-      const utterance = new SpeechSynthesisUtterance(insight);
-      utterance.onend = () => setIsSpeaking(false);
-      synthRef.current?.speak(utterance);
-      setIsSpeaking(true);
+    if (preferences.ttsEnabled) {
+      voice.cancelSpeech();
+      updatePreferences({ ttsEnabled: false });
+    } else {
+      updatePreferences({ ttsEnabled: true });
+      if (insight && !loadingInsight) voice.speak(insight);
     }
   };
 
-  useEffect(() => {
-    return () => {
-      synthRef.current?.cancel();
-    };
-  }, []);
+  // Late archive results are dropped if the user has moved on to another place meanwhile
+  const latestLocationRef = useRef<string | null>(null);
+  const showBundle = useCallback((bundle: WeatherBundle, fetchedAt: number) => {
+    latestLocationRef.current = getLocationKey(bundle.location);
+    setCurrentWeather(bundle.current);
+    setForecast(bundle.forecast);
+    setCity(bundle.location);
+    setLastUpdated(fetchedAt);
+    updatePreferences({ lastLocation: bundle.location });
+  }, [updatePreferences]);
 
-  const fetchData = useCallback(async (targetCity: string, intent?: string) => {
-    setLoading(true);
+  const fetchData = useCallback(async (targetCity: string | GeoLocation, intent?: string) => {
+    const cached = peekWeatherBundle(targetCity);
+    setLoading(!cached);
     setError(null);
+    setOffline(false);
     setInsight('');
+    setComparison(null);
+    setRecommendations(null);
     setBgImage(null);
     setBgQuotaError(false);
     setRetryCountdown(0); // Reset timer on new valid search
-    synthRef.current?.cancel();
-    setIsSpeaking(false);
-    
-    try {
-      const [weatherData, forecastData] = await Promise.all([
-        getCurrentWeather(targetCity, '', unit),
-        getForecast(targetCity, '', unit)
-      ]);
-
-      setCurrentWeather(weatherData);
-      setForecast(forecastData);
-      setCity(targetCity);
-
-      // AI Operations (Non-blocking)
-      setLoadingInsight(true);
-      let accumulatedText = "";
-      streamWeatherInsight(weatherData, unit, intent, (chunk) => {
-        accumulatedText += chunk;
-        setInsight(accumulatedText);
-      }).finally(() => setLoadingInsight(false));
+    // A voice query hands over its own speech stream; otherwise read-aloud opens a fresh one
+    const speech = insightSpeechRef.current || (preferences.ttsEnabled ? voice.createStream() : null);
+    insightSpeechRef.current = null;
+    if (!speech) voice.cancelSpeech();
+
+    // Stale-while-revalidate: cached data renders at once, the network refreshes it behind
+    if (cached) showBundle(cached.value, cached.fetchedAt);
+    let bundleData = cached?.value;
+
+    if (!cached || !isFresh(cached.fetchedAt)) {
+      setRevalidating(true);
+      try {
+        const bundle = await getWeatherBundle(targetCity);
+        showBundle(bundle, Date.now());
+        bundleData = bundle;
+      } catch (err: any) {
+        if (cached) {
+          // Keep the last good data on screen instead of replacing it with an error
+          setOffline(true);
+        } else {
+          const message = !navigator.onLine
+            ? t('error.offlineNoData')
+            : err.message || t('error.noWeather');
+          setError(message);
+          speech?.push(message);
+          setCurrentWeather(null);
+          setForecast(null);
+        }
+      } finally {
+        setRevalidating(false);
+      }
+    }
+    setLoading(false);
 
+    if (!bundleData) {
+      speech?.end();
+      return;
+    }
+    const weatherData = bundleData.current;
+    const activeAlerts = evaluateAlerts(bundleData, preferences.alertThresholds, units);
+    // Archive data is optional context: the insight only uses it if it is cached already,
+    // and never waits on the archive API, which is fetched alongside for the history card
+    const comparisonData = peekWeatherComparison(bundleData);
+    setComparison(comparisonData);
+    const comparisonLocation = getLocationKey(bundleData.location);
+    getWeatherComparison(bundleData)
+      .then(fetched => {
+        if (fetched && latestLocationRef.current === comparisonLocation) setComparison(fetched);
+      })
+      .catch(() => undefined);
+
+    // AI Operations (Non-blocking)
+    setLoadingInsight(true);
+    let accumulatedText = "";
+    streamWeatherInsight(weatherData, units, intent, (chunk) => {
+      accumulatedText += chunk;
+      setInsight(accumulatedText);
+      speech?.push(chunk);
+    }, { alerts: activeAlerts, comparison: comparisonData }).finally(() => {
+      setLoadingInsight(false);
+      speech?.end();
+    });
+
+    if (preferences.aiBackground) {
       setLoadingBg(true);
       generateWeatherScene(weatherData)
         .then((result) => {
@@ -153,20 +271,127 @@ const App: React.FC = () => {
               setBgQuotaError(false);
             } else if (result.isQuotaError) {
               setBgQuotaError(true);
-              setRetryCountdown(86400); // Start 24h countdown
+              setRetryCountdown(result.retryAfter || 0);
             }
         })
         .catch(err => console.warn("Background generation skipped:", err))
         .finally(() => setLoadingBg(false));
+    }
+  }, [units, preferences.aiBackground, preferences.alertThresholds, preferences.ttsEnabled, showBundle, voice.createStream, voice.cancelSpeech]);
 
-    } catch (err: any) {
-      setError(err.message || "Could not find weather data. Please try another city.");
-      setCurrentWeather(null);
-      setForecast(null);
-    } finally {
-      setLoading(false);
+  // Recomputed from whatever data is on screen, so alerts track threshold edits and unit changes instantly
+  const alerts = useMemo(() => (
+    currentWeather && forecast && typeof city !== 'string'
+      ? evaluateAlerts({ location: city, current: currentWeather, forecast }, preferences.alertThresholds, units)
+      : []
+  ), [currentWeather, forecast, city, preferences.alertThresholds, units]);
+  // The location's zone always decides calendar days; clock times follow the "their time / my time" toggle
+  const locationZone = currentWeather ? resolveTimeZone(currentWeather.timezone_id, currentWeather.timezone) : undefined;
+  // Sun and moon for the location's own calendar day, computed locally from its coordinates
+  const astronomy = useMemo(() => (
+    currentWeather && locationZone ? getAstronomy(currentWeather.coord.lat, currentWeather.coord.lon, locationZone) : null
+  ), [currentWeather, locationZone]);
+  const displayZone = preferences.timeDisplay === 'location' ? locationZone : undefined;
+  const chatContext = useMemo<ChatContext | null>(() => (
+    typeof city !== 'string' && locationZone ? { location: city, units, timeZone: locationZone, language: preferences.locale } : null
+  ), [city, units, locationZone, preferences.locale]);
+  const chat = useWeatherChat(chatContext);
+
+  // The forecast window a search asked about, in the searched place's own calendar
+  const focusWindow = useMemo(() => (
+    queryFocus?.when && locationZone ? resolveTimeWindow(queryFocus.when, locationZone) : null
+  ), [queryFocus, locationZone]);
+  const focusDate = focusWindow && locationZone ? getLocalDate(focusWindow.start, locationZone) : null;
+  const focusBundle = useMemo<WeatherBundle | null>(() => (
+    typeof city !== 'string' && currentWeather && forecast ? { location: city, current: currentWeather, forecast } : null
+  ), [city, currentWeather, forecast]);
+
+  // Once per search: widen the ranges until the window is on screen, then scroll to it
+  const focusSectionRef = useRef<HTMLDivElement>(null);
+  const jumpedFocusRef = useRef<QueryFocus | null>(null);
+  useEffect(() => {
+    if (!queryFocus || loading || !forecast || jumpedFocusRef.current === queryFocus) return;
+    jumpedFocusRef.current = queryFocus;
+    if (focusWindow && queryFocus.when) {
+      const hourly = forecast.hourly || [];
+      if (hourly.length > 0 && focusWindow.start <= hourly[hourly.length - 1].dt) {
+        const needed = (focusWindow.end - Date.now() / 1000) / 3600;
+        const range = HOURLY_RANGES.find(r => r.hours >= needed) || HOURLY_RANGES[HOURLY_RANGES.length - 1];
+        setHourlyRange(current => Math.max(current, range.hours));
+      } else {
+        const days = DAILY_RANGES.find(d => d > queryFocus.when!.dayOffset);
+        if (days) setDailyRange(current => Math.max(current, days));
+      }
     }
-  }, [unit]);
+    // Give the widened ranges a moment to render before measuring
+    const timer = setTimeout(() => {
+      focusSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      document.querySelectorAll<HTMLElement>('[data-focus-list]').forEach(list => {
+        const item = list.querySelector<HTMLElement>('[data-focus]');
+        if (!item) return;
+        const offset = item.getBoundingClientRect().left - list.getBoundingClientRect().left;
+        list.scrollTo({ left: list.scrollLeft + offset - 16, behavior: 'smooth' });
+      });
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [queryFocus, focusWindow, loading, forecast]);
+
+  // Plan mode asks for structured recommendations whenever new data lands on screen
+  useEffect(() => {
+    if (preferences.insightMode !== 'plan' || !currentWeather || !forecast || typeof city === 'string' || !locationZone) return;
+    let cancelled = false;
+    setLoadingRecommendations(true);
+    getRecommendations({ location: city, current: currentWeather, forecast }, locationZone)
+      .then(result => { if (!cancelled) setRecommendations(result); })
+      .finally(() => { if (!cancelled) setLoadingRecommendations(false); });
+    return () => { cancelled = true; };
+  }, [preferences.insightMode, currentWeather, forecast, city, locationZone, preferences.locale]);
+
+  const visibleAlerts = alerts.filter(alert => !isDismissed(alert, preferences.dismissedAlerts));
+
+  const handleDismissAlert = (alert: WeatherAlert) => {
+    updatePreferences(prev => ({ dismissedAlerts: dismissAlert(prev.dismissedAlerts, alert) }));
+  };
+
+  const setAlertThresholds = (thresholds: Partial<AlertThresholds>) => {
+    updatePreferences(prev => ({ alertThresholds: { ...prev.alertThresholds, ...thresholds } }));
+  };
+
+  // Once the connection returns, quietly refresh whatever cached data is on screen
+  useEffect(() => {
+    if (!offline) return;
+    const handleOnline = () => {
+      setRevalidating(true);
+      getWeatherBundle(city)
+        .then((bundle) => {
+          showBundle(bundle, Date.now());
+          setOffline(false);
+        })
+        .catch((err) => console.warn("Revalidation after reconnect failed:", err))
+        .finally(() => setRevalidating(false));
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [offline, city, showBundle]);
+
+  // The nowcast moves on a 15-minute grid, so it refreshes on its own timer rather than with the cached bundle
+  const cityKey = typeof city === 'string' ? null : getLocationKey(city);
+  useEffect(() => {
+    setNowcast(null);
+    if (typeof city === 'string') return;
+    let cancelled = false;
+    const load = () => getNowcast(city)
+      .then((result) => { if (!cancelled) setNowcast(result); })
+      .catch(() => { if (!cancelled) setNowcast(null); });
+    load();
+    const interval = setInterval(load, 5 * 60 * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+    // cityKey captures location identity; a revalidated bundle for the same place is a new object
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cityKey]);
 
   const retryBackgroundGeneration = async () => {
     if (!currentWeather || retryCountdown > 0) return;
@@ -182,7 +407,7 @@ const App: React.FC = () => {
         setRetryCountdown(0);
       } else if (result.isQuotaError) {
         setBgQuotaError(true);
-        setRetryCountdown(86400); // Restart 24h countdown if it fails again
+        setRetryCountdown(result.retryAfter || 0);
       }
     } catch (e) {
       console.error("Retry failed", e);
@@ -191,45 +416,219 @@ const App: React.FC = () => {
     }
   };
 
+  const toggleAIBackground = () => {
+    const enabled = !preferences.aiBackground;
+    updatePreferences({ aiBackground: enabled });
+    if (!enabled) {
+      setBgImage(null);
+      setBgQuotaError(false);
+      setRetryCountdown(0);
+    } else if (currentWeather && !bgImage) {
+      retryBackgroundGeneration();
+    }
+  };
+
+  // Boot into the last location the user looked at, falling back to the default city
   useEffect(() => {
-    fetchData('New Delhi');
+    fetchData(city);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); 
 
+  // A language switch asks Gemini again so the insight matches; the weather itself comes from cache
+  const localeRef = useRef(preferences.locale);
   useEffect(() => {
-    if (currentWeather) {
-      fetchData(city);
-    }
+    if (localeRef.current === preferences.locale) return;
+    localeRef.current = preferences.locale;
+    fetchData(city, userIntent);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [unit]);
+  }, [preferences.locale]);
+
+  // When the parse may have taken a weather word from a place name ("hot springs"), the name with the
+  // word put back is geocoded alongside the parse, and an exact match wins
+  const parseQuery = async (query: string): Promise<{ parsed: ParsedQuery; matches: GeoLocation[] }> => {
+    const placeName = getPlaceWithWeatherWord(query);
+    const [parsed, matches] = await Promise.all([
+      parseSearchQuery(query, locationZone),
+      placeName
+        ? searchLocations(placeName).then(found => found.filter(match => match.name.toLowerCase() === placeName.toLowerCase())).catch(() => [])
+        : Promise.resolve([])
+    ]);
+    if (matches.length === 0 || parsed.city.toLowerCase() === placeName!.toLowerCase()) return { parsed, matches };
+    // The word was part of the name, so it was not the metric asked about
+    return { parsed: { ...parsed, city: matches[0].name, metric: undefined }, matches };
+  };
 
   const handleSearch = async (e: React.FormEvent | null, manualQuery?: string) => {
     if (e) e.preventDefault();
+    autocomplete.close();
     const query = manualQuery || searchQuery;
     if (!query.trim()) return;
+    setError(null);
+    setView('detail');
+
+    // Pasted coordinates skip both Gemini parsing and name geocoding
+    const coordinates = parseCoordinates(query);
+    if (coordinates) {
+      setLoading(true);
+      setUserIntent('');
+      setQueryFocus(null);
+      dismissCandidates();
+      const location = await resolveCoordinates(coordinates.latitude, coordinates.longitude);
+      await fetchData(location);
+      return;
+    }
 
     let targetCity = query;
     let intent = '';
+    let focus: QueryFocus | null = null;
+    let exactMatches: GeoLocation[] = [];
 
-    if (query.trim().split(' ').length > 2 || query.length > 20) {
+    // Short queries are usually bare place names, unless they carry a time, metric or comparison
+    if (hasQueryDetails(parseQueryLocally(query)) || query.trim().split(' ').length > 2 || query.length > 20) {
        setLoading(true); 
        try {
-         const parsed = await parseSearchQuery(query);
+         const { parsed, matches } = await parseQuery(query);
          targetCity = parsed.city;
          intent = parsed.intent || '';
-         setUserIntent(intent);
+         focus = toFocus(parsed);
+         exactMatches = matches;
        } catch (error) {
          console.warn("Parsing failed, using raw query");
        }
+    }
+    setUserIntent(intent);
+    setQueryFocus(focus);
+
+    // No place named means the question is about the one already on screen
+    if (!targetCity.trim()) {
+      dismissCandidates();
+      await fetchData(city, intent);
+      return;
+    }
+
+    try {
+      const matches = exactMatches.length > 0 ? exactMatches : await searchLocations(targetCity);
+      if (matches.length === 0) {
+        setError(t('search.cityNotFound', { city: targetCity }));
+        setLoading(false);
+        return;
+      }
+      if (isAmbiguous(matches)) {
+        setCandidates(matches);
+        setPendingSearch({ query: targetCity, intent, focus });
+        setLoading(false);
+        return;
+      }
+      setCandidates([]);
+      await fetchData(matches[0], intent);
+    } catch (err: any) {
+      setError(err.message || t('search.failed'));
+      setLoading(false);
+    }
+  };
+
+  const handleCandidateSelect = (location: GeoLocation) => {
+    const intent = pendingSearch?.intent || '';
+    setQueryFocus(pendingSearch?.focus || null);
+    setCandidates([]);
+    setPendingSearch(null);
+    setView('detail');
+    fetchData(location, intent);
+  };
+
+  // A spoken query either names another place (show it and read out its insight) or is a
+  // follow-up about the place on screen, which the assistant answers in the shared chat
+  const answerVoiceQuery = async (transcript: string, speech: SpeechStream) => {
+    autocomplete.close();
+    setSearchQuery(transcript);
+    setError(null);
+    const { parsed, matches: exactMatches } = await parseQuery(transcript);
+    const matches = exactMatches.length > 0 ? exactMatches
+      : parsed.city.trim() ? await searchLocations(parsed.city).catch(() => []) : [];
+    const match = matches[0];
+    const focus = toFocus(parsed);
+
+    if (match && (typeof city === 'string' || getLocationKey(match) !== getLocationKey(city))) {
+      insightSpeechRef.current = speech;
+      dismissCandidates();
+      setView('detail');
+      setSearchQuery(formatLocationLabel(match));
+      setUserIntent(parsed.intent || '');
+      setQueryFocus(focus);
+      await fetchData(match, parsed.intent);
+      return;
+    }
+
+    if (focus) setQueryFocus(focus);
+    if (chatContext) {
+      const answer = await chat.send(transcript);
+      speech.push(answer ? answer.text : t('ai.chatBusy'));
     } else {
-        setUserIntent('');
+      speech.push(t('voice.notUnderstood'));
     }
+    speech.end();
+  };
 
-    await fetchData(targetCity, intent);
+  const dismissCandidates = () => {
+    setCandidates([]);
+    setPendingSearch(null);
+  };
+
+  const locateUser = () => {
+    if (!('geolocation' in navigator)) {
+      setError(t('error.geolocationUnavailable'));
+      return;
+    }
+
+    setLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const location = await resolveCoordinates(position.coords.latitude, position.coords.longitude);
+        setLocating(false);
+        setSearchQuery(formatLocationLabel(location));
+        setUserIntent('');
+        setQueryFocus(null);
+        dismissCandidates();
+        setView('detail');
+        fetchData(location);
+      },
+      (geoError) => {
+        setLocating(false);
+        setError(geoError.code === geoError.PERMISSION_DENIED
+          ? t('error.geolocationDenied')
+          : t('error.geolocationFailed'));
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const autocomplete = useLocationAutocomplete((location) => {
+    setSearchQuery(formatLocationLabel(location));
+    dismissCandidates();
+    setUserIntent('');
+    setQueryFocus(null);
+    setView('detail');
+    fetchData(location);
+  });
+
+  // Sliced by time rather than count, since 3-hourly providers have fewer slots per day
+  // Cached bundles can be hours old, so slots that have already ended are dropped first
+  const getHourlyForecast = (hourly: HourlyItem[]) => {
+    const now = Date.now() / 1000;
+    const upcoming = hourly.filter(item => item.dt + 3600 > now);
+    if (upcoming.length === 0) return upcoming;
+    const end = upcoming[0].dt + hourlyRange * 3600;
+    return upcoming.filter(item => item.dt < end);
   };
 
   const getDailyForecast = (list: ForecastItem[]) => {
-    return list.slice(0, 5);
+    return list.slice(0, dailyRange);
+  };
+
+  const formatPrecipitation = (millimetres: number) => {
+    const value = convertPrecipitation(millimetres, units.precipitation);
+    return `${formatNumber(value, units.precipitation === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[units.precipitation]}`;
   };
 
   const getBackgroundClass = (weatherCode?: string) => {
@@ -242,26 +641,8 @@ const App: React.FC = () => {
     return "from-slate-800 to-slate-900";
   };
 
-  const formatTime = (timestamp: number) => {
-    // Basic local time formatter for sunrise/set independent of timezone offset for now
-    // Ideally we shift this too, but browser handles it okay usually
-    return new Date(timestamp * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatDisplayTime = (timestamp: number) => formatTime(timestamp, displayZone);
   
-  const getAQIColor = (aqi: number) => {
-      if (aqi <= 50) return "text-green-400";
-      if (aqi <= 100) return "text-yellow-400";
-      if (aqi <= 150) return "text-orange-400";
-      return "text-red-500";
-  };
-
-  const getAQIDescription = (aqi: number) => {
-      if (aqi <= 50) return "Good";
-      if (aqi <= 100) return "Moderate";
-      if (aqi <= 150) return "Unhealthy for Sensitive";
-      return "Unhealthy";
-  };
-
   const formatCountdown = (seconds: number) => {
     const h = Math.floor(seconds / 3600);
     const m = Math.floor((seconds % 3600) / 60);
@@ -298,27 +679,131 @@ const App: React.FC = () => {
             <form onSubmit={(e) => handleSearch(e)} className="relative w-full">
               <input
                 type="text"
-                placeholder="Search city..."
+                placeholder={voice.listening ? t('search.listening') : t('search.placeholder')}
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  autocomplete.updateQuery(e.target.value);
+                }}
+                onKeyDown={autocomplete.handleKeyDown}
+                onBlur={autocomplete.close}
+                role="combobox"
+                aria-expanded={autocomplete.suggestions.length > 0}
+                aria-controls="location-suggestions"
+                aria-autocomplete="list"
                 className="w-full pl-10 pr-12 py-3 rounded-2xl bg-white/20 border border-white/20 text-white placeholder-white/70 backdrop-blur-md focus:outline-none focus:bg-white/30 focus:ring-2 focus:ring-white/40 transition-all shadow-lg"
               />
               <Search className="absolute left-3.5 top-3.5 w-5 h-5 text-white/70" />
             </form>
-            <button 
-              onClick={toggleVoiceSearch}
-              className={`absolute right-2 top-2 p-1.5 rounded-xl transition-all ${isListening ? 'bg-red-500 text-white animate-pulse' : 'text-white/70 hover:bg-white/20'}`}
+            <button
+              onClick={voice.toggleListening}
+              title={voice.supported.recognition ? t('search.voice') : t('voice.unsupported')}
+              className={`absolute right-2 top-2 p-1.5 rounded-xl transition-all ${voice.listening ? 'bg-red-500 text-white animate-pulse' : 'text-white/70 hover:bg-white/20'} ${voice.supported.recognition ? '' : 'opacity-50'}`}
             >
-              {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+              {voice.listening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
             </button>
+            {autocomplete.suggestions.length > 0 && (
+              <LocationSuggestions
+                suggestions={autocomplete.suggestions}
+                activeIndex={autocomplete.activeIndex}
+                onSelect={autocomplete.pick}
+                onHover={autocomplete.setActiveIndex}
+              />
+            )}
+            {candidates.length > 0 && pendingSearch && (
+              <LocationPicker
+                query={pendingSearch.query}
+                candidates={candidates}
+                onSelect={handleCandidateSelect}
+                onDismiss={dismissCandidates}
+              />
+            )}
           </div>
 
+          <button
+            onClick={voice.conversation ? voice.stop : voice.startConversation}
+            title={!voice.supported.recognition ? t('voice.unsupported') : voice.conversation ? t('voice.stopMode') : t('voice.start')}
+            className={`w-12 h-12 flex-none flex items-center justify-center rounded-2xl backdrop-blur-md border border-white/20 transition-all text-white shadow-lg ${voice.conversation ? 'bg-red-500/70 hover:bg-red-500' : 'bg-white/20 hover:bg-white/30'} ${voice.supported.recognition ? '' : 'opacity-50'}`}
+          >
+            <AudioLines className="w-5 h-5" />
+          </button>
+
+          <button
+            onClick={() => setView(view === 'saved' ? 'detail' : 'saved')}
+            title={t('header.saved')}
+            className={`w-12 h-12 flex-none flex items-center justify-center rounded-2xl backdrop-blur-md border border-white/20 transition-all text-white shadow-lg ${view === 'saved' ? 'bg-white/40' : 'bg-white/20 hover:bg-white/30'}`}
+          >
+            <LayoutGrid className="w-5 h-5" />
+          </button>
+
+          <button
+            onClick={locateUser}
+            disabled={locating}
+            title={t('header.locate')}
+            className="w-12 h-12 flex-none flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white shadow-lg disabled:opacity-60"
+          >
+            {locating ? <Loader2 className="w-5 h-5 animate-spin" /> : <LocateFixed className="w-5 h-5" />}
+          </button>
+
           <button 
-            onClick={() => setUnit(unit === Unit.CELSIUS ? Unit.FAHRENHEIT : Unit.CELSIUS)}
-            className="w-12 h-12 flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white font-bold shadow-lg"
+            onClick={() => setUnits({ temperature: units.temperature === Unit.CELSIUS ? Unit.FAHRENHEIT : Unit.CELSIUS })}
+            className="w-12 h-12 flex-none flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white font-bold shadow-lg"
           >
-            {unit === Unit.CELSIUS ? '°C' : '°F'}
+            {UNIT_LABELS.temperature[units.temperature]}
           </button>
+
+          <div className="relative flex-none">
+            <button
+              onClick={() => setShowUnitsMenu(!showUnitsMenu)}
+              title={t('header.units')}
+              className="w-12 h-12 flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white shadow-lg"
+            >
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+            {showUnitsMenu && (
+              <UnitsMenu units={units} onChange={setUnits} onClose={() => setShowUnitsMenu(false)} />
+            )}
+          </div>
+
+          <label
+            title={t('header.language')}
+            className="relative w-12 h-12 flex-none flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white shadow-lg cursor-pointer"
+          >
+            <Languages className="w-5 h-5" />
+            <select
+              value={preferences.locale}
+              onChange={(e) => isLocale(e.target.value) && updatePreferences({ locale: e.target.value })}
+              aria-label={t('header.language')}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            >
+              {Object.entries(LOCALES).map(([code, info]) => (
+                <option key={code} value={code} className="text-black">{info.nativeName}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="relative flex-none">
+            <button
+              onClick={() => setShowAlertSettings(!showAlertSettings)}
+              title={t('header.alerts')}
+              className="w-12 h-12 flex items-center justify-center rounded-2xl bg-white/20 hover:bg-white/30 backdrop-blur-md border border-white/20 transition-all text-white shadow-lg"
+            >
+              <Bell className="w-5 h-5" />
+            </button>
+            {showAlertSettings && (
+              <AlertSettings
+                thresholds={preferences.alertThresholds}
+                units={units}
+                onChange={setAlertThresholds}
+                onReset={() => updatePreferences({ alertThresholds: DEFAULT_ALERT_THRESHOLDS })}
+                notifications={preferences.notifications}
+                permission={watch.permission}
+                onToggleNotifications={watch.setEnabled}
+                onQuietHoursChange={watch.setQuietHours}
+                onClose={() => setShowAlertSettings(false)}
+              />
+            )}
+          </div>
         </div>
       </header>
 
@@ -332,7 +817,19 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {loading ? (
+        {view === 'saved' ? (
+          <FavoritesDashboard
+            favorites={favorites}
+            units={units}
+            onSelect={(location) => {
+              setView('detail');
+              setQueryFocus(null);
+              fetchData(location);
+            }}
+            onRemove={removeFavorite}
+            onMove={moveFavorite}
+          />
+        ) : loading ? (
           <div className="w-full h-96 flex flex-col items-center justify-center gap-6 text-white">
             <div className="relative">
               <div className="w-20 h-20 border-4 border-white/20 border-t-white rounded-full animate-spin"></div>
@@ -340,10 +837,20 @@ const App: React.FC = () => {
                 <CloudDrizzle className="w-8 h-8 opacity-50 animate-pulse" />
               </div>
             </div>
-            <p className="text-xl font-light tracking-wide animate-pulse">Scanning atmospheric data...</p>
+            <p className="text-xl font-light tracking-wide animate-pulse">{t('status.scanning')}</p>
           </div>
         ) : currentWeather ? (
           <>
+            <AlertsBanner alerts={visibleAlerts} onDismiss={handleDismissAlert} timeZone={displayZone} />
+
+            {showAirQuality && typeof city !== 'string' && (
+              <AirQualityPanel location={city} onClose={() => setShowAirQuality(false)} timeZone={displayZone} />
+            )}
+
+            {showAstronomy && astronomy && (
+              <AstronomyPanel astronomy={astronomy} locationName={currentWeather.name} formatTime={formatDisplayTime} onClose={() => setShowAstronomy(false)} />
+            )}
+
             {/* Top Bento Grid */}
             <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6">
               
@@ -354,114 +861,201 @@ const App: React.FC = () => {
                     <div className="flex flex-col space-y-2">
                       <div className="flex items-center gap-2 px-3 py-1 bg-black/20 rounded-full text-white/90 text-sm backdrop-blur-sm w-fit">
                         <MapPin className="w-4 h-4" />
-                        <span className="font-medium tracking-wide">{currentWeather.name}, {currentWeather.sys.country}</span>
+                        <span className="font-medium tracking-wide">{[currentWeather.name, currentWeather.sys.country].filter(c => c && c !== 'XX').join(', ')}</span>
                       </div>
                       <div className="flex items-center gap-2 mt-2">
                          <Clock className="w-4 h-4 text-white/70" />
-                         <LocalClock timezoneOffset={currentWeather.timezone} />
+                         <LocalClock timeZone={locationZone!} />
+                         <div className="flex rounded-full bg-white/10 p-0.5 gap-0.5 ml-1">
+                           {([['location', t('time.their')], ['device', t('time.mine')]] as const).map(([mode, label]) => (
+                             <button
+                               key={mode}
+                               onClick={() => updatePreferences({ timeDisplay: mode })}
+                               title={mode === 'location' ? t('time.theirTitle', { name: currentWeather.name }) : t('time.mineTitle')}
+                               className={`px-2 py-0.5 rounded-full text-[10px] font-medium transition-colors ${preferences.timeDisplay === mode ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                             >
+                               {label}
+                             </button>
+                           ))}
+                         </div>
                       </div>
+                      {lastUpdated && (
+                        <FreshnessBadge fetchedAt={lastUpdated} revalidating={revalidating} offline={offline} />
+                      )}
                     </div>
-                    <div className="p-4 bg-white/10 rounded-full backdrop-blur-md">
-                        <WeatherIcon code={currentWeather.weather[0].icon} className="w-16 h-16" />
+                    <div className="flex items-start gap-2">
+                      {typeof city !== 'string' && (
+                        <button
+                          onClick={() => toggleFavorite(city)}
+                          title={isFavorite(city) ? t('favorite.remove') : t('favorite.add')}
+                          className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                        >
+                          <Star className={`w-5 h-5 ${isFavorite(city) ? 'fill-yellow-300 text-yellow-300' : 'text-white/70'}`} />
+                        </button>
+                      )}
+                      <div className="p-4 bg-white/10 rounded-full backdrop-blur-md">
+                          <WeatherIcon code={currentWeather.weather[0].icon} className="w-16 h-16" />
+                      </div>
                     </div>
                   </div>
                   
                   <div className="mt-8">
                     <div className="text-[6rem] md:text-[7rem] leading-none font-bold tracking-tighter drop-shadow-2xl">
-                      {Math.round(currentWeather.main.temp)}°
+                      {formatTemperature(currentWeather.main.temp, units.temperature)}
                     </div>
                     <div className="text-2xl font-light capitalize text-white/90 mt-2">
-                       {currentWeather.weather[0].description}
+                       {describeCondition(currentWeather.weather[0])}
                     </div>
                     <div className="flex items-center gap-4 mt-4 text-white/70">
-                       <span>H: {Math.round(currentWeather.main.temp_max)}°</span>
-                       <span>L: {Math.round(currentWeather.main.temp_min)}°</span>
+                       <span>{t('temp.high', { value: formatTemperature(currentWeather.main.temp_max, units.temperature) })}</span>
+                       <span>{t('temp.low', { value: formatTemperature(currentWeather.main.temp_min, units.temperature) })}</span>
                     </div>
                   </div>
                 </div>
               </div>
 
-              {/* 2. AI Insight Card (Medium) */}
-              <div className="md:col-span-1 lg:col-span-2 bg-gradient-to-br from-indigo-900/60 to-purple-900/60 backdrop-blur-xl border border-white/20 rounded-[2rem] p-8 text-white shadow-2xl flex flex-col justify-between">
-                <div>
-                  <div className="flex items-center justify-between mb-4 border-b border-white/10 pb-4">
-                    <div className="flex items-center gap-2">
-                      <Sparkles className="w-5 h-5 text-yellow-300" />
-                      <h3 className="text-lg font-bold">Smart Analysis</h3>
-                    </div>
-                    <button onClick={toggleTTS} className="p-2 hover:bg-white/10 rounded-full transition-colors">
-                       {isSpeaking ? <VolumeX className="w-4 h-4 text-red-300" /> : <Volume2 className="w-4 h-4 text-white/70" />}
-                    </button>
-                  </div>
-                  <div className="min-h-[100px] text-base font-light leading-relaxed text-white/90">
-                    {loadingInsight && !insight ? (
-                       <p className="animate-pulse opacity-70">Analyzing atmosphere...</p>
-                    ) : (
-                       <p>{insight}</p>
-                    )}
-                  </div>
-                </div>
-                
-                <div className="mt-4 flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-white/5">
-                    <div className="flex items-center gap-2 text-xs text-white/40">
-                      <ImageIcon className="w-3 h-3" />
-                      <span>
-                        {loadingBg ? 'Rendering scene...' : bgImage ? 'Live scene generated' : bgQuotaError ? 'Standard atmosphere (Quota)' : 'Standard atmosphere'}
-                      </span>
-                    </div>
-
-                    {bgQuotaError && (
-                      <>
-                        {retryCountdown > 0 ? (
-                            <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-500/20 text-red-200 text-xs font-medium border border-red-500/30 transition-all">
-                                <Clock className="w-3 h-3 animate-pulse" />
-                                <span>Resets in {formatCountdown(retryCountdown)}</span>
-                            </div>
-                        ) : (
-                            <button 
-                                onClick={retryBackgroundGeneration}
-                                disabled={loadingBg}
-                                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-500/20 hover:bg-amber-500/40 text-amber-200 text-xs font-medium transition-all border border-amber-500/30 cursor-pointer"
+              {/* 2. AI Insight Card (Medium) with the nowcast beside it */}
+              <div className="md:col-span-1 lg:col-span-2 flex flex-col gap-6">
+                <div className="flex-1 bg-gradient-to-br from-indigo-900/60 to-purple-900/60 backdrop-blur-xl border border-white/20 rounded-[2rem] p-8 text-white shadow-2xl flex flex-col justify-between">
+                  <div>
+                    <div className="flex items-center justify-between mb-4 border-b border-white/10 pb-4">
+                      <div className="flex items-center gap-2">
+                        <Sparkles className="w-5 h-5 text-yellow-300" />
+                        <h3 className="text-lg font-bold">{t('insight.title')}</h3>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <div className="flex bg-white/10 rounded-full p-1 text-xs">
+                          {(['summary', 'plan'] as InsightMode[]).map(mode => (
+                            <button
+                              key={mode}
+                              onClick={() => updatePreferences({ insightMode: mode })}
+                              className={`px-3 py-1 rounded-full transition-colors ${preferences.insightMode === mode ? 'bg-white/20 text-white' : 'text-white/60 hover:text-white'}`}
                             >
-                                <Zap className="w-3 h-3" />
-                                {loadingBg ? 'Checking...' : 'Check Quota / Retry'}
-                                {!loadingBg && <RefreshCw className="w-3 h-3 ml-1" />}
+                              {t(`insight.${mode}`)}
                             </button>
+                          ))}
+                        </div>
+                        {voice.supported.synthesis ? (
+                          <div className="relative flex items-center">
+                            <button
+                              onClick={toggleTTS}
+                              title={preferences.ttsEnabled ? t('insight.ttsOff') : t('insight.ttsOn')}
+                              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                            >
+                               {preferences.ttsEnabled
+                                 ? <Volume2 className={`w-4 h-4 text-yellow-300 ${voice.speaking ? 'animate-pulse' : ''}`} />
+                                 : <VolumeX className="w-4 h-4 text-white/70" />}
+                            </button>
+                            <button
+                              onClick={() => setShowVoiceMenu(!showVoiceMenu)}
+                              title={t('voice.settings')}
+                              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                            >
+                              <Settings2 className="w-4 h-4 text-white/70" />
+                            </button>
+                            {showVoiceMenu && (
+                              <VoiceMenu
+                                settings={preferences.voice}
+                                voices={voice.voices}
+                                language={getIntlLocale(preferences.locale)}
+                                onChange={(changes) => updatePreferences(prev => ({ voice: { ...prev.voice, ...changes } }))}
+                                onTest={() => voice.speak(t('voice.sample'))}
+                                onClose={() => setShowVoiceMenu(false)}
+                              />
+                            )}
+                          </div>
+                        ) : (
+                          <span title={t('voice.noSynthesis')} className="p-2">
+                            <VolumeX className="w-4 h-4 text-white/30" />
+                          </span>
                         )}
-                      </>
-                    )}
+                      </div>
+                    </div>
+                    <div className="min-h-[100px] text-base font-light leading-relaxed text-white/90">
+                      {preferences.insightMode === 'plan' ? (
+                         <RecommendationsCard recommendations={recommendations} loading={loadingRecommendations} formatTime={formatDisplayTime} />
+                      ) : loadingInsight && !insight ? (
+                         <p className="animate-pulse opacity-70">{t('insight.analyzing')}</p>
+                      ) : (
+                         <p>{insight}</p>
+                      )}
+                    </div>
+                  </div>
+                  
+                  <div className="mt-4 flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-white/5">
+                      <button
+                        onClick={toggleAIBackground}
+                        title={t(preferences.aiBackground ? 'scene.toggleOff' : 'scene.toggleOn', { used: getUsageCounts().scene, budget: DAILY_BUDGETS.scene })}
+                        className="flex items-center gap-2 text-xs text-white/40 hover:text-white/70 transition-colors"
+                      >
+                        <ImageIcon className={`w-3 h-3 ${preferences.aiBackground ? 'text-white/70' : ''}`} />
+                        <span>
+                          {t(!preferences.aiBackground ? 'scene.off' : loadingBg ? 'scene.rendering' : bgImage ? 'scene.live' : bgQuotaError ? 'scene.standardQuota' : 'scene.standard')}
+                        </span>
+                      </button>
+
+                      {bgQuotaError && (
+                        <>
+                          {retryCountdown > 0 ? (
+                              <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-red-500/20 text-red-200 text-xs font-medium border border-red-500/30 transition-all">
+                                  <Clock className="w-3 h-3 animate-pulse" />
+                                  <span>{t('scene.resetsIn', { time: formatCountdown(retryCountdown) })}</span>
+                              </div>
+                          ) : (
+                              <button 
+                                  onClick={retryBackgroundGeneration}
+                                  disabled={loadingBg}
+                                  className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-amber-500/20 hover:bg-amber-500/40 text-amber-200 text-xs font-medium transition-all border border-amber-500/30 cursor-pointer"
+                              >
+                                  <Zap className="w-3 h-3" />
+                                  {loadingBg ? t('scene.checking') : t('scene.retry')}
+                                  {!loadingBg && <RefreshCw className="w-3 h-3 ml-1" />}
+                              </button>
+                          )}
+                        </>
+                      )}
+                  </div>
                 </div>
+                <NowcastCard nowcast={nowcast} units={units} timeZone={displayZone} />
               </div>
 
               {/* 3. Detailed Metrics Grid (Small Cards) */}
-              {/* AQI */}
-              <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
+              {/* AQI (opens the detail panel) */}
+              <button
+                onClick={() => setShowAirQuality(true)}
+                disabled={typeof city === 'string'}
+                title={t('metric.airQualityDetails')}
+                className="text-left text-white bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors"
+              >
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Activity className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">Air Quality</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.airQuality')}</span>
                  </div>
                  <div className="flex flex-col">
                     <span className={`text-3xl font-bold ${currentWeather.aqi ? getAQIColor(currentWeather.aqi.us_aqi) : 'text-white'}`}>
-                        {currentWeather.aqi?.us_aqi || 'N/A'}
+                        {currentWeather.aqi?.us_aqi || t('metric.notAvailable')}
                     </span>
-                    <span className="text-xs text-white/60">{currentWeather.aqi ? getAQIDescription(currentWeather.aqi.us_aqi) : ''}</span>
+                    <span className="text-xs text-white/60">{currentWeather.aqi ? t(getAQIDescription(currentWeather.aqi.us_aqi)) : ''}</span>
                  </div>
                  {currentWeather.aqi && (
-                    <div className="mt-2 text-xs text-white/40">
-                       PM2.5: {currentWeather.aqi.pm2_5}
+                    <div className="mt-2 text-xs text-white/40 flex flex-col">
+                       <span>PM2.5: {currentWeather.aqi.pm2_5}</span>
+                       {typeof currentWeather.aqi.eu_aqi === 'number' && (
+                         <span>EU: {currentWeather.aqi.eu_aqi} ({t(getAQIDescription(currentWeather.aqi.eu_aqi, 'eu'))})</span>
+                       )}
                     </div>
                  )}
-              </div>
+              </button>
 
                {/* Wind */}
                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Waves className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">Wind</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.wind')}</span>
                  </div>
                  <div className="flex flex-col">
-                    <span className="text-3xl font-bold text-white">{Math.round(currentWeather.wind.speed)} <span className="text-lg font-normal text-white/50">m/s</span></span>
-                    <span className="text-xs text-white/60">Direction: {currentWeather.wind.deg}°</span>
+                    <span className="text-3xl font-bold text-white">{Math.round(convertWind(currentWeather.wind.speed, units.wind))} <span className="text-lg font-normal text-white/50">{UNIT_LABELS.wind[units.wind]}</span></span>
+                    <span className="text-xs text-white/60">{t('metric.direction', { value: currentWeather.wind.deg })}</span>
                  </div>
               </div>
 
@@ -469,21 +1063,21 @@ const App: React.FC = () => {
               <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Droplets className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">Humidity</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.humidity')}</span>
                  </div>
                  <span className="text-3xl font-bold text-white">{currentWeather.main.humidity}%</span>
-                 <div className="text-xs text-white/60">Dew Point: {Math.round(currentWeather.dew_point)}°</div>
+                 <div className="text-xs text-white/60">{t('metric.dewPoint', { value: formatTemperature(currentWeather.dew_point, units.temperature) })}</div>
               </div>
 
               {/* UV Index */}
               <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Sun className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">UV Index</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.uv')}</span>
                  </div>
-                 <span className="text-3xl font-bold text-white">{currentWeather.uv_index?.toFixed(1) || 'N/A'}</span>
+                 <span className="text-3xl font-bold text-white">{currentWeather.uv_index ? formatNumber(currentWeather.uv_index, 1) : t('metric.notAvailable')}</span>
                  <div className="text-xs text-white/60">
-                    {currentWeather.uv_index > 8 ? 'Very High' : currentWeather.uv_index > 5 ? 'High' : 'Moderate'}
+                    {t(currentWeather.uv_index > 8 ? 'metric.uvVeryHigh' : currentWeather.uv_index > 5 ? 'metric.uvHigh' : 'metric.uvModerate')}
                  </div>
               </div>
 
@@ -491,48 +1085,120 @@ const App: React.FC = () => {
                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Eye className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">Visibility</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.visibility')}</span>
                  </div>
-                 <span className="text-3xl font-bold text-white">{(currentWeather.visibility / 1000).toFixed(1)} <span className="text-lg font-normal text-white/50">km</span></span>
+                 <span className="text-3xl font-bold text-white">{formatNumber(convertDistance(currentWeather.visibility, units.distance), 1)} <span className="text-lg font-normal text-white/50">{UNIT_LABELS.distance[units.distance]}</span></span>
               </div>
 
                {/* Pressure */}
                <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col justify-between hover:bg-white/10 transition-colors">
                  <div className="flex items-center gap-2 text-white/60 mb-2">
                     <Gauge className="w-5 h-5" />
-                    <span className="text-sm font-bold uppercase">Pressure</span>
+                    <span className="text-sm font-bold uppercase">{t('metric.pressure')}</span>
                  </div>
-                 <span className="text-3xl font-bold text-white">{Math.round(currentWeather.main.pressure)} <span className="text-lg font-normal text-white/50">hPa</span></span>
+                 <span className="text-3xl font-bold text-white">{formatNumber(convertPressure(currentWeather.main.pressure, units.pressure), units.pressure === 'inhg' ? 2 : 0)} <span className="text-lg font-normal text-white/50">{UNIT_LABELS.pressure[units.pressure]}</span></span>
               </div>
             </div>
 
+            {queryFocus && focusBundle && locationZone && (
+              <QueryFocusPanel
+                focus={queryFocus}
+                window={focusWindow}
+                beyondForecast={!!focusDate && forecast.list.length > 0 && focusDate > getLocalDate(forecast.list[forecast.list.length - 1].dt, locationZone)}
+                main={focusBundle}
+                units={units}
+                locationZone={locationZone}
+                displayZone={displayZone}
+                onSelect={(location) => {
+                  setQueryFocus({ ...queryFocus, compareWith: undefined });
+                  setSearchQuery(formatLocationLabel(location));
+                  fetchData(location, userIntent);
+                }}
+                onClear={() => setQueryFocus(null)}
+              />
+            )}
+
             {/* Hourly & Sun Times Section */}
-            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mt-2">
+            <div ref={focusSectionRef} className="grid grid-cols-1 lg:grid-cols-4 gap-6 mt-2">
                 {/* Hourly Slider */}
                 <div className="lg:col-span-3 bg-white/5 backdrop-blur-md border border-white/10 rounded-[2rem] p-6 overflow-hidden">
-                    <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider mb-4 px-2">24-Hour Forecast</h4>
-                    <div className="flex overflow-x-auto pb-4 gap-4 no-scrollbar cursor-grab active:cursor-grabbing">
-                        {forecast?.hourly?.map((item, i) => (
-                           <div key={i} className="flex-none flex flex-col items-center gap-2 min-w-[70px] p-3 rounded-xl hover:bg-white/5 transition-colors group">
-                              <span className="text-xs text-white/60">{new Date(item.dt * 1000).getHours()}:00</span>
-                              <WeatherIcon code={item.weather[0].icon} className="w-6 h-6 group-hover:scale-110 transition-transform" />
-                              <span className="font-bold text-lg">{Math.round(item.temp)}°</span>
-                              {item.pop !== undefined && item.pop > 0 && (
-                                <span className="text-[10px] text-blue-300 flex items-center"><Umbrella className="w-2 h-2 mr-1"/> {item.pop}%</span>
-                              )}
-                           </div>
-                        ))}
+                    <div className="flex items-center justify-between mb-4 px-2">
+                        <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider">{t('hourly.title')}</h4>
+                        <div className="flex items-center gap-2">
+                          <div className="flex rounded-full bg-white/10 p-1 gap-1">
+                              {(['chart', 'list'] as const).map(mode => (
+                                <button
+                                  key={mode}
+                                  onClick={() => setHourlyView(mode)}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${hourlyView === mode ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                                >
+                                  {t(`hourly.${mode}`)}
+                                </button>
+                              ))}
+                          </div>
+                          <div className="flex rounded-full bg-white/10 p-1 gap-1">
+                              {HOURLY_RANGES.map(range => (
+                                <button
+                                  key={range.hours}
+                                  onClick={() => setHourlyRange(range.hours)}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${hourlyRange === range.hours ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                                >
+                                  {t(range.label)}
+                                </button>
+                              ))}
+                          </div>
+                        </div>
                     </div>
+                    {hourlyView === 'chart' && forecast ? (
+                      <HourlyChart
+                        hourly={getHourlyForecast(forecast.hourly || [])}
+                        daily={forecast.list}
+                        sunrise={forecast.city.sunrise}
+                        sunset={forecast.city.sunset}
+                        units={units}
+                        timeZone={displayZone}
+                        highlight={focusWindow}
+                        emphasis={queryFocus?.metric && CHART_EMPHASIS[queryFocus.metric]}
+                      />
+                    ) : (
+                      <div data-focus-list className="flex overflow-x-auto pb-4 gap-4 no-scrollbar cursor-grab active:cursor-grabbing">
+                          {forecast && getHourlyForecast(forecast.hourly || []).map((item, i) => {
+                             const { hour, minute } = getZonedParts(item.dt, displayZone);
+                             // Mark day boundaries so the longer ranges stay readable while scrolling
+                             const newDay = i > 0 && hour === 0;
+                             const inFocus = !!focusWindow && item.dt >= focusWindow.start && item.dt < focusWindow.end;
+                             return (
+                               <div key={item.dt} data-focus={inFocus || undefined} className={`flex-none flex flex-col items-center gap-2 min-w-[70px] p-3 rounded-xl hover:bg-white/5 transition-colors group ${newDay ? 'border-l border-white/20' : ''} ${inFocus ? 'bg-yellow-300/10 ring-1 ring-yellow-300/50' : ''}`}>
+                                  <span className="text-xs text-white/60">
+                                    {newDay ? formatInZone(item.dt, displayZone, { weekday: 'short' }) : `${hour}:${String(minute).padStart(2, '0')}`}
+                                  </span>
+                                  <WeatherIcon code={item.weather[0].icon} className="w-6 h-6 group-hover:scale-110 transition-transform" />
+                                  <span className="font-bold text-lg">{formatTemperature(item.temp, units.temperature)}</span>
+                                  {item.pop !== undefined && item.pop > 0 && (
+                                    <span className="text-[10px] text-blue-300 flex items-center"><Umbrella className="w-2 h-2 mr-1"/> {item.pop}%</span>
+                                  )}
+                                  <span className="text-[10px] text-white/50">
+                                    {Math.round(convertWind(item.wind.speed, units.wind))} {UNIT_LABELS.wind[units.wind]}
+                                  </span>
+                               </div>
+                             );
+                          })}
+                      </div>
+                    )}
                 </div>
 
-                {/* Sun Times */}
-                <div className="lg:col-span-1 bg-white/5 backdrop-blur-md border border-white/10 rounded-[2rem] p-6 flex flex-col justify-center gap-6">
+                {/* Sun & Moon */}
+                <button
+                  onClick={() => setShowAstronomy(true)}
+                  disabled={!astronomy}
+                  className="lg:col-span-1 bg-white/5 backdrop-blur-md border border-white/10 rounded-[2rem] p-6 flex flex-col justify-center gap-5 text-left hover:bg-white/10 transition-colors"
+                >
                     <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
                            <Sunrise className="w-8 h-8 text-orange-300" />
                            <div className="flex flex-col">
-                              <span className="text-xs text-white/50 uppercase">Sunrise</span>
-                              <span className="text-xl font-bold">{formatTime(currentWeather.sys.sunrise)}</span>
+                              <span className="text-xs text-white/50 uppercase">{t('sun.sunrise')}</span>
+                              <span className="text-xl font-bold">{formatDisplayTime(currentWeather.sys.sunrise)}</span>
                            </div>
                         </div>
                     </div>
@@ -541,38 +1207,83 @@ const App: React.FC = () => {
                         <div className="flex items-center gap-3">
                            <Sunset className="w-8 h-8 text-purple-300" />
                            <div className="flex flex-col">
-                              <span className="text-xs text-white/50 uppercase">Sunset</span>
-                              <span className="text-xl font-bold">{formatTime(currentWeather.sys.sunset)}</span>
+                              <span className="text-xs text-white/50 uppercase">{t('sun.sunset')}</span>
+                              <span className="text-xl font-bold">{formatDisplayTime(currentWeather.sys.sunset)}</span>
                            </div>
                         </div>
                     </div>
-                </div>
+                    {astronomy && (
+                      <>
+                        <div className="w-full h-px bg-white/10"></div>
+                        <div className="flex flex-col text-sm">
+                           <span className="text-white/80">{t('sun.daylight', { value: formatDuration(astronomy.sun.dayLength) })}</span>
+                           <span className={`text-xs ${astronomy.dayLengthChange >= 0 ? 'text-amber-300' : 'text-blue-300'}`}>{t('sun.vsYesterday', { value: formatDayLengthChange(astronomy.dayLengthChange) })}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                           <MoonPhaseIcon phase={astronomy.moon.phase} illumination={astronomy.moon.illumination} className="w-8 h-8" />
+                           <div className="flex flex-col">
+                              <span className="text-sm font-bold">{t(astronomy.moon.phaseName)}</span>
+                              <span className="text-xs text-white/50">{t('moon.illuminated', { value: Math.round(astronomy.moon.illumination * 100) })}</span>
+                           </div>
+                        </div>
+                      </>
+                    )}
+                </button>
             </div>
 
-            {/* 5-Day Forecast Row */}
+            {/* Historical Context */}
+            <HistoryCard comparison={comparison} units={units} />
+
+            {/* Daily Forecast Row */}
             <div className="mt-4">
-              <h2 className="text-xl font-bold text-white mb-4 px-2 flex items-center gap-3 opacity-90">
-                5-Day Outlook
-              </h2>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+              <div className="flex items-center justify-between mb-4 px-2">
+                <h2 className="text-xl font-bold text-white flex items-center gap-3 opacity-90">
+                  {t('daily.title', { count: forecast ? Math.min(dailyRange, forecast.list.length) : dailyRange })}
+                </h2>
+                <div className="flex rounded-full bg-white/10 p-1 gap-1">
+                  {DAILY_RANGES.filter(days => !forecast || days <= forecast.list.length || days === DAILY_RANGES[0]).map(days => (
+                    <button
+                      key={days}
+                      onClick={() => setDailyRange(days)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${dailyRange === days ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                    >
+                      {t('daily.range', { count: days })}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div data-focus-list className="flex overflow-x-auto pb-4 gap-4 no-scrollbar snap-x">
                 {forecast && getDailyForecast(forecast.list).map((item, idx) => (
                   <div 
                     key={item.dt} 
-                    className="bg-white/5 hover:bg-white/15 backdrop-blur-md border border-white/10 rounded-3xl p-6 flex flex-col items-center justify-between gap-4 transition-all duration-300 transform hover:-translate-y-2 hover:shadow-xl group text-white"
+                    data-focus={(!!focusDate && getLocalDate(item.dt, locationZone!) === focusDate) || undefined}
+                    className={`flex-none w-40 snap-start bg-white/5 hover:bg-white/15 backdrop-blur-md border rounded-3xl p-6 flex flex-col items-center justify-between gap-4 transition-all duration-300 transform hover:-translate-y-2 hover:shadow-xl group text-white ${focusDate && getLocalDate(item.dt, locationZone!) === focusDate ? 'border-yellow-300/60 ring-1 ring-yellow-300/40' : 'border-white/10'}`}
                     style={{ animationDelay: `${idx * 100}ms` }}
                   >
-                    <span className="text-sm font-semibold opacity-70 tracking-wider">
-                      {new Date(item.dt * 1000).toLocaleDateString('en-US', { weekday: 'short' }).toUpperCase()}
+                    <span className="text-sm font-semibold opacity-70 tracking-wider text-center">
+                      {formatInZone(item.dt, locationZone, { weekday: 'short' }).toUpperCase()}
+                      <span className="block text-[10px] font-normal opacity-70">
+                        {formatInZone(item.dt, locationZone, { month: 'short', day: 'numeric' })}
+                      </span>
                     </span>
                     <div className="bg-white/10 p-3 rounded-full group-hover:scale-110 transition-transform duration-300 shadow-inner">
                       <WeatherIcon code={item.weather[0].icon} className="w-10 h-10" />
                     </div>
                     <div className="flex flex-col items-center w-full">
-                       <span className="text-3xl font-bold">{Math.round(item.main.temp)}°</span>
-                       <span className="text-xs opacity-60 capitalize text-center w-full truncate px-1 mt-1">{item.weather[0].description}</span>
+                       <span className="text-2xl font-bold">
+                         {formatTemperature(item.main.temp_max, units.temperature)}
+                         <span className="text-base font-medium opacity-60"> / {formatTemperature(item.main.temp_min, units.temperature)}</span>
+                       </span>
+                       <span className="text-xs opacity-60 capitalize text-center w-full truncate px-1 mt-1">{describeCondition(item.weather[0])}</span>
                     </div>
-                    <div className="w-full flex justify-between text-[10px] opacity-50 px-2 mt-2">
-                       <span>Rain: {item.pop}%</span>
+                    <div className="w-full grid grid-cols-2 gap-x-2 gap-y-1 text-[10px] opacity-60 px-1">
+                       <span className="flex items-center gap-1"><Umbrella className="w-3 h-3" /> {item.pop}%</span>
+                       <span className="text-right">{formatPrecipitation(item.precipitation)}</span>
+                       <span className="flex items-center gap-1"><Droplets className="w-3 h-3" /> {item.main.humidity}%</span>
+                       <span className="text-right">
+                         {Math.round(convertWind(item.wind.speed, units.wind))}{item.wind.gust !== undefined && `–${Math.round(convertWind(item.wind.gust, units.wind))}`} {UNIT_LABELS.wind[units.wind]}
+                       </span>
+                       {item.uv_index !== undefined && <span className="col-span-2">UV {Math.round(item.uv_index)}</span>}
                     </div>
                   </div>
                 ))}
@@ -582,13 +1293,16 @@ const App: React.FC = () => {
         ) : (
           <div className="flex flex-col items-center justify-center mt-32 text-white/60 text-center animate-pulse">
              <CloudDrizzle className="w-24 h-24 opacity-20 mb-4" />
-             <p className="text-xl">Waiting for sky data...</p>
+             <p className="text-xl">{t('status.waiting')}</p>
           </div>
         )}
       </main>
+
+      <ChatPanel context={chatContext} chat={chat} />
+      <VoiceBar status={voice.status} conversation={voice.conversation} transcript={voice.transcript} onStop={voice.stop} />
       
       <footer className="relative z-10 mt-12 py-6 text-white/30 text-sm font-light text-center w-full">
-        SkyCast AI &copy; {new Date().getFullYear()} • Powered by Gemini, Open-Meteo & React
+        SkyCast AI &copy; {new Date().getFullYear()} • {t('footer.poweredBy')}
       </footer>
     </div>
   );
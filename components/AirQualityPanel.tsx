@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { X, Flower2 } from 'lucide-react';
+import { Activity } from './Icons';
+import { AirQualityReading, AirQualityReport, AQIScale, GeoLocation, Pollutant, PollenType } from '../types';
+import { getAirQualityReport, peekAirQuality } from '../services/airQualityService';
+import { AQI_BANDS, AQI_SCALE_NAMES, getAQIBand, getDominantPollutant, getPollenLevel, POLLEN_LABELS, POLLEN_LEVEL_LABELS, POLLUTANT_LABELS } from '../services/airQuality';
+import { t } from '../services/i18n';
+import { formatInZone } from '../services/timezone';
+
+interface AirQualityPanelProps {
+  location: GeoLocation;
+  onClose: () => void;
+  timeZone?: string;
+}
+
+// Where each scale's bars top out; values beyond simply fill the bar
+const SCALE_MAX: Record<AQIScale, number> = { us: 300, eu: 100 };
+
+const POLLUTANT_ORDER: Pollutant[] = ['pm2_5', 'pm10', 'o3', 'no2', 'so2', 'co'];
+
+const getIndex = (reading: AirQualityReading, scale: AQIScale) => scale === 'us' ? reading.us_aqi : reading.eu_aqi;
+
+const formatHour = (timestamp: number, timeZone?: string) =>
+  formatInZone(timestamp, timeZone, { weekday: 'short', hour: 'numeric' });
+
+export const AirQualityPanel: React.FC<AirQualityPanelProps> = ({ location, onClose, timeZone }) => {
+  const [report, setReport] = useState<AirQualityReport | null>(() => peekAirQuality(location)?.value || null);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState<AQIScale>('us');
+
+  useEffect(() => {
+    let cancelled = false;
+    getAirQualityReport(location)
+      .then((result) => { if (!cancelled) setReport(result); })
+      .catch(() => { if (!cancelled) setError(t('aqi.loadFailed')); });
+    return () => { cancelled = true; };
+  }, [location]);
+
+  const current = report?.current;
+  const index = current ? getIndex(current, scale) : null;
+  const subIndices = current?.subIndices[scale] || {};
+  const dominant = getDominantPollutant(subIndices);
+  const forecast = (report?.hourly || []).filter(reading => getIndex(reading, scale) !== null);
+  const peak = forecast.reduce<AirQualityReading | null>((worst, reading) =>
+    !worst || getIndex(reading, scale)! > getIndex(worst, scale)! ? reading : worst, null);
+  const pollen = Object.entries(current?.pollen || {}) as [PollenType, number][];
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-[2rem] shadow-2xl p-6 md:p-8 text-white flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 text-white/60">
+              <Activity className="w-5 h-5" />
+              <span className="text-sm font-bold uppercase">{t('metric.airQuality')}</span>
+            </div>
+            <h3 className="text-2xl font-bold mt-1">{location.name}</h3>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-full bg-white/10 p-1 gap-1">
+              {(Object.keys(AQI_SCALE_NAMES) as AQIScale[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setScale(option)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${scale === option ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                >
+                  {t(AQI_SCALE_NAMES[option])}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} title={t('panel.close')} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+              <X className="w-5 h-5 text-white/70" />
+            </button>
+          </div>
+        </div>
+
+        {error && !report && <p className="text-sm text-red-300">{error}</p>}
+        {!report && !error && <div className="h-48 rounded-2xl bg-white/5 animate-pulse" />}
+
+        {current && (
+          <>
+            {/* Current index on the full six-band scale */}
+            <div className="flex flex-col gap-3">
+              <div className="flex items-baseline gap-4">
+                <span className={`text-6xl font-bold ${index !== null ? getAQIBand(index, scale).textClass : ''}`}>
+                  {index ?? t('metric.notAvailable')}
+                </span>
+                <div className="flex flex-col">
+                  <span className="text-lg font-semibold">{index !== null ? t(getAQIBand(index, scale).label) : t('aqi.notAvailable')}</span>
+                  {dominant && <span className="text-sm text-white/60">{t('aqi.dominant', { name: t(POLLUTANT_LABELS[dominant]) })}</span>}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {AQI_BANDS[scale].map(band => (
+                  <div key={band.label} className="flex-1 flex flex-col gap-1">
+                    <div className={`h-1.5 rounded-full ${band.barClass} ${index !== null && getAQIBand(index, scale) === band ? '' : 'opacity-30'}`} />
+                    <span className="text-[9px] text-white/50 leading-tight">{t(band.label)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Per-pollutant sub-indices */}
+            <div className="flex flex-col gap-2">
+              <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider">{t('aqi.pollutants')}</h4>
+              {POLLUTANT_ORDER.filter(pollutant => current.concentrations[pollutant] !== undefined).map(pollutant => {
+                const subIndex = subIndices[pollutant];
+                return (
+                  <div key={pollutant} className="grid grid-cols-[4rem_1fr_2.5rem_5.5rem] items-center gap-3 text-xs">
+                    <span className={`font-semibold ${pollutant === dominant ? 'text-white' : 'text-white/70'}`}>{t(POLLUTANT_LABELS[pollutant])}</span>
+                    <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                      {subIndex !== undefined && (
+                        <div
+                          className={`h-full rounded-full ${getAQIBand(subIndex, scale).barClass}`}
+                          style={{ width: `${Math.min(subIndex / SCALE_MAX[scale], 1) * 100}%` }}
+                        />
+                      )}
+                    </div>
+                    <span className="text-right font-mono">{subIndex ?? '–'}</span>
+                    <span className="text-right text-white/50">{Math.round(current.concentrations[pollutant]!)} µg/m³</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Hourly forecast */}
+            {forecast.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-baseline justify-between">
+                  <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider">{t('aqi.forecast')}</h4>
+                  {peak && (
+                    <span className="text-xs text-white/60">
+                      {t('aqi.peak', { value: getIndex(peak, scale)!, band: t(getAQIBand(getIndex(peak, scale)!, scale).label), time: formatHour(peak.time, timeZone) })}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-end gap-px h-20">
+                  {forecast.map(reading => {
+                    const value = getIndex(reading, scale)!;
+                    return (
+                      <div
+                        key={reading.time}
+                        title={`${formatHour(reading.time, timeZone)}: ${value} (${t(getAQIBand(value, scale).label)})`}
+                        className={`flex-1 min-w-[2px] rounded-t-sm ${getAQIBand(value, scale).barClass}`}
+                        style={{ height: `${Math.max(Math.min(value / SCALE_MAX[scale], 1) * 100, 4)}%` }}
+                      />
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-[10px] text-white/40">
+                  <span>{t('time.now')}</span>
+                  <span>{formatHour(forecast[forecast.length - 1].time, timeZone)}</span>
+                </div>
+              </div>
+            )}
+
+            {/* Pollen */}
+            <div className="flex flex-col gap-2">
+              <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider flex items-center gap-2">
+                <Flower2 className="w-4 h-4" /> {t('aqi.pollen')}
+              </h4>
+              {pollen.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {pollen.map(([type, grains]) => (
+                    <div key={type} className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 flex flex-col">
+                      <span className="text-xs text-white/60">{t(POLLEN_LABELS[type])}</span>
+                      <span className="font-semibold">{t(POLLEN_LEVEL_LABELS[getPollenLevel(type, grains)])}</span>
+                      <span className="text-[10px] text-white/40">{t('aqi.grains', { value: Math.round(grains) })}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-white/50">{t('aqi.pollenEurope')}</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AlertThresholds, NotificationSettings, QuietHours, UnitSettings } from '../types';
+import { convertTemperature, convertWind, toMetricTemperature, toMetricWind, UNIT_LABELS } from '../services/units';
+import { t } from '../services/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface AlertSettingsProps {
+  thresholds: AlertThresholds;
+  units: UnitSettings;
+  onChange: (thresholds: Partial<AlertThresholds>) => void;
+  onReset: () => void;
+  notifications: NotificationSettings;
+  permission: NotificationPermission | 'unsupported';
+  onToggleNotifications: (enabled: boolean) => void;
+  onQuietHoursChange: (quietHours: QuietHours | null) => void;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DEFAULT_QUIET_HOURS: QuietHours = { start: 22, end: 7 };
+
+interface Field {
+  key: keyof AlertThresholds;
+  title: MessageKey;
+  unit: string;
+  toDisplay: (value: number) => number;
+  fromDisplay: (value: number) => number;
+}
+
+// Thresholds are stored in metric and shown in the user's units, like every other reading
+const getFields = (units: UnitSettings): Field[] => {
+  const identity = (value: number) => value;
+  const snowInInches = units.precipitation === 'in';
+  return [
+    {
+      key: 'heatIndex', title: 'threshold.heatIndex', unit: UNIT_LABELS.temperature[units.temperature],
+      toDisplay: value => Math.round(convertTemperature(value, units.temperature)),
+      fromDisplay: value => toMetricTemperature(value, units.temperature)
+    },
+    {
+      key: 'windChill', title: 'threshold.windChill', unit: UNIT_LABELS.temperature[units.temperature],
+      toDisplay: value => Math.round(convertTemperature(value, units.temperature)),
+      fromDisplay: value => toMetricTemperature(value, units.temperature)
+    },
+    {
+      key: 'gust', title: 'threshold.gust', unit: UNIT_LABELS.wind[units.wind],
+      toDisplay: value => Math.round(convertWind(value, units.wind)),
+      fromDisplay: value => toMetricWind(value, units.wind)
+    },
+    {
+      key: 'snowfall', title: 'threshold.snowfall', unit: snowInInches ? 'in' : 'cm',
+      toDisplay: value => snowInInches ? Number((value / 2.54).toFixed(1)) : value,
+      fromDisplay: value => snowInInches ? value * 2.54 : value
+    },
+    { key: 'uvIndex', title: 'threshold.uvIndex', unit: '', toDisplay: identity, fromDisplay: identity },
+    { key: 'aqi', title: 'threshold.aqi', unit: '', toDisplay: identity, fromDisplay: identity }
+  ];
+};
+
+export const AlertSettings: React.FC<AlertSettingsProps> = ({
+  thresholds, units, onChange, onReset, notifications, permission, onToggleNotifications, onQuietHoursChange, onClose
+}) => {
+  const quietHours = notifications.quietHours;
+  const renderHourSelect = (value: number, onSelect: (hour: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(Number(e.target.value))}
+      className="bg-white/10 border border-white/10 rounded-lg px-1 py-1 text-white focus:outline-none"
+    >
+      {HOURS.map(hour => <option key={hour} value={hour} className="bg-slate-900">{`${hour}:00`}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl p-4 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-white/60 uppercase tracking-wider">{t('threshold.title')}</span>
+        <button onClick={onClose} title={t('panel.close')} className="p-1 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+      </div>
+      <div className="flex flex-col gap-2">
+        {getFields(units).map(({ key, title, unit, toDisplay, fromDisplay }) => (
+          <label key={key} className="flex items-center justify-between gap-3 text-xs text-white/70">
+            <span>{t(title)}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                value={toDisplay(thresholds[key])}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (Number.isFinite(value)) onChange({ [key]: fromDisplay(value) });
+                }}
+                className="w-16 bg-white/10 border border-white/10 rounded-lg px-2 py-1 text-right text-white focus:outline-none focus:ring-1 focus:ring-white/30"
+              />
+              <span className="w-8 text-white/50">{unit}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={onReset}
+        className="mt-3 w-full px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/70 transition-colors"
+      >
+        {t('threshold.reset')}
+      </button>
+
+      <div className="mt-4 pt-3 border-t border-white/10 flex flex-col gap-2 text-xs text-white/70">
+        <label className="flex items-center justify-between gap-3">
+          <span>{t('notify.browser')}</span>
+          <input
+            type="checkbox"
+            checked={notifications.enabled && permission === 'granted'}
+            disabled={permission === 'unsupported' || permission === 'denied'}
+            onChange={(e) => onToggleNotifications(e.target.checked)}
+          />
+        </label>
+        {(permission === 'unsupported' || permission === 'denied') && (
+          <span className="text-white/40">
+            {permission === 'denied' ? t('notify.blocked') : t('notify.unsupported')}
+          </span>
+        )}
+        <span className="text-white/40">{t('notify.schedule')}</span>
+        <label className="flex items-center justify-between gap-3">
+          <span>{t('notify.quietHours')}</span>
+          <input
+            type="checkbox"
+            checked={quietHours !== null}
+            onChange={(e) => onQuietHoursChange(e.target.checked ? DEFAULT_QUIET_HOURS : null)}
+          />
+        </label>
+        {quietHours && (
+          <div className="flex items-center justify-end gap-2">
+            {renderHourSelect(quietHours.start, start => onQuietHoursChange({ ...quietHours, start }))}
+            <span>{t('notify.until')}</span>
+            {renderHourSelect(quietHours.end, end => onQuietHoursChange({ ...quietHours, end }))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
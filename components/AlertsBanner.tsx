@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { AlertSeverity, WeatherAlert } from '../types';
+import { formatInZone } from '../services/timezone';
+import { t, translate } from '../services/i18n';
+
+interface AlertsBannerProps {
+  alerts: WeatherAlert[];
+  onDismiss: (alert: WeatherAlert) => void;
+  timeZone?: string;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  minor: 'bg-yellow-500/20 border-yellow-400/40 text-yellow-100',
+  moderate: 'bg-orange-500/25 border-orange-400/40 text-orange-100',
+  severe: 'bg-red-500/30 border-red-400/50 text-red-100'
+};
+
+const formatWindowTime = (timestamp: number, timeZone?: string) =>
+  formatInZone(timestamp, timeZone, { weekday: 'short', hour: 'numeric' });
+
+const formatWindow = ({ start, end }: WeatherAlert, timeZone?: string) => {
+  const from = start <= Date.now() / 1000 ? t('time.now') : formatWindowTime(start, timeZone);
+  return `${from} – ${formatWindowTime(end, timeZone)}`;
+};
+
+export const AlertsBanner: React.FC<AlertsBannerProps> = ({ alerts, onDismiss, timeZone }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {alerts.map(alert => (
+        <div
+          key={alert.id}
+          role="alert"
+          className={`w-full backdrop-blur-md border rounded-2xl p-4 flex items-start gap-3 shadow-lg ${SEVERITY_STYLES[alert.severity]}`}
+        >
+          <AlertTriangle className="w-5 h-5 flex-none mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-baseline gap-x-3">
+              <span className="font-bold">{translate(alert.title)}</span>
+              <span className="text-xs opacity-70">{formatWindow(alert, timeZone)}</span>
+            </div>
+            <p className="text-sm opacity-90 mt-1">{translate(alert.description)}</p>
+          </div>
+          <button
+            onClick={() => onDismiss(alert)}
+            title={t('alert.dismiss')}
+            className="p-1 rounded-full hover:bg-white/10 transition-colors flex-none"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React from 'react';
+import { X, Moon, Camera, Sun } from 'lucide-react';
+import { Sunrise, Sunset } from './Icons';
+import { AstronomyData, TimeWindow } from '../types';
+import { formatDayLengthChange, formatDuration } from '../services/astronomy';
+import { t } from '../services/i18n';
+
+interface AstronomyPanelProps {
+  astronomy: AstronomyData;
+  locationName: string;
+  formatTime: (timestamp: number) => string;
+  onClose: () => void;
+}
+
+// Lit part of the disc: an outer half-circle on the bright side closed by an elliptical terminator
+export const MoonPhaseIcon: React.FC<{ phase: number; illumination: number; className?: string }> = ({ phase, illumination, className = 'w-10 h-10' }) => {
+  const waxing = phase < 0.5;
+  const terminator = Math.abs(2 * illumination - 1) * 10;
+  const gibbous = illumination > 0.5;
+  const path = `M 0 -10 A 10 10 0 0 ${waxing ? 1 : 0} 0 10 A ${terminator} 10 0 0 ${waxing === gibbous ? 1 : 0} 0 -10 Z`;
+  return (
+    <svg viewBox="-11 -11 22 22" className={className}>
+      <circle r="10" className="fill-slate-700 stroke-white/20" strokeWidth="0.5" />
+      <path d={path} className="fill-slate-100" />
+    </svg>
+  );
+};
+
+export const AstronomyPanel: React.FC<AstronomyPanelProps> = ({ astronomy, locationName, formatTime, onClose }) => {
+  const { sun, moon, dayLengthChange } = astronomy;
+  const time = (timestamp: number | null) => timestamp === null ? '—' : formatTime(timestamp);
+  const range = (span: TimeWindow | null) => span ? `${formatTime(span.start)} – ${formatTime(span.end)}` : '—';
+
+  const twilights = [
+    { label: 'sun.civil' as const, dawn: sun.civilDawn, dusk: sun.civilDusk },
+    { label: 'sun.nautical' as const, dawn: sun.nauticalDawn, dusk: sun.nauticalDusk },
+    { label: 'sun.astronomical' as const, dawn: sun.astronomicalDawn, dusk: sun.astronomicalDusk }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-[2rem] shadow-2xl p-6 md:p-8 text-white flex flex-col gap-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 text-white/60">
+              <Sun className="w-5 h-5" />
+              <span className="text-sm font-bold uppercase">{t('astro.title')}</span>
+            </div>
+            <h3 className="text-2xl font-bold mt-1">{locationName}</h3>
+          </div>
+          <button onClick={onClose} title={t('panel.close')} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+        </div>
+
+        {/* Sun */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="flex flex-col gap-1 p-4 rounded-2xl bg-white/5">
+            <span className="flex items-center gap-1 text-xs text-white/50 uppercase"><Sunrise className="w-3 h-3" /> {t('sun.sunrise')}</span>
+            <span className="text-xl font-bold">{time(sun.sunrise)}</span>
+          </div>
+          <div className="flex flex-col gap-1 p-4 rounded-2xl bg-white/5">
+            <span className="flex items-center gap-1 text-xs text-white/50 uppercase"><Sunset className="w-3 h-3" /> {t('sun.sunset')}</span>
+            <span className="text-xl font-bold">{time(sun.sunset)}</span>
+          </div>
+          <div className="flex flex-col gap-1 p-4 rounded-2xl bg-white/5">
+            <span className="text-xs text-white/50 uppercase">{t('sun.solarNoon')}</span>
+            <span className="text-xl font-bold">{formatTime(sun.solarNoon)}</span>
+          </div>
+          <div className="flex flex-col gap-1 p-4 rounded-2xl bg-white/5">
+            <span className="text-xs text-white/50 uppercase">{t('sun.dayLength')}</span>
+            <span className="text-xl font-bold">{formatDuration(sun.dayLength)}</span>
+            <span className={`text-xs ${dayLengthChange >= 0 ? 'text-amber-300' : 'text-blue-300'}`}>{t('sun.vsYesterday', { value: formatDayLengthChange(dayLengthChange) })}</span>
+          </div>
+        </div>
+
+        {sun.polar && (
+          <p className="text-sm text-white/60">
+            {sun.polar === 'day' ? t('sun.midnightSun') : t('sun.polarNight')}
+          </p>
+        )}
+
+        {/* Photography windows */}
+        <div className="flex flex-col gap-3">
+          <h4 className="flex items-center gap-2 text-sm font-bold text-white/70 uppercase tracking-wider"><Camera className="w-4 h-4" /> {t('sun.photography')}</h4>
+          <div className="grid grid-cols-3 gap-y-2 text-sm">
+            <span />
+            <span className="text-xs text-white/50 uppercase">{t('sun.morning')}</span>
+            <span className="text-xs text-white/50 uppercase">{t('sun.evening')}</span>
+            <span className="text-amber-300">{t('sun.goldenHour')}</span>
+            <span>{range(sun.goldenHour.morning)}</span>
+            <span>{range(sun.goldenHour.evening)}</span>
+            <span className="text-blue-300">{t('sun.blueHour')}</span>
+            <span>{range(sun.blueHour.morning)}</span>
+            <span>{range(sun.blueHour.evening)}</span>
+          </div>
+        </div>
+
+        {/* Twilight */}
+        <div className="flex flex-col gap-3">
+          <h4 className="text-sm font-bold text-white/70 uppercase tracking-wider">{t('sun.twilight')}</h4>
+          <div className="grid grid-cols-3 gap-y-2 text-sm">
+            <span />
+            <span className="text-xs text-white/50 uppercase">{t('sun.dawn')}</span>
+            <span className="text-xs text-white/50 uppercase">{t('sun.dusk')}</span>
+            {twilights.map(row => (
+              <React.Fragment key={row.label}>
+                <span className="text-white/60">{t(row.label)}</span>
+                <span>{time(row.dawn)}</span>
+                <span>{time(row.dusk)}</span>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+
+        {/* Moon */}
+        <div className="flex flex-col gap-3">
+          <h4 className="flex items-center gap-2 text-sm font-bold text-white/70 uppercase tracking-wider"><Moon className="w-4 h-4" /> {t('moon.title')}</h4>
+          <div className="flex items-center gap-6">
+            <MoonPhaseIcon phase={moon.phase} illumination={moon.illumination} className="w-16 h-16 flex-none" />
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 flex-1 text-sm">
+              <div className="flex flex-col">
+                <span className="text-xs text-white/50 uppercase">{t('moon.phase')}</span>
+                <span className="font-bold">{t(moon.phaseName)}</span>
+                <span className="text-white/60">{t('moon.illuminated', { value: Math.round(moon.illumination * 100) })}</span>
+              </div>
+              {moon.alwaysUp || moon.alwaysDown ? (
+                <div className="flex flex-col">
+                  <span className="text-xs text-white/50 uppercase">{t('moon.visibility')}</span>
+                  <span className="font-bold">{moon.alwaysUp ? t('moon.alwaysUp') : t('moon.alwaysDown')}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-col">
+                    <span className="text-xs text-white/50 uppercase">{t('moon.rise')}</span>
+                    <span className="font-bold">{time(moon.rise)}</span>
+                  </div>
+                  <div className="flex flex-col">
+                    <span className="text-xs text-white/50 uppercase">{t('moon.set')}</span>
+                    <span className="font-bold">{time(moon.set)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-white/40">{t('astro.note')}</p>
+      </div>
+    </div>
+  );
+};
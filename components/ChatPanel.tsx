@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageCircle, X, Send, RotateCcw, Loader2, Wrench } from 'lucide-react';
+import { ChatContext } from '../types';
+import type { WeatherChat } from '../hooks/useWeatherChat';
+import { TOOL_LABELS } from '../services/assistantTools';
+import { t } from '../services/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface ChatPanelProps {
+  context: ChatContext | null;
+  chat: WeatherChat; // Owned by App so voice follow-ups land in the same conversation
+}
+
+const SUGGESTIONS: MessageKey[] = ['chat.suggestion1', 'chat.suggestion2', 'chat.suggestion3', 'chat.suggestion4'];
+
+// Floating follow-up chat; answers come from Gemini calling the same services the dashboard uses
+export const ChatPanel: React.FC<ChatPanelProps> = ({ context, chat }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>('');
+  const { messages, sending, activity, send, reset } = chat;
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, activity, open]);
+
+  const submit = (text: string) => {
+    send(text);
+    setDraft('');
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        title={t('chat.open')}
+        className="fixed bottom-6 right-6 z-30 p-4 rounded-full bg-blue-500/80 hover:bg-blue-500 backdrop-blur-md border border-white/20 shadow-2xl text-white transition-colors"
+      >
+        <MessageCircle className="w-6 h-6" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-6 right-6 z-30 w-[calc(100vw-3rem)] max-w-md h-[32rem] max-h-[80vh] bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-[2rem] shadow-2xl text-white flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <MessageCircle className="w-5 h-5 text-blue-300" />
+          <span className="font-bold">{t('chat.title')}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={reset} disabled={sending || messages.length === 0} title={t('chat.reset')} className="p-2 rounded-full hover:bg-white/10 disabled:opacity-30 transition-colors">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={() => setOpen(false)} title={t('chat.close')} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 flex flex-col gap-3">
+        {messages.length === 0 && (
+          <div className="flex flex-col gap-3 text-sm text-white/60">
+            <p>{t('chat.intro', { name: context ? context.location.name : t('chat.introFallback') })}</p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(key => t(key)).map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => submit(suggestion)}
+                  disabled={!context}
+                  className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-xs text-white/80 transition-colors disabled:opacity-40"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex flex-col gap-1 ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap ${
+              message.role === 'user'
+                ? 'bg-blue-500/60 rounded-br-sm'
+                : message.error ? 'bg-red-500/20 text-red-100 rounded-bl-sm' : 'bg-white/10 rounded-bl-sm'
+            }`}>
+              {message.text}
+            </div>
+            {message.tools && message.tools.length > 0 && (
+              <span className="flex items-center gap-1 text-[10px] text-white/40">
+                <Wrench className="w-3 h-3" />
+                {message.tools.filter((name, i, all) => all.indexOf(name) === i).map(name => t(TOOL_LABELS[name] || 'chat.toolOther')).join(' · ')}
+              </span>
+            )}
+          </div>
+        ))}
+
+        {sending && (
+          <div className="flex items-center gap-2 text-xs text-white/50">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {activity ? `${t(TOOL_LABELS[activity] || 'chat.toolOther')}...` : t('chat.thinking')}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); submit(draft); }}
+        className="flex items-center gap-2 px-4 py-3 border-t border-white/10"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={context ? t('chat.placeholder') : t('chat.noLocation')}
+          disabled={!context}
+          className="flex-1 bg-white/10 rounded-full px-4 py-2 text-sm placeholder-white/40 outline-none focus:bg-white/15 disabled:opacity-50"
+        />
+        <button type="submit" disabled={!context || sending || !draft.trim()} title={t('chat.send')} className="p-2 rounded-full bg-blue-500/70 hover:bg-blue-500 disabled:opacity-30 transition-colors">
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
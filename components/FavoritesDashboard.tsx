@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Trash2, Star } from 'lucide-react';
+import { WeatherIcon, RefreshCw, Activity } from './Icons';
+import { GeoLocation, UnitSettings, WeatherBundle } from '../types';
+import { formatTemperature } from '../services/units';
+import { getWeatherBundles, getLocationKey, peekWeatherBundle } from '../services/weatherService';
+import { isFresh, CacheDataType } from '../services/cacheService';
+import { getAQIColor, getAQIDescription } from '../services/airQuality';
+import { describeCondition, t } from '../services/i18n';
+
+interface FavoritesDashboardProps {
+  favorites: GeoLocation[];
+  units: UnitSettings;
+  onSelect: (location: GeoLocation) => void;
+  onRemove: (location: GeoLocation) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+// The compact cards never show the hourly strip, so its TTL does not force a refetch here
+const DASHBOARD_DATA: CacheDataType[] = ['current', 'daily', 'aqi'];
+
+// Compact side-by-side view of every saved location, refreshed together in one batch
+export const FavoritesDashboard: React.FC<FavoritesDashboardProps> = ({ favorites, units, onSelect, onRemove, onMove }) => {
+  const [bundles, setBundles] = useState<Record<string, WeatherBundle>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const favoritesKey = favorites.map(getLocationKey).join('|');
+
+  // Cached cards render immediately; only stale ones (or all, when forced) go into the batch
+  const refreshAll = useCallback(async (force: boolean = false) => {
+    if (favorites.length === 0) return;
+    const cached = favorites.map(location => peekWeatherBundle(location));
+    setBundles(Object.fromEntries(
+      cached.filter(entry => entry !== null).map(entry => [getLocationKey(entry!.value.location), entry!.value])
+    ));
+
+    const stale = favorites.filter((_, i) => force || !cached[i] || !isFresh(cached[i]!.fetchedAt, DASHBOARD_DATA));
+    if (stale.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const results = await getWeatherBundles(stale);
+      setBundles(prev => ({
+        ...prev,
+        ...Object.fromEntries(results.map(bundle => [getLocationKey(bundle.location), bundle]))
+      }));
+    } catch (err: any) {
+      setError(cached.some(Boolean)
+        ? t('saved.offline')
+        : err.message || t('saved.failed'));
+    } finally {
+      setLoading(false);
+    }
+    // favoritesKey captures list identity; reordering alone does not need a refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [favoritesKey]);
+
+  useEffect(() => {
+    refreshAll();
+  }, [refreshAll]);
+
+  if (favorites.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center mt-24 text-white/60 text-center">
+        <Star className="w-16 h-16 opacity-20 mb-4" />
+        <p className="text-xl">{t('saved.empty')}</p>
+        <p className="text-sm mt-2 text-white/40">{t('saved.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between px-2">
+        <h2 className="text-xl font-bold text-white opacity-90">{t('saved.title')}</h2>
+        <button
+          onClick={() => refreshAll(true)}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white/80 text-xs font-medium transition-all border border-white/10 disabled:opacity-60"
+        >
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+          {loading ? t('saved.refreshing') : t('saved.refreshAll')}
+        </button>
+      </div>
+
+      {error && <p className="px-2 text-sm text-red-300">{error}</p>}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {favorites.map((location, index) => {
+          const bundle = bundles[getLocationKey(location)];
+          const current = bundle?.current;
+
+          return (
+            <div
+              key={getLocationKey(location)}
+              className="bg-white/5 hover:bg-white/10 backdrop-blur-md border border-white/10 rounded-3xl p-5 text-white flex flex-col gap-4 transition-colors group"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <button onClick={() => onSelect(location)} className="text-left min-w-0 flex-1">
+                  <span className="block font-bold truncate">{location.name}</span>
+                  <span className="block text-xs text-white/50 truncate">{[location.admin1, location.country].filter(Boolean).join(', ')}</span>
+                </button>
+                <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => onMove(index, index - 1)} disabled={index === 0} title={t('saved.moveLeft')} className="p-1 rounded-full hover:bg-white/10 disabled:opacity-30">
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onMove(index, index + 1)} disabled={index === favorites.length - 1} title={t('saved.moveRight')} className="p-1 rounded-full hover:bg-white/10 disabled:opacity-30">
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onRemove(location)} title={t('saved.remove')} className="p-1 rounded-full hover:bg-red-500/30">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {current ? (
+                <button onClick={() => onSelect(location)} className="flex flex-col gap-3 text-left">
+                  <div className="flex items-center justify-between">
+                    <span className="text-4xl font-bold tracking-tighter">{formatTemperature(current.main.temp, units.temperature)}</span>
+                    <WeatherIcon code={current.weather[0].icon} className="w-10 h-10" />
+                  </div>
+                  <span className="text-sm text-white/70 capitalize truncate">{describeCondition(current.weather[0])}</span>
+                  <div className="flex items-center justify-between text-xs text-white/60">
+                    <span>{t('temp.high', { value: formatTemperature(current.main.temp_max, units.temperature) })} {t('temp.low', { value: formatTemperature(current.main.temp_min, units.temperature) })}</span>
+                    {current.aqi && (
+                      <span className={`flex items-center gap-1 ${getAQIColor(current.aqi.us_aqi)}`}>
+                        <Activity className="w-3 h-3" />
+                        {current.aqi.us_aqi} {t(getAQIDescription(current.aqi.us_aqi))}
+                      </span>
+                    )}
+                  </div>
+                </button>
+              ) : (
+                <div className="h-24 rounded-2xl bg-white/5 animate-pulse" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useState, useEffect } from 'react';
+import { WifiOff } from 'lucide-react';
+import { RefreshCw } from './Icons';
+import { t } from '../services/i18n';
+
+interface FreshnessBadgeProps {
+  fetchedAt: number;
+  revalidating: boolean;
+  offline: boolean;
+}
+
+export const formatAge = (fetchedAt: number, now: number = Date.now()) => {
+  const minutes = Math.floor((now - fetchedAt) / 60000);
+  if (minutes < 1) return t('age.justNow');
+  if (minutes < 60) return t('age.minutes', { count: minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return t('age.hours', { count: hours });
+  return t('age.days', { count: Math.floor(hours / 24) });
+};
+
+// "Updated N min ago" label that keeps ticking while cached data is on screen
+export const FreshnessBadge: React.FC<FreshnessBadgeProps> = ({ fetchedAt, revalidating, offline }) => {
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs backdrop-blur-sm w-fit ${offline ? 'bg-amber-500/20 text-amber-200' : 'bg-black/20 text-white/60'}`}>
+      {offline ? <WifiOff className="w-3 h-3" /> : <RefreshCw className={`w-3 h-3 ${revalidating ? 'animate-spin' : ''}`} />}
+      <span>
+        {offline ? `${t('status.offline')} • ` : ''}{t('status.updated', { age: formatAge(fetchedAt, now) })}
+        {revalidating && !offline ? ` • ${t('status.refreshing')}` : ''}
+      </span>
+    </div>
+  );
+};
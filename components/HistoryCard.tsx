@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { UnitSettings, WeatherComparison } from '../types';
+import { convertPrecipitation, formatTemperature, UNIT_LABELS } from '../services/units';
+import { describeAnomaly } from '../services/historyService';
+import { formatNumber, getIntlLocale, t, translate } from '../services/i18n';
+
+interface HistoryCardProps {
+  comparison: WeatherComparison | null;
+  units: UnitSettings;
+}
+
+type HistoryView = 'normal' | 'lastYear';
+
+// Puts today's forecast in context: against the 30-year normal, or the same date a year ago
+export const HistoryCard: React.FC<HistoryCardProps> = ({ comparison, units }) => {
+  const [view, setView] = useState<HistoryView>('normal');
+  if (!comparison || (!comparison.normal && !comparison.lastYear)) return null;
+
+  const reference = view === 'normal' ? comparison.normal : comparison.lastYear;
+  const referenceLabel = view === 'normal' ? t('history.normal') : t('history.lastYear');
+  const anomaly = describeAnomaly(comparison, units.temperature);
+  const precipitation = (millimetres: number) =>
+    `${formatNumber(convertPrecipitation(millimetres, units.precipitation), units.precipitation === 'in' ? 2 : 1)} ${UNIT_LABELS.precipitation[units.precipitation]}`;
+
+  const rows = reference ? [
+    { label: t('history.high'), today: formatTemperature(comparison.today.temp_max, units.temperature), reference: formatTemperature(reference.temp_max, units.temperature) },
+    { label: t('history.low'), today: formatTemperature(comparison.today.temp_min, units.temperature), reference: formatTemperature(reference.temp_min, units.temperature) },
+    { label: t('history.precipitation'), today: precipitation(comparison.today.precipitation), reference: precipitation(reference.precipitation) }
+  ] : [];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-[2rem] p-6 text-white flex flex-col gap-4">
+      <div className="flex items-center justify-between px-2">
+        <div className="flex items-center gap-2 text-white/70">
+          <History className="w-5 h-5" />
+          <h4 className="text-sm font-bold uppercase tracking-wider">{t('history.title')}</h4>
+        </div>
+        <div className="flex rounded-full bg-white/10 p-1 gap-1">
+          {([['normal', t('history.normal')], ['lastYear', t('history.lastYear')]] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setView(mode)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${view === mode ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'normal' && anomaly && (
+        <p className="px-2 text-base font-light text-white/90">
+          {translate(anomaly)}
+          {comparison.normal && <span className="text-xs text-white/40"> ({comparison.normal.period})</span>}
+        </p>
+      )}
+
+      {reference ? (
+        <div className="grid grid-cols-3 gap-y-2 px-2 text-sm">
+          <span />
+          <span className="text-xs text-white/50 uppercase">{t('history.today')}</span>
+          <span className="text-xs text-white/50 uppercase">
+            {view === 'lastYear' && comparison.lastYear
+              ? new Date(`${comparison.lastYear.date}T12:00:00Z`).toLocaleDateString(getIntlLocale(), { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+              : referenceLabel}
+          </span>
+          {rows.map(row => (
+            <React.Fragment key={row.label}>
+              <span className="text-white/60">{row.label}</span>
+              <span className="font-bold">{row.today}</span>
+              <span className="text-white/80">{row.reference}</span>
+            </React.Fragment>
+          ))}
+        </div>
+      ) : (
+        <p className="px-2 text-sm text-white/50">
+          {view === 'normal' ? t('history.noNormals') : t('history.noArchive')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { HourlyItem, ForecastItem, UnitSettings } from '../types';
+import { convertTemperature, convertPrecipitation, convertWind, formatTemperature, UNIT_LABELS } from '../services/units';
+import { formatInZone, getZonedParts } from '../services/timezone';
+import { describeCondition, formatNumber, t } from '../services/i18n';
+
+interface HourlyChartProps {
+  hourly: HourlyItem[];
+  daily: ForecastItem[];
+  sunrise: number; // Today's sun times (unix seconds), projected onto days the provider omits
+  sunset: number;
+  units: UnitSettings;
+  timeZone?: string; // Zone for axis labels; undefined means the device's
+  highlight?: { start: number; end: number } | null; // A searched-for window, shaded and scrolled into view
+  emphasis?: HourlyPanel; // The panel a search cared about; the others are dimmed
+}
+
+export type HourlyPanel = 'temperature' | 'precipitation' | 'wind';
+
+interface Domain {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+const AXIS_WIDTH = 44;
+const TOP = 12;
+const GAP = 22;
+const TEMP_HEIGHT = 130;
+const PRECIP_HEIGHT = 64;
+const WIND_HEIGHT = 84;
+const X_AXIS_HEIGHT = 22;
+
+const TEMP_TOP = TOP;
+const PRECIP_TOP = TEMP_TOP + TEMP_HEIGHT + GAP;
+const WIND_TOP = PRECIP_TOP + PRECIP_HEIGHT + GAP;
+const CHART_BOTTOM = WIND_TOP + WIND_HEIGHT;
+const HEIGHT = CHART_BOTTOM + X_AXIS_HEIGHT;
+
+const COLORS = {
+  temp: '#fbbf24',
+  feelsLike: '#fb923c',
+  pop: 'rgba(147, 197, 253, 0.25)',
+  precipitation: '#60a5fa',
+  wind: '#5eead4',
+  gust: '#99f6e4'
+};
+
+// Rounded axis bounds and 3-5 evenly spaced ticks covering [min, max]
+const getDomain = (min: number, max: number, targetTicks: number = 4): Domain => {
+  if (max - min < 1e-6) max = min + 1;
+  const rough = (max - min) / (targetTicks - 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rough) || 10 * magnitude;
+  const lo = Math.floor(min / step) * step;
+  const hi = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let value = lo; value <= hi + step / 1000; value += step) {
+    ticks.push(Number(value.toFixed(6)));
+  }
+  return { min: lo, max: hi, ticks };
+};
+
+const scaleY = (value: number, domain: Domain, top: number, height: number) =>
+  top + height - ((value - domain.min) / (domain.max - domain.min)) * height;
+
+const toPath = (points: [number, number][]) =>
+  points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+
+const formatTick = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(value < 1 ? 2 : 1);
+
+const formatHour = (timestamp: number, timeZone?: string) => {
+  const { hour, minute } = getZonedParts(timestamp, timeZone);
+  return hour === 0 && minute === 0
+    ? formatInZone(timestamp, timeZone, { weekday: 'short' })
+    : `${hour}:${String(minute).padStart(2, '0')}`;
+};
+
+// Night intervals between consecutive sunsets and sunrises, clipped to the chart range
+const getNights = (start: number, end: number, daily: ForecastItem[], sunrise: number, sunset: number) => {
+  const dayCount = Math.ceil((end - start) / DAY) + 1;
+  const days = Array.from({ length: dayCount }, (_, k) => ({
+    sunrise: daily[k]?.sunrise ?? sunrise + k * DAY,
+    sunset: daily[k]?.sunset ?? sunset + k * DAY
+  }));
+  const nights: [number, number][] = [[start, days[0].sunrise]];
+  days.forEach((day, k) => nights.push([day.sunset, days[k + 1]?.sunrise ?? end]));
+  return nights
+    .map(([from, to]): [number, number] => [Math.max(from, start), Math.min(to, end)])
+    .filter(([from, to]) => to > from);
+};
+
+// Hand-rolled SVG keeps the bundle free of a charting library; three panels share one time axis
+export const HourlyChart: React.FC<HourlyChartProps> = ({ hourly, daily, sunrise, sunset, units, timeZone, highlight, emphasis }) => {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const chart = useMemo(() => {
+    if (hourly.length < 2) return null;
+    const start = hourly[0].dt;
+    const end = hourly[hourly.length - 1].dt;
+    const span = end - start;
+    // Hours get wider when the range is short; a week still scrolls in a few screens
+    const pxPerHour = span <= 48 * HOUR ? 36 : 12;
+    const width = Math.max(Math.round((span / HOUR) * pxPerHour), 320);
+    const x = (timestamp: number) => ((timestamp - start) / span) * width;
+
+    const temps = hourly.flatMap(item => [item.temp, item.feels_like]).map(value => convertTemperature(value, units.temperature));
+    const tempDomain = getDomain(Math.min(...temps), Math.max(...temps));
+
+    const amounts = hourly.map(item => convertPrecipitation(item.precipitation, units.precipitation));
+    // Keep a minimum scale so a drizzle does not fill the whole panel
+    const precipDomain = getDomain(0, Math.max(...amounts, convertPrecipitation(2, units.precipitation)), 3);
+
+    const winds = hourly.map(item => convertWind(item.wind.gust ?? item.wind.speed, units.wind));
+    const windDomain = getDomain(0, Math.max(...winds, 1), 3);
+
+    // Labels are picked by wall-clock hour in the display zone, so they stay put across DST changes
+    const labelEvery = span <= 48 * HOUR ? 3 : 12;
+    const labels: number[] = [];
+    for (let t = start; t <= end; t += HOUR) {
+      if (getZonedParts(t, timeZone).hour % labelEvery === 0) labels.push(t);
+    }
+
+    const barWidth = Math.max(Math.min((width / hourly.length) * 0.7, 18), 2);
+    const arrowEvery = Math.max(1, Math.round(28 / (width / hourly.length)));
+    const now = Date.now() / 1000;
+
+    return {
+      width,
+      x,
+      tempDomain,
+      precipDomain,
+      windDomain,
+      labels,
+      barWidth,
+      arrowEvery,
+      nowX: now >= start && now <= end ? x(now) : null,
+      nights: getNights(start, end, daily, sunrise, sunset),
+      tempPath: toPath(hourly.map(item => [x(item.dt), scaleY(convertTemperature(item.temp, units.temperature), tempDomain, TEMP_TOP, TEMP_HEIGHT)])),
+      feelsLikePath: toPath(hourly.map(item => [x(item.dt), scaleY(convertTemperature(item.feels_like, units.temperature), tempDomain, TEMP_TOP, TEMP_HEIGHT)])),
+      windPath: toPath(hourly.map(item => [x(item.dt), scaleY(convertWind(item.wind.speed, units.wind), windDomain, WIND_TOP, WIND_HEIGHT)])),
+      gustPath: hourly.every(item => item.wind.gust !== undefined)
+        ? toPath(hourly.map(item => [x(item.dt), scaleY(convertWind(item.wind.gust!, units.wind), windDomain, WIND_TOP, WIND_HEIGHT)]))
+        : null
+    };
+  }, [hourly, daily, sunrise, sunset, units, timeZone]);
+
+  const highlightStart = highlight?.start;
+  useEffect(() => {
+    if (!chart || highlightStart === undefined || !scrollRef.current) return;
+    scrollRef.current.scrollTo({ left: Math.max(0, chart.x(highlightStart) - 48), behavior: 'smooth' });
+  }, [chart, highlightStart]);
+
+  if (!chart) return null;
+
+  const band = highlight
+    ? { from: Math.max(chart.x(highlight.start), 0), to: Math.min(chart.x(highlight.end), chart.width) }
+    : null;
+  const panelOpacity = (panel: HourlyPanel) => emphasis && emphasis !== panel ? 0.35 : 1;
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const offset = event.clientX - event.currentTarget.getBoundingClientRect().left;
+    let nearest = 0;
+    hourly.forEach((item, i) => {
+      if (Math.abs(chart.x(item.dt) - offset) < Math.abs(chart.x(hourly[nearest].dt) - offset)) nearest = i;
+    });
+    setHoverIndex(nearest);
+  };
+
+  const hovered = hoverIndex !== null ? hourly[hoverIndex] : null;
+  const hoverX = hovered ? chart.x(hovered.dt) : 0;
+  const windLabel = UNIT_LABELS.wind[units.wind];
+  const precipLabel = UNIT_LABELS.precipitation[units.precipitation];
+
+  const renderGrid = (domain: Domain, top: number, height: number) => domain.ticks.map(tick => (
+    <line key={tick} x1={0} x2={chart.width} y1={scaleY(tick, domain, top, height)} y2={scaleY(tick, domain, top, height)} stroke="rgba(255,255,255,0.08)" />
+  ));
+
+  const renderAxis = (domain: Domain, top: number, height: number, label: string) => (
+    <g>
+      <text x={AXIS_WIDTH - 6} y={top - 3} textAnchor="end" fontSize={9} fill="rgba(255,255,255,0.4)">{label}</text>
+      {domain.ticks.map(tick => (
+        <text key={tick} x={AXIS_WIDTH - 6} y={scaleY(tick, domain, top, height) + 3} textAnchor="end" fontSize={10} fill="rgba(255,255,255,0.5)">
+          {formatTick(tick)}
+        </text>
+      ))}
+    </g>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 px-2 text-[10px] text-white/60">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5" style={{ background: COLORS.temp }} /> Temperature</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 border-t border-dashed" style={{ borderColor: COLORS.feelsLike }} /> Feels like</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: COLORS.pop }} /> Precip. chance</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm" style={{ background: COLORS.precipitation }} /> Precip. amount</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5" style={{ background: COLORS.wind }} /> Wind</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 border-t border-dashed" style={{ borderColor: COLORS.gust }} /> Gusts</span>
+      </div>
+
+      <div className="flex">
+        {/* Fixed y-axes; only the plot area scrolls */}
+        <svg width={AXIS_WIDTH} height={HEIGHT} className="flex-none">
+          {renderAxis(chart.tempDomain, TEMP_TOP, TEMP_HEIGHT, UNIT_LABELS.temperature[units.temperature])}
+          {renderAxis(chart.precipDomain, PRECIP_TOP, PRECIP_HEIGHT, precipLabel)}
+          {renderAxis(chart.windDomain, WIND_TOP, WIND_HEIGHT, windLabel)}
+        </svg>
+
+        <div ref={scrollRef} className="relative flex-1 overflow-x-auto no-scrollbar">
+          <svg
+            width={chart.width}
+            height={HEIGHT}
+            className="block touch-pan-x"
+            onPointerMove={handlePointerMove}
+            onPointerLeave={() => setHoverIndex(null)}
+          >
+            {chart.nights.map(([from, to]) => (
+              <rect key={from} x={chart.x(from)} y={0} width={chart.x(to) - chart.x(from)} height={CHART_BOTTOM} fill="rgba(15,23,42,0.35)" />
+            ))}
+
+            {band && band.to > band.from && (
+              <rect x={band.from} y={0} width={band.to - band.from} height={CHART_BOTTOM} fill="rgba(253,224,71,0.12)" stroke="rgba(253,224,71,0.6)" strokeDasharray="3 3" />
+            )}
+
+            {renderGrid(chart.tempDomain, TEMP_TOP, TEMP_HEIGHT)}
+            {renderGrid(chart.precipDomain, PRECIP_TOP, PRECIP_HEIGHT)}
+            {renderGrid(chart.windDomain, WIND_TOP, WIND_HEIGHT)}
+
+            <g opacity={panelOpacity('temperature')}>
+              <path d={chart.feelsLikePath} fill="none" stroke={COLORS.feelsLike} strokeWidth={1.5} strokeDasharray="4 3" />
+              <path d={chart.tempPath} fill="none" stroke={COLORS.temp} strokeWidth={2.5} strokeLinejoin="round" />
+            </g>
+
+            <g opacity={panelOpacity('precipitation')}>
+            {hourly.map(item => {
+              const cx = chart.x(item.dt);
+              const popHeight = ((item.pop ?? 0) / 100) * PRECIP_HEIGHT;
+              const amountY = scaleY(convertPrecipitation(item.precipitation, units.precipitation), chart.precipDomain, PRECIP_TOP, PRECIP_HEIGHT);
+              return (
+                <g key={item.dt}>
+                  {popHeight > 0 && (
+                    <rect x={cx - chart.barWidth / 2} y={PRECIP_TOP + PRECIP_HEIGHT - popHeight} width={chart.barWidth} height={popHeight} fill={COLORS.pop} />
+                  )}
+                  {item.precipitation > 0 && (
+                    <rect x={cx - chart.barWidth / 4} y={amountY} width={chart.barWidth / 2} height={PRECIP_TOP + PRECIP_HEIGHT - amountY} fill={COLORS.precipitation} rx={1} />
+                  )}
+                </g>
+              );
+            })}
+            </g>
+
+            <g opacity={panelOpacity('wind')}>
+            {chart.gustPath && <path d={chart.gustPath} fill="none" stroke={COLORS.gust} strokeWidth={1.5} strokeDasharray="4 3" opacity={0.7} />}
+            <path d={chart.windPath} fill="none" stroke={COLORS.wind} strokeWidth={2} strokeLinejoin="round" />
+
+            {/* Meteorological degrees say where wind comes from, so arrows point the other way */}
+            {hourly.filter((_, i) => i % chart.arrowEvery === 0).map(item => (
+              <path
+                key={item.dt}
+                d="M0,-5 L3.5,3 L0,1 L-3.5,3 Z"
+                fill="rgba(255,255,255,0.6)"
+                transform={`translate(${chart.x(item.dt).toFixed(1)},${WIND_TOP - 10}) rotate(${item.wind.deg + 180})`}
+              />
+            ))}
+            </g>
+
+            {chart.labels.map(t => (
+              <text key={t} x={chart.x(t)} y={HEIGHT - 6} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.5)">
+                {formatHour(t, timeZone)}
+              </text>
+            ))}
+
+            {chart.nowX !== null && (
+              <g>
+                <line x1={chart.nowX} x2={chart.nowX} y1={0} y2={CHART_BOTTOM} stroke="rgba(255,255,255,0.7)" strokeDasharray="2 3" />
+                <text x={chart.nowX + 4} y={9} fontSize={9} fill="rgba(255,255,255,0.8)">{t('time.now')}</text>
+              </g>
+            )}
+
+            {hovered && (
+              <g pointerEvents="none">
+                <line x1={hoverX} x2={hoverX} y1={0} y2={CHART_BOTTOM} stroke="rgba(255,255,255,0.4)" />
+                <circle cx={hoverX} cy={scaleY(convertTemperature(hovered.temp, units.temperature), chart.tempDomain, TEMP_TOP, TEMP_HEIGHT)} r={4} fill={COLORS.temp} />
+                <circle cx={hoverX} cy={scaleY(convertWind(hovered.wind.speed, units.wind), chart.windDomain, WIND_TOP, WIND_HEIGHT)} r={3} fill={COLORS.wind} />
+              </g>
+            )}
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute top-2 z-10 w-40 pointer-events-none bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-xl p-3 text-xs text-white shadow-2xl"
+              style={{ left: hoverX > chart.width - 176 ? hoverX - 172 : hoverX + 12 }}
+            >
+              <p className="font-semibold mb-1">
+                {formatInZone(hovered.dt, timeZone, { weekday: 'short', hour: 'numeric' })}
+              </p>
+              <p className="capitalize text-white/60 mb-1">{describeCondition(hovered.weather[0])}</p>
+              <p>{t('hourly.temp', { value: formatTemperature(hovered.temp, units.temperature) })} <span className="text-white/50">({t('hourly.feels', { value: formatTemperature(hovered.feels_like, units.temperature) })})</span></p>
+              <p>{t('hourly.precip', { value: `${hovered.pop ?? 0}% · ${formatNumber(convertPrecipitation(hovered.precipitation, units.precipitation), units.precipitation === 'in' ? 2 : 1)} ${precipLabel}` })}</p>
+              <p>
+                {t('hourly.wind', {
+                  value: `${Math.round(convertWind(hovered.wind.speed, units.wind))}${hovered.wind.gust !== undefined ? `–${Math.round(convertWind(hovered.wind.gust, units.wind))}` : ''} ${windLabel} · ${hovered.wind.deg}°`
+                })}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
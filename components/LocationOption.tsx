@@ -0,0 +1,48 @@
+import React from 'react';
+import { GeoLocation } from '../types';
+
+// Regional indicator symbols turn an ISO country code ("FR") into its flag emoji
+export const getFlagEmoji = (countryCode?: string) => {
+  if (!countryCode || !/^[a-z]{2}$/i.test(countryCode)) return '🏳️';
+  return String.fromCodePoint(...countryCode.toUpperCase().split('').map(char => 0x1F1E6 + char.charCodeAt(0) - 65));
+};
+
+const formatPopulation = (population?: number) => {
+  if (!population) return null;
+  if (population >= 1_000_000) return `${(population / 1_000_000).toFixed(1)}M people`;
+  if (population >= 1_000) return `${Math.round(population / 1_000)}k people`;
+  return `${population} people`;
+};
+
+interface LocationOptionProps {
+  location: GeoLocation;
+  active?: boolean;
+  onSelect: (location: GeoLocation) => void;
+  onHover?: () => void;
+}
+
+// One selectable row shared by the disambiguation picker and the autocomplete dropdown
+export const LocationOption: React.FC<LocationOptionProps> = ({ location, active = false, onSelect, onHover }) => {
+  const population = formatPopulation(location.population);
+
+  return (
+    <button
+      type="button"
+      role="option"
+      aria-selected={active}
+      // mousedown fires before the input blurs, so the click is not lost when the dropdown closes
+      onMouseDown={(e) => { e.preventDefault(); onSelect(location); }}
+      onMouseEnter={onHover}
+      className={`w-full flex items-start gap-3 px-4 py-3 text-left transition-colors ${active ? 'bg-white/20' : 'hover:bg-white/10'}`}
+    >
+      <span className="text-lg leading-none mt-0.5 flex-none">{getFlagEmoji(location.country_code)}</span>
+      <div className="flex flex-col min-w-0">
+        <span className="font-medium truncate">{location.name}</span>
+        <span className="text-xs text-white/50 truncate">
+          {[location.admin1, location.country].filter(Boolean).join(', ')}
+          {population && ` • ${population}`}
+        </span>
+      </div>
+    </button>
+  );
+};
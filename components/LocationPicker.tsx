@@ -0,0 +1,33 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { GeoLocation } from '../types';
+import { LocationOption } from './LocationOption';
+import { t } from '../services/i18n';
+
+interface LocationPickerProps {
+  query: string;
+  candidates: GeoLocation[];
+  onSelect: (location: GeoLocation) => void;
+  onDismiss: () => void;
+}
+
+// Shown under the search bar when a name matches several places ("Springfield", "Paris")
+export const LocationPicker: React.FC<LocationPickerProps> = ({ query, candidates, onSelect, onDismiss }) => {
+  return (
+    <div className="absolute left-0 right-0 top-full mt-2 z-30 bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden text-white">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <span className="text-xs text-white/60 uppercase tracking-wider">{t('search.whichPlace', { query })}</span>
+        <button onClick={onDismiss} className="p-1 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+      </div>
+      <ul role="listbox" className="max-h-72 overflow-y-auto">
+        {candidates.map((candidate) => (
+          <li key={`${candidate.id}-${candidate.latitude}-${candidate.longitude}`}>
+            <LocationOption location={candidate} onSelect={onSelect} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
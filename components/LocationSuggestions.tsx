@@ -0,0 +1,31 @@
+import React from 'react';
+import { GeoLocation } from '../types';
+import { LocationOption } from './LocationOption';
+
+interface LocationSuggestionsProps {
+  suggestions: GeoLocation[];
+  activeIndex: number;
+  onSelect: (location: GeoLocation) => void;
+  onHover: (index: number) => void;
+}
+
+export const LocationSuggestions: React.FC<LocationSuggestionsProps> = ({ suggestions, activeIndex, onSelect, onHover }) => {
+  return (
+    <ul
+      id="location-suggestions"
+      role="listbox"
+      className="absolute left-0 right-0 top-full mt-2 z-30 bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl overflow-hidden text-white max-h-80 overflow-y-auto"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li key={`${suggestion.id}-${suggestion.latitude}-${suggestion.longitude}`}>
+          <LocationOption
+            location={suggestion}
+            active={index === activeIndex}
+            onSelect={onSelect}
+            onHover={() => onHover(index)}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+};
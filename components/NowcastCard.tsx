@@ -0,0 +1,53 @@
+import React from 'react';
+import { Umbrella } from './Icons';
+import { Nowcast, PrecipitationIntensity, UnitSettings } from '../types';
+import { convertPrecipitation, UNIT_LABELS } from '../services/units';
+import { formatTime } from '../services/timezone';
+import { formatNumber, t, translate } from '../services/i18n';
+
+interface NowcastCardProps {
+  nowcast: Nowcast | null;
+  units: UnitSettings;
+  timeZone?: string;
+}
+
+const BAR_STYLES: Record<PrecipitationIntensity, string> = {
+  none: 'h-1 bg-white/15',
+  light: 'h-1/3 bg-blue-300/70',
+  moderate: 'h-2/3 bg-blue-400',
+  heavy: 'h-full bg-indigo-400'
+};
+
+// Two-hour precipitation timeline in 15-minute slots, for "do I need an umbrella on the way out"
+export const NowcastCard: React.FC<NowcastCardProps> = ({ nowcast, units, timeZone }) => {
+  if (!nowcast || nowcast.slots.length === 0) return null;
+  const precipLabel = UNIT_LABELS.precipitation[units.precipitation];
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md border border-white/10 rounded-3xl p-6 text-white flex flex-col gap-4">
+      <div className="flex items-center gap-2 text-white/60">
+        <Umbrella className="w-5 h-5" />
+        <span className="text-sm font-bold uppercase">{t('nowcast.title')}</span>
+      </div>
+      <p className="text-base font-light text-white/90">{translate(nowcast.summary)}</p>
+      <div className="flex flex-col gap-1">
+        <div className="flex items-end gap-1 h-10">
+          {nowcast.slots.map(slot => (
+            <div
+              key={slot.time}
+              title={`${formatTime(slot.time, timeZone)}: ${formatNumber(convertPrecipitation(slot.precipitation, units.precipitation), units.precipitation === 'in' ? 2 : 1)} ${precipLabel}`}
+              className={`flex-1 rounded-sm ${BAR_STYLES[slot.intensity]}`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-white/40">
+          <span>{t('time.now')}</span>
+          <span>{t('nowcast.30m')}</span>
+          <span>{t('nowcast.1h')}</span>
+          <span>{t('nowcast.90m')}</span>
+          <span>{t('nowcast.2h')}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
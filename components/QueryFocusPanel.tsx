@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Crosshair, X, Loader2 } from 'lucide-react';
+import { WeatherIcon, Umbrella } from './Icons';
+import { GeoLocation, HourlyItem, QueryFocus, QueryMetric, UnitSettings, WeatherBundle } from '../types';
+import { getWeatherBundle, searchLocations } from '../services/weatherService';
+import { formatTemperature, convertWind, UNIT_LABELS } from '../services/units';
+import { formatInZone, formatTime } from '../services/timezone';
+import { describeCondition, t } from '../services/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface QueryFocusPanelProps {
+  focus: QueryFocus;
+  window: { start: number; end: number } | null;
+  beyondForecast: boolean; // The asked-for day is past what the provider returned
+  main: WeatherBundle;
+  units: UnitSettings;
+  locationZone: string; // Decides the calendar day shown
+  displayZone?: string; // Decides the clock times shown
+  onSelect: (location: GeoLocation) => void;
+  onClear: () => void;
+}
+
+const METRIC_LABELS: Record<QueryMetric, MessageKey> = {
+  temperature: 'units.temperature',
+  rain: 'focus.rain',
+  snow: 'focus.snow',
+  wind: 'metric.wind',
+  humidity: 'metric.humidity',
+  uv: 'metric.uv',
+  air_quality: 'metric.airQuality',
+  visibility: 'metric.visibility'
+};
+
+const KNOWN_ACTIVITIES = ['running', 'cycling', 'picnic'];
+
+const HOUR = 3600;
+
+// The forecast slot closest to the window's start; 3-hourly providers may be up to 90 minutes off
+const pickSlot = (bundle: WeatherBundle, window: { start: number } | null): HourlyItem | null => {
+  if (!window) return null;
+  const nearest = (bundle.forecast.hourly || []).reduce<HourlyItem | null>((best, item) =>
+    !best || Math.abs(item.dt - window.start) < Math.abs(best.dt - window.start) ? item : best, null);
+  return nearest && Math.abs(nearest.dt - window.start) <= 3 * HOUR ? nearest : null;
+};
+
+// What a parsed search asked about: the time window, the variable and activity it cares about,
+// and side-by-side cards for any places it wanted compared
+export const QueryFocusPanel: React.FC<QueryFocusPanelProps> = ({ focus, window, beyondForecast, main, units, locationZone, displayZone, onSelect, onClear }) => {
+  const [others, setOthers] = useState<{ name: string; bundle: WeatherBundle | null }[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const compareKey = (focus.compareWith || []).join('|');
+
+  useEffect(() => {
+    const names = focus.compareWith || [];
+    setOthers([]);
+    if (names.length === 0) return;
+    let cancelled = false;
+    setLoading(true);
+    // Bundles are cache-first, so places compared before load instantly
+    Promise.all(names.map(async name => {
+      try {
+        const [match] = await searchLocations(name);
+        return { name, bundle: match ? await getWeatherBundle(match) : null };
+      } catch {
+        return { name, bundle: null };
+      }
+    }))
+      .then(results => { if (!cancelled) setOthers(results); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+    // compareKey captures the list; the array itself is new on every parse
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareKey]);
+
+  const wholeDay = focus.when?.startHour === 0 && focus.when?.endHour === 24;
+  const activity = focus.activity && (KNOWN_ACTIVITIES.includes(focus.activity) ? t(`activity.${focus.activity}` as MessageKey) : focus.activity);
+
+  const renderCard = (bundle: WeatherBundle, key: string) => {
+    const slot = pickSlot(bundle, window);
+    const temp = slot ? slot.temp : bundle.current.main.temp;
+    const weather = (slot || bundle.current).weather[0];
+    const wind = (slot || bundle.current).wind.speed;
+    return (
+      <button
+        key={key}
+        onClick={() => onSelect(bundle.location)}
+        disabled={bundle === main}
+        className={`flex-none w-36 flex flex-col items-center gap-1 p-3 rounded-2xl border transition-colors ${bundle === main ? 'bg-white/15 border-yellow-300/40' : 'bg-white/5 border-white/10 hover:bg-white/15'}`}
+      >
+        <span className="text-sm font-semibold truncate w-full text-center">{bundle.location.name}</span>
+        <WeatherIcon code={weather.icon} className="w-8 h-8" />
+        <span className="text-xl font-bold">{formatTemperature(temp, units.temperature)}</span>
+        {focus.metric === 'rain' || focus.metric === 'snow' ? (
+          <span className="text-xs text-blue-300 flex items-center gap-1"><Umbrella className="w-3 h-3" /> {slot?.pop ?? 0}%</span>
+        ) : focus.metric === 'wind' ? (
+          <span className="text-xs text-white/60">{Math.round(convertWind(wind, units.wind))} {UNIT_LABELS.wind[units.wind]}</span>
+        ) : (
+          <span className="text-xs text-white/60 capitalize truncate w-full text-center">{describeCondition(weather)}</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md border border-yellow-300/30 rounded-[2rem] p-4 flex flex-col gap-3 text-white">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Crosshair className="w-4 h-4 text-yellow-300" />
+          {window && (
+            <span className="font-semibold">
+              {formatInZone(window.start, locationZone, { weekday: 'short', day: 'numeric', month: 'short' })}
+              {!wholeDay && ` · ${formatTime(window.start, displayZone)}–${formatTime(window.end, displayZone)}`}
+            </span>
+          )}
+          {focus.metric && <span className="px-2 py-0.5 rounded-full bg-white/10 text-xs">{t(METRIC_LABELS[focus.metric])}</span>}
+          {activity && <span className="px-2 py-0.5 rounded-full bg-white/10 text-xs capitalize">{activity}</span>}
+          {beyondForecast && <span className="text-xs text-white/50">{t('focus.beyond')}</span>}
+        </div>
+        <button onClick={onClear} title={t('focus.clear')} className="p-1.5 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+      </div>
+
+      {(focus.compareWith?.length || 0) > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-white/50 uppercase tracking-wider">{t('focus.compare')}</span>
+          <div className="flex gap-3 overflow-x-auto no-scrollbar">
+            {renderCard(main, 'main')}
+            {loading && <Loader2 className="w-5 h-5 animate-spin self-center text-white/60" />}
+            {others.map(({ name, bundle }) => bundle
+              ? renderCard(bundle, name)
+              : (
+                <div key={name} className="flex-none w-36 flex flex-col items-center justify-center gap-1 p-3 rounded-2xl bg-white/5 border border-white/10 text-xs text-white/50 text-center">
+                  <span className="text-sm font-semibold text-white/80">{name}</span>
+                  {t('focus.notFound')}
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Shirt, Umbrella, SunMedium, ShieldAlert, Clock, Footprints, Bike, Sandwich } from 'lucide-react';
+import { OutdoorActivity, Recommendations } from '../types';
+import { ACTIVITIES } from '../services/recommendationService';
+import { t } from '../services/i18n';
+
+interface RecommendationsCardProps {
+  recommendations: Recommendations | null;
+  loading: boolean;
+  formatTime: (timestamp: number) => string;
+}
+
+const ACTIVITY_ICONS: Record<OutdoorActivity, React.FC<{ className?: string }>> = {
+  running: Footprints,
+  cycling: Bike,
+  picnic: Sandwich
+};
+
+const scoreColor = (score: number) => score >= 7 ? 'bg-green-400' : score >= 4 ? 'bg-yellow-400' : 'bg-red-400';
+
+// Structured "plan" view of the Smart Analysis card
+export const RecommendationsCard: React.FC<RecommendationsCardProps> = ({ recommendations, loading, formatTime }) => {
+  if (!recommendations) {
+    return <p className="animate-pulse opacity-70">{loading ? t('plan.loading') : t('plan.empty')}</p>;
+  }
+
+  const { summary, clothing, umbrella, sunscreen, mask, bestWindow, activities, source } = recommendations;
+  const flags = [
+    { label: t('plan.umbrella'), on: umbrella, Icon: Umbrella },
+    { label: t('plan.sunscreen'), on: sunscreen, Icon: SunMedium },
+    { label: t('plan.mask'), on: mask, Icon: ShieldAlert }
+  ];
+
+  return (
+    <div className={`flex flex-col gap-4 text-sm ${loading ? 'opacity-60' : ''}`}>
+      <p className="text-base">{summary}</p>
+
+      <div className="flex flex-col gap-2">
+        <span className="flex items-center gap-1 text-xs text-white/50 uppercase"><Shirt className="w-3 h-3" /> {t('plan.wear')}</span>
+        <div className="flex flex-wrap gap-2">
+          {clothing.map(item => (
+            <span key={item} className="px-3 py-1 rounded-full bg-white/10">{item}</span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {flags.map(({ label, on, Icon }) => (
+          <div key={label} className={`flex flex-col items-center gap-1 p-2 rounded-2xl ${on ? 'bg-yellow-300/20 text-yellow-100' : 'bg-white/5 text-white/40'}`}>
+            <Icon className="w-4 h-4" />
+            <span className="text-xs">{label}</span>
+            <span className="text-[10px] uppercase">{on ? t('plan.bring') : t('plan.notNeeded')}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-start gap-2 p-3 rounded-2xl bg-white/5">
+        <Clock className="w-4 h-4 mt-0.5 text-white/60 flex-none" />
+        {bestWindow ? (
+          <div className="flex flex-col">
+            <span className="font-bold">{t('plan.bestTime', { start: formatTime(bestWindow.start), end: formatTime(bestWindow.end) })}</span>
+            {bestWindow.reason && <span className="text-white/60">{bestWindow.reason}</span>}
+          </div>
+        ) : (
+          <span className="text-white/60">{t('plan.noWindow')}</span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {ACTIVITIES.map(activity => {
+          const Icon = ACTIVITY_ICONS[activity];
+          const { score, note } = activities[activity];
+          return (
+            <div key={activity} className="flex items-center gap-3">
+              <Icon className="w-4 h-4 text-white/60 flex-none" />
+              <div className="flex-1 flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span>{t(`activity.${activity}`)}</span>
+                  <span className="text-xs text-white/50">{note}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                  <div className={`h-full rounded-full ${scoreColor(score)}`} style={{ width: `${score * 10}%` }} />
+                </div>
+              </div>
+              <span className="w-8 text-right font-bold">{score}/10</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {source === 'rules' && <span className="text-[10px] text-white/40">{t('plan.rules')}</span>}
+    </div>
+  );
+};
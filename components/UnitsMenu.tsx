@@ -0,0 +1,55 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { UnitSettings } from '../types';
+import { UNIT_LABELS } from '../services/units';
+import { t } from '../services/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface UnitsMenuProps {
+  units: UnitSettings;
+  onChange: (units: Partial<UnitSettings>) => void;
+  onClose: () => void;
+}
+
+const SECTIONS: { key: keyof UnitSettings; title: MessageKey }[] = [
+  { key: 'temperature', title: 'units.temperature' },
+  { key: 'wind', title: 'units.wind' },
+  { key: 'pressure', title: 'units.pressure' },
+  { key: 'precipitation', title: 'units.precipitation' },
+  { key: 'distance', title: 'units.distance' }
+];
+
+// Each dimension is chosen independently; data is converted on render, so nothing refetches
+export const UnitsMenu: React.FC<UnitsMenuProps> = ({ units, onChange, onClose }) => {
+  return (
+    <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl p-4 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-white/60 uppercase tracking-wider">{t('units.title')}</span>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+      </div>
+      <div className="flex flex-col gap-3">
+        {SECTIONS.map(({ key, title }) => {
+          const labels: Record<string, string> = UNIT_LABELS[key];
+          return (
+            <div key={key} className="flex flex-col gap-1.5">
+              <span className="text-xs text-white/50">{t(title)}</span>
+              <div className="flex rounded-xl bg-white/10 p-1 gap-1">
+                {Object.entries(labels).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => onChange({ [key]: value })}
+                    className={`flex-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors ${units[key] === value ? 'bg-white/30 text-white' : 'text-white/60 hover:bg-white/10'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
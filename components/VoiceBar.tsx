@@ -0,0 +1,36 @@
+import React from 'react';
+import { Mic, Loader2, Volume2, AudioLines, Square } from 'lucide-react';
+import type { VoiceStatus } from '../hooks/useVoiceAssistant';
+import { t } from '../services/i18n';
+
+interface VoiceBarProps {
+  status: VoiceStatus;
+  conversation: boolean;
+  transcript: string;
+  onStop: () => void;
+}
+
+// Shows what the voice assistant is doing, so hands-free mode is never a hidden open microphone
+export const VoiceBar: React.FC<VoiceBarProps> = ({ status, conversation, transcript, onStop }) => {
+  if (!conversation && status === 'idle') return null;
+
+  const { icon, label } = {
+    listening: { icon: <Mic className="w-4 h-4 text-red-300 animate-pulse" />, label: t('voice.listening') },
+    thinking: { icon: <Loader2 className="w-4 h-4 animate-spin" />, label: t('voice.thinking') },
+    speaking: { icon: <Volume2 className="w-4 h-4 text-yellow-300 animate-pulse" />, label: t('voice.speaking') },
+    idle: { icon: <AudioLines className="w-4 h-4" />, label: t('voice.ready') }
+  }[status];
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 max-w-[calc(100vw-8rem)] flex items-center gap-3 pl-4 pr-2 py-2 rounded-full bg-slate-900/90 backdrop-blur-xl border border-white/20 shadow-2xl text-white">
+      {icon}
+      <span className="text-sm font-medium whitespace-nowrap">{label}</span>
+      {transcript && status !== 'listening' && (
+        <span className="text-xs text-white/50 truncate">“{transcript}”</span>
+      )}
+      <button onClick={onStop} title={t('voice.stop')} className="p-2 rounded-full bg-white/10 hover:bg-red-500/70 transition-colors">
+        <Square className="w-3 h-3 fill-current" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { X, Volume2 } from 'lucide-react';
+import { VoiceSettings } from '../types';
+import { VOICE_RATE_RANGE, VOICE_PITCH_RANGE } from '../services/speech';
+import { t, formatNumber } from '../services/i18n';
+import type { MessageKey } from '../locales/en';
+
+interface VoiceMenuProps {
+  settings: VoiceSettings;
+  voices: SpeechSynthesisVoice[];
+  language: string; // BCP 47 tag of the UI language
+  onChange: (settings: Partial<VoiceSettings>) => void;
+  onTest: () => void;
+  onClose: () => void;
+}
+
+const SLIDERS: { key: 'rate' | 'pitch'; title: MessageKey; range: { min: number; max: number } }[] = [
+  { key: 'rate', title: 'voice.rate', range: VOICE_RATE_RANGE },
+  { key: 'pitch', title: 'voice.pitch', range: VOICE_PITCH_RANGE }
+];
+
+// Only voices for the UI language are offered, since answers are spoken in that language
+export const VoiceMenu: React.FC<VoiceMenuProps> = ({ settings, voices, language, onChange, onTest, onClose }) => {
+  const prefix = language.split('-')[0].toLowerCase();
+  const matching = voices.filter(voice => voice.lang.toLowerCase().startsWith(prefix));
+
+  return (
+    <div className="absolute right-0 top-full mt-2 z-30 w-72 bg-slate-900/90 backdrop-blur-xl border border-white/20 rounded-2xl shadow-2xl p-4 text-white">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-white/60 uppercase tracking-wider">{t('voice.settings')}</span>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4 text-white/60" />
+        </button>
+      </div>
+      <div className="flex flex-col gap-3">
+        <label className="flex flex-col gap-1.5">
+          <span className="text-xs text-white/50">{t('voice.voice')}</span>
+          <select
+            value={settings.voiceURI || ''}
+            onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+            className="bg-white/10 rounded-xl px-3 py-2 text-sm outline-none focus:bg-white/15"
+          >
+            <option value="" className="text-black">{t('voice.auto')}</option>
+            {matching.map(voice => (
+              <option key={voice.voiceURI} value={voice.voiceURI} className="text-black">{voice.name}</option>
+            ))}
+          </select>
+        </label>
+        {SLIDERS.map(({ key, title, range }) => (
+          <label key={key} className="flex flex-col gap-1.5">
+            <span className="flex justify-between text-xs text-white/50">
+              {t(title)}
+              <span className="font-mono">{formatNumber(settings[key], 1)}</span>
+            </span>
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              step={0.1}
+              value={settings[key]}
+              onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+              className="accent-yellow-300"
+            />
+          </label>
+        ))}
+        <button
+          onClick={onTest}
+          className="flex items-center justify-center gap-2 rounded-xl bg-white/10 hover:bg-white/20 px-3 py-2 text-xs font-medium transition-colors"
+        >
+          <Volume2 className="w-4 h-4" />
+          {t('voice.test')}
+        </button>
+      </div>
+    </div>
+  );
+};
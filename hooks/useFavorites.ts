@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { GeoLocation } from '../types';
+import { addFavorite, removeFavorite, moveFavorite, isFavorite } from '../services/favoritesService';
+
+type FavoritesUpdater = (update: (prev: GeoLocation[]) => GeoLocation[]) => void;
+
+// Saved locations live in the preferences store; this wraps the list operations around it
+export const useFavorites = (favorites: GeoLocation[], setFavorites: FavoritesUpdater) => {
+  const add = useCallback((location: GeoLocation) => setFavorites(prev => addFavorite(prev, location)), [setFavorites]);
+  const remove = useCallback((location: GeoLocation) => setFavorites(prev => removeFavorite(prev, location)), [setFavorites]);
+  const move = useCallback((from: number, to: number) => setFavorites(prev => moveFavorite(prev, from, to)), [setFavorites]);
+  const toggle = useCallback((location: GeoLocation) => {
+    setFavorites(prev => isFavorite(prev, location) ? removeFavorite(prev, location) : addFavorite(prev, location));
+  }, [setFavorites]);
+
+  return { favorites, add, remove, move, toggle, isFavorite: (location: GeoLocation) => isFavorite(favorites, location) };
+};
@@ -0,0 +1,89 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { GeoLocation } from '../types';
+import { searchLocations } from '../services/weatherService';
+import { parseCoordinates } from '../services/geoUtils';
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 6;
+
+// Debounced search-as-you-type over the same geocoding path as regular searches.
+// Each keystroke cancels the pending timer and aborts any request still in flight.
+export const useLocationAutocomplete = (onPick: (location: GeoLocation) => void) => {
+  const [suggestions, setSuggestions] = useState<GeoLocation[]>([]);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancelPending = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const close = useCallback(() => {
+    cancelPending();
+    setSuggestions([]);
+    setActiveIndex(-1);
+  }, [cancelPending]);
+
+  const updateQuery = useCallback((query: string) => {
+    cancelPending();
+    // Coordinates are resolved on submit; there is nothing useful to suggest for them
+    if (query.trim().length < MIN_QUERY_LENGTH || parseCoordinates(query)) {
+      setSuggestions([]);
+      setActiveIndex(-1);
+      return;
+    }
+
+    timerRef.current = setTimeout(async () => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      try {
+        const results = await searchLocations(query, { count: MAX_SUGGESTIONS, signal: controller.signal });
+        if (!controller.signal.aborted) {
+          setSuggestions(results.slice(0, MAX_SUGGESTIONS));
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) console.warn("Autocomplete lookup failed:", error);
+      }
+    }, DEBOUNCE_MS);
+  }, [cancelPending]);
+
+  const pick = useCallback((location: GeoLocation) => {
+    close();
+    onPick(location);
+  }, [close, onPick]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((prev) => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+        break;
+      case 'Enter':
+        // Without a highlighted row, Enter falls through to the normal form submit
+        if (activeIndex >= 0) {
+          e.preventDefault();
+          pick(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  useEffect(() => cancelPending, [cancelPending]);
+
+  return { suggestions, activeIndex, setActiveIndex, updateQuery, handleKeyDown, pick, close };
+};
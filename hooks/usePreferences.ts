@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserPreferences } from '../types';
+import { loadPreferences, savePreferences, parsePreferences, PREFERENCES_KEY } from '../services/preferencesService';
+
+type PreferencesUpdate = Partial<UserPreferences> | ((prev: UserPreferences) => Partial<UserPreferences>);
+
+export const usePreferences = () => {
+  const [preferences, setPreferences] = useState<UserPreferences>(loadPreferences);
+
+  const updatePreferences = useCallback((update: PreferencesUpdate) => {
+    setPreferences((prev) => {
+      const next = { ...prev, ...(typeof update === 'function' ? update(prev) : update) };
+      savePreferences(next);
+      return next;
+    });
+  }, []);
+
+  // The storage event only fires in *other* tabs, so this never echoes our own writes
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== PREFERENCES_KEY) return;
+      setPreferences(parsePreferences(event.newValue));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return { preferences, updatePreferences };
+};
@@ -0,0 +1,220 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { VoiceSettings } from '../types';
+import { getSpeechRecognition, getSpeechSynthesis, pickVoice, splitSentences, toSpeakableText } from '../services/speech';
+
+// Text is fed in as it streams and read out a sentence at a time; end() flushes the remainder
+export interface SpeechStream {
+  push: (text: string) => void;
+  end: () => void;
+}
+
+export type VoiceStatus = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export type VoiceError = 'unsupported' | 'denied' | 'failed';
+
+interface VoiceAssistantOptions {
+  language: string; // BCP 47 tag for recognition and voice matching
+  settings: VoiceSettings;
+  // One spoken query. The handler answers through `speech` and must end it, even with nothing to say.
+  onTranscript: (transcript: string, speech: SpeechStream) => void | Promise<void>;
+  onError: (error: VoiceError) => void;
+}
+
+// Push-to-talk and hands-free voice: listen, hand the transcript over, read the answer aloud,
+// and in conversation mode open the mic again once the answer has been spoken
+export const useVoiceAssistant = ({ language, settings, onTranscript, onError }: VoiceAssistantOptions) => {
+  const [status, setStatus] = useState<VoiceStatus>('idle');
+  const [conversation, setConversation] = useState<boolean>(false);
+  const [transcript, setTranscript] = useState<string>('');
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  const recognitionRef = useRef<any>(null);
+  const conversationRef = useRef<boolean>(false);
+  // Each stream checks it is still the latest, so a cancelled answer cannot keep talking or re-open the mic
+  const streamIdRef = useRef<number>(0);
+  const optionsRef = useRef({ language, settings, onTranscript, onError });
+  optionsRef.current = { language, settings, onTranscript, onError };
+
+  const supported = { recognition: !!getSpeechRecognition(), synthesis: !!getSpeechSynthesis() };
+
+  const cancelSpeech = useCallback(() => {
+    streamIdRef.current++;
+    getSpeechSynthesis()?.cancel();
+    setStatus(prev => prev === 'speaking' || prev === 'thinking' ? 'idle' : prev);
+  }, []);
+
+  const listen = useCallback(() => {
+    const recognition = recognitionRef.current;
+    if (!recognition) {
+      optionsRef.current.onError('unsupported');
+      return;
+    }
+    cancelSpeech();
+    recognition.lang = optionsRef.current.language;
+    try {
+      recognition.start();
+      setStatus('listening');
+    } catch {
+      // start() throws while a previous session is still closing; the user can simply press again
+    }
+  }, [cancelSpeech]);
+
+  const setConversationMode = (enabled: boolean) => {
+    conversationRef.current = enabled;
+    setConversation(enabled);
+  };
+
+  const createStream = useCallback((): SpeechStream => {
+    const synth = getSpeechSynthesis();
+    synth?.cancel();
+    const id = ++streamIdRef.current;
+    const isCurrent = () => streamIdRef.current === id;
+    let buffer = '';
+    let pending = 0;
+    let ended = false;
+
+    const finish = () => {
+      if (!isCurrent() || !ended || pending > 0) return;
+      setStatus('idle');
+      if (conversationRef.current) listen();
+    };
+
+    const say = (text: string) => {
+      const speakable = toSpeakableText(text);
+      if (!synth || !speakable) return;
+      const { language, settings } = optionsRef.current;
+      const utterance = new SpeechSynthesisUtterance(speakable);
+      utterance.lang = language;
+      utterance.voice = pickVoice(synth.getVoices(), language, settings.voiceURI);
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      utterance.onend = utterance.onerror = () => {
+        pending--;
+        finish();
+      };
+      pending++;
+      setStatus('speaking');
+      synth.speak(utterance);
+    };
+
+    return {
+      push: (text) => {
+        if (!isCurrent() || ended) return;
+        const { sentences, rest } = splitSentences(buffer + text);
+        buffer = rest;
+        sentences.forEach(say);
+      },
+      end: () => {
+        if (!isCurrent() || ended) return;
+        ended = true;
+        say(buffer);
+        buffer = '';
+        finish();
+      }
+    };
+  }, [listen]);
+
+  const speak = useCallback((text: string) => {
+    const speech = createStream();
+    speech.push(text);
+    speech.end();
+  }, [createStream]);
+
+  const startTurn = useCallback((text: string) => {
+    const speech = createStream();
+    setTranscript(text);
+    setStatus('thinking');
+    Promise.resolve()
+      .then(() => optionsRef.current.onTranscript(text, speech))
+      .catch((error) => {
+        console.error("Voice query failed:", error);
+        speech.end();
+      });
+  }, [createStream]);
+
+  useEffect(() => {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) return;
+    const recognition = new Recognition();
+    recognition.continuous = false;
+    recognition.interimResults = false;
+
+    let heard = false;
+    recognition.onstart = () => { heard = false; };
+    recognition.onresult = (event: any) => {
+      heard = true;
+      startTurn(event.results[0][0].transcript);
+    };
+    recognition.onerror = (event: any) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        setConversationMode(false);
+        optionsRef.current.onError('denied');
+      } else if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        optionsRef.current.onError('failed');
+      }
+    };
+    // Silence ends hands-free mode rather than leaving the mic open indefinitely
+    recognition.onend = () => {
+      if (heard) return;
+      setConversationMode(false);
+      setStatus(prev => prev === 'listening' ? 'idle' : prev);
+    };
+
+    recognitionRef.current = recognition;
+    return () => {
+      recognition.abort();
+      recognitionRef.current = null;
+    };
+  }, [startTurn]);
+
+  // Voices load asynchronously in Chromium, so the list is refreshed when it changes
+  useEffect(() => {
+    const synth = getSpeechSynthesis();
+    if (!synth) return;
+    const load = () => setVoices(synth.getVoices());
+    load();
+    synth.addEventListener('voiceschanged', load);
+    return () => {
+      synth.removeEventListener('voiceschanged', load);
+      synth.cancel();
+    };
+  }, []);
+
+  // Push-to-talk: one question, or stop listening if the mic is already open
+  const toggleListening = () => {
+    if (status === 'listening') recognitionRef.current?.stop();
+    else listen();
+  };
+
+  const startConversation = () => {
+    if (!recognitionRef.current) {
+      optionsRef.current.onError('unsupported');
+      return;
+    }
+    setConversationMode(true);
+    listen();
+  };
+
+  const stop = () => {
+    setConversationMode(false);
+    recognitionRef.current?.abort();
+    cancelSpeech();
+    setStatus('idle');
+  };
+
+  return {
+    supported,
+    status,
+    listening: status === 'listening',
+    speaking: status === 'speaking',
+    conversation,
+    transcript,
+    voices,
+    toggleListening,
+    startConversation,
+    stop,
+    speak,
+    createStream,
+    cancelSpeech
+  };
+};
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import { QuietHours, UserPreferences, WatchConfig } from '../types';
+import { saveWatchConfig } from '../services/watchStore';
+import { performWatchCheck, WATCH_SYNC_TAG, WATCH_INTERVAL_MS } from '../services/watchService';
+import { getLocationKey } from '../services/weatherService';
+
+type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+// Saved places plus whatever the user last looked at
+const getWatchedLocations = ({ favorites, lastLocation }: UserPreferences) =>
+  lastLocation && !favorites.some(favorite => getLocationKey(favorite) === getLocationKey(lastLocation))
+    ? [...favorites, lastLocation]
+    : favorites;
+
+const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    await navigator.serviceWorker.register(process.env.SERVICE_WORKER_URL || '/sw.js', { type: 'module' });
+    return await navigator.serviceWorker.ready;
+  } catch (error) {
+    console.warn("Service worker registration failed:", error);
+    return null;
+  }
+};
+
+// Periodic sync is Chromium-only and gated on its own permission (granted to installed apps)
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  const periodicSync = (registration as any).periodicSync;
+  if (!periodicSync) return false;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return false;
+    await periodicSync.register(WATCH_SYNC_TAG, { minInterval: WATCH_INTERVAL_MS });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const unregisterPeriodicSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  await (registration as any)?.periodicSync?.unregister(WATCH_SYNC_TAG).catch(() => undefined);
+};
+
+export const useWatchNotifications = (
+  preferences: UserPreferences,
+  updatePreferences: (update: (prev: UserPreferences) => Partial<UserPreferences>) => void
+) => {
+  const [permission, setPermission] = useState<NotificationPermissionState>(() =>
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const active = preferences.notifications.enabled && permission === 'granted';
+
+  // Background checks cannot read localStorage, so the relevant preferences are mirrored on every change
+  useEffect(() => {
+    const config: WatchConfig | null = active ? {
+      locations: getWatchedLocations(preferences),
+      thresholds: preferences.alertThresholds,
+      units: preferences.units,
+      dismissed: preferences.dismissedAlerts,
+      quietHours: preferences.notifications.quietHours,
+      locale: preferences.locale
+    } : null;
+    saveWatchConfig(config);
+  }, [active, preferences]);
+
+  useEffect(() => {
+    if (!active) {
+      unregisterPeriodicSync().catch(() => undefined);
+      return;
+    }
+    let cancelled = false;
+    let interval: number | undefined;
+
+    (async () => {
+      const registration = await registerServiceWorker();
+      if (cancelled || (registration && await registerPeriodicSync(registration))) return;
+
+      // Fallback while a tab is open: the worker shows notifications if there is one, the page otherwise
+      const run = () => {
+        if (registration?.active) {
+          registration.active.postMessage({ type: WATCH_SYNC_TAG });
+        } else {
+          performWatchCheck((notification) => {
+            new Notification(notification.title, { body: notification.body, tag: notification.tag });
+          }).catch(error => console.warn("Watch check failed:", error));
+        }
+      };
+      if (cancelled) return;
+      run();
+      interval = window.setInterval(run, WATCH_INTERVAL_MS);
+    })();
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [active]);
+
+  // Permission is only requested from this explicit opt-in, never on load
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      if (permission === 'unsupported') return;
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') return;
+    }
+    updatePreferences(prev => ({ notifications: { ...prev.notifications, enabled } }));
+  }, [permission, updatePreferences]);
+
+  const setQuietHours = useCallback((quietHours: QuietHours | null) => {
+    updatePreferences(prev => ({ notifications: { ...prev.notifications, quietHours } }));
+  }, [updatePreferences]);
+
+  return { permission, active, setEnabled, setQuietHours };
+};
@@ -0,0 +1,83 @@
+import { useState, useRef, useCallback } from 'react';
+import type { Content } from '@google/genai';
+import { ChatContext, ChatMessage } from '../types';
+import { sendChatMessage, trimChatHistory } from '../services/geminiService';
+import { t } from '../services/i18n';
+
+// sessionStorage, so a conversation survives reloads but not closing the tab
+const CHAT_KEY = 'skycast.chat';
+
+interface StoredChat {
+  messages: ChatMessage[];
+  history: Content[]; // Raw model turns, including tool calls the UI does not show
+}
+
+const loadChat = (): StoredChat => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(CHAT_KEY) || 'null');
+    if (stored && Array.isArray(stored.messages) && Array.isArray(stored.history)) return stored;
+  } catch {
+    // Corrupt or unavailable storage just starts a fresh conversation
+  }
+  return { messages: [], history: [] };
+};
+
+const saveChat = (chat: StoredChat) => {
+  try {
+    sessionStorage.setItem(CHAT_KEY, JSON.stringify(chat));
+  } catch (error) {
+    console.warn("Chat could not be stored:", error);
+  }
+};
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useWeatherChat = (context: ChatContext | null) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => loadChat().messages);
+  const [sending, setSending] = useState<boolean>(false);
+  const [activity, setActivity] = useState<string | null>(null); // Name of the tool being run
+  const historyRef = useRef<Content[]>(loadChat().history);
+
+  // Resolves with the assistant's reply so voice mode can read it out; null when nothing was sent
+  const send = useCallback(async (text: string): Promise<ChatMessage | null> => {
+    const message = text.trim();
+    if (!message || !context || sending) return null;
+
+    const question: ChatMessage = { id: createId(), role: 'user', text: message };
+    setMessages(prev => [...prev, question]);
+    setSending(true);
+    setActivity(null);
+
+    const tools: string[] = [];
+    let answer: ChatMessage;
+    try {
+      const result = await sendChatMessage(historyRef.current, message, context, (name) => {
+        tools.push(name);
+        setActivity(name);
+      });
+      historyRef.current = trimChatHistory(result.history);
+      answer = { id: createId(), role: 'assistant', text: result.reply, tools };
+    } catch (error: any) {
+      answer = { id: createId(), role: 'assistant', text: error.message || t('chat.failed'), error: true };
+    }
+
+    setMessages(prev => {
+      const next = [...prev, answer];
+      saveChat({ messages: next, history: historyRef.current });
+      return next;
+    });
+    setSending(false);
+    setActivity(null);
+    return answer;
+  }, [context, sending]);
+
+  const reset = useCallback(() => {
+    historyRef.current = [];
+    setMessages([]);
+    saveChat({ messages: [], history: [] });
+  }, []);
+
+  return { messages, sending, activity, send, reset };
+};
+
+export type WeatherChat = ReturnType<typeof useWeatherChat>;
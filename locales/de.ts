@@ -0,0 +1,374 @@
+import type { Messages } from './en';
+
+export const messages: Messages = {
+  'search.placeholder': 'Stadt oder lat,lon suchen...',
+  'search.listening': 'Höre zu...',
+  'search.voice': 'Zum Sprechen drücken',
+  'search.cityNotFound': "Stadt '{city}' nicht gefunden.",
+  'search.failed': 'Diese Stadt konnte nicht gesucht werden.',
+  'search.whichPlace': 'Welches „{query}“ meinst du?',
+  'header.saved': 'Gespeicherte Orte',
+  'header.locate': 'Meinen Standort verwenden',
+  'header.units': 'Einheiten',
+  'header.alerts': 'Warnungen & Benachrichtigungen',
+  'header.language': 'Sprache',
+
+  'error.offlineNoData': 'Du bist offline und für diesen Ort sind noch keine Daten gespeichert.',
+  'error.noWeather': 'Keine Wetterdaten gefunden. Bitte versuche eine andere Stadt.',
+  'error.geolocationUnavailable': 'Standort ist in diesem Browser nicht verfügbar. Füge stattdessen Koordinaten wie 48.85,2.35 ein.',
+  'error.geolocationDenied': 'Standortzugriff wurde verweigert. Erlaube ihn im Browser oder suche nach Stadt oder Koordinaten.',
+  'error.geolocationFailed': 'Dein Standort konnte nicht ermittelt werden. Bitte versuche es erneut.',
+
+  'status.scanning': 'Atmosphärendaten werden gescannt...',
+  'status.waiting': 'Warte auf Wetterdaten...',
+  'status.offline': 'Offline',
+  'status.updated': 'Aktualisiert {age}',
+  'status.refreshing': 'wird aktualisiert',
+  'age.justNow': 'gerade eben',
+  'age.minutes': 'vor {count} Min.',
+  'age.hours': 'vor {count} Std.',
+  'age.days': 'vor {count} T.',
+
+  'time.their': 'Ortszeit',
+  'time.mine': 'Meine Zeit',
+  'time.theirTitle': 'Zeiten in der Zeitzone von {name} anzeigen',
+  'time.mineTitle': 'Zeiten in deiner eigenen Zeitzone anzeigen',
+  'favorite.add': 'Ort speichern',
+  'favorite.remove': 'Aus Gespeicherten entfernen',
+  'temp.high': 'H: {value}',
+  'temp.low': 'T: {value}',
+
+  'insight.title': 'Smarte Analyse',
+  'insight.summary': 'Überblick',
+  'insight.plan': 'Plan',
+  'insight.analyzing': 'Atmosphäre wird analysiert...',
+  'insight.ttsOn': 'Analyse vorlesen',
+  'insight.ttsOff': 'Vorlesen ausschalten',
+  'scene.toggleOn': 'KI-Hintergründe einschalten ({used}/{budget} heute erstellt)',
+  'scene.toggleOff': 'KI-Hintergründe ausschalten ({used}/{budget} heute erstellt)',
+  'scene.off': 'KI-Szene aus',
+  'scene.rendering': 'Szene wird erstellt...',
+  'scene.live': 'Live-Szene erstellt',
+  'scene.standardQuota': 'Standardatmosphäre (Kontingent)',
+  'scene.standard': 'Standardatmosphäre',
+  'scene.resetsIn': 'Zurückgesetzt in {time}',
+  'scene.checking': 'Wird geprüft...',
+  'scene.retry': 'Kontingent prüfen / Erneut versuchen',
+
+  'metric.airQuality': 'Luftqualität',
+  'metric.airQualityDetails': 'Details zur Luftqualität',
+  'metric.wind': 'Wind',
+  'metric.direction': 'Richtung: {value}°',
+  'metric.humidity': 'Luftfeuchtigkeit',
+  'metric.dewPoint': 'Taupunkt: {value}',
+  'metric.uv': 'UV-Index',
+  'metric.uvVeryHigh': 'Sehr hoch',
+  'metric.uvHigh': 'Hoch',
+  'metric.uvModerate': 'Mäßig',
+  'metric.visibility': 'Sichtweite',
+  'metric.pressure': 'Luftdruck',
+  'metric.notAvailable': 'k. A.',
+
+  'hourly.title': 'Stündliche Vorhersage',
+  'hourly.chart': 'Diagramm',
+  'hourly.list': 'Liste',
+  'hourly.24h': '24 Std.',
+  'hourly.48h': '48 Std.',
+  'hourly.7d': '7 Tage',
+  'hourly.temp': 'Temp.: {value}',
+  'hourly.feels': 'gefühlt {value}',
+  'hourly.precip': 'Niederschlag: {value}',
+  'hourly.wind': 'Wind: {value}',
+  'daily.title': '{count}-Tage-Vorhersage',
+  'daily.range': '{count} T.',
+  'sun.sunrise': 'Sonnenaufgang',
+  'sun.sunset': 'Sonnenuntergang',
+  'sun.daylight': '{value} Tageslicht',
+  'sun.vsYesterday': '{value} gegenüber gestern',
+  'moon.illuminated': '{value} % beleuchtet',
+  'nowcast.title': 'Nächste 2 Stunden',
+  'time.now': 'Jetzt',
+  'nowcast.30m': '30 Min.',
+  'nowcast.1h': '1 Std.',
+  'nowcast.90m': '1½ Std.',
+  'nowcast.2h': '2 Std.',
+  'nowcast.dry': 'In den nächsten 2 Stunden kein Niederschlag erwartet.',
+  'nowcast.lightRain': 'Leichter Regen',
+  'nowcast.moderateRain': 'Mäßiger Regen',
+  'nowcast.heavyRain': 'Starker Regen',
+  'nowcast.lightSnow': 'Leichter Schneefall',
+  'nowcast.moderateSnow': 'Mäßiger Schneefall',
+  'nowcast.heavySnow': 'Starker Schneefall',
+  'nowcast.ongoing': '{label} für mindestens die nächsten 2 Stunden.',
+  'nowcast.stopping': '{label} jetzt, endet in ~{minutes} Min.',
+  'nowcast.startingLong': '{label} ab ~{minutes} Min., über die nächsten 2 Stunden hinaus.',
+  'nowcast.starting': '{label} ab ~{minutes} Min., für {duration} Min.',
+  'alert.dismiss': 'Ausblenden',
+  'focus.rain': 'Regen',
+  'focus.snow': 'Schnee',
+  'focus.compare': 'Im Vergleich mit',
+  'focus.beyond': 'Außerhalb des Vorhersagezeitraums',
+  'focus.notFound': 'Ort nicht gefunden',
+  'focus.clear': 'Entfernen',
+
+  'panel.close': 'Schließen',
+  'astro.title': 'Sonne & Mond',
+  'astro.note': 'Auf diesem Gerät aus den Koordinaten des Ortes berechnet; die Zeiten können um ein bis zwei Minuten von veröffentlichten Tabellen abweichen.',
+  'sun.solarNoon': 'Sonnenhöchststand',
+  'sun.dayLength': 'Tageslänge',
+  'sun.midnightSun': 'Mitternachtssonne: Die Sonne bleibt den ganzen Tag über dem Horizont.',
+  'sun.polarNight': 'Polarnacht: Die Sonne bleibt den ganzen Tag unter dem Horizont.',
+  'sun.photography': 'Licht zum Fotografieren',
+  'sun.morning': 'Morgens',
+  'sun.evening': 'Abends',
+  'sun.goldenHour': 'Goldene Stunde',
+  'sun.blueHour': 'Blaue Stunde',
+  'sun.twilight': 'Dämmerung',
+  'sun.dawn': 'Morgendämmerung',
+  'sun.dusk': 'Abenddämmerung',
+  'sun.civil': 'Bürgerlich',
+  'sun.nautical': 'Nautisch',
+  'sun.astronomical': 'Astronomisch',
+  'moon.title': 'Mond',
+  'moon.phase': 'Phase',
+  'moon.visibility': 'Sichtbarkeit',
+  'moon.alwaysUp': 'Den ganzen Tag sichtbar',
+  'moon.alwaysDown': 'Den ganzen Tag unter dem Horizont',
+  'moon.rise': 'Mondaufgang',
+  'moon.set': 'Monduntergang',
+  'moon.new': 'Neumond',
+  'moon.waxingCrescent': 'Zunehmende Sichel',
+  'moon.firstQuarter': 'Erstes Viertel',
+  'moon.waxingGibbous': 'Zunehmender Mond',
+  'moon.full': 'Vollmond',
+  'moon.waningGibbous': 'Abnehmender Mond',
+  'moon.lastQuarter': 'Letztes Viertel',
+  'moon.waningCrescent': 'Abnehmende Sichel',
+
+  'aqi.loadFailed': 'Luftqualitätsdaten konnten nicht geladen werden.',
+  'aqi.notAvailable': 'Hier nicht verfügbar',
+  'aqi.dominant': 'Hauptschadstoff: {name}',
+  'aqi.pollutants': 'Schadstoffe',
+  'aqi.forecast': 'Vorhersage',
+  'aqi.peak': 'Spitze {value} ({band}) · {time}',
+  'aqi.pollen': 'Pollen',
+  'aqi.grains': '{value} Pollenkörner/m³',
+  'aqi.pollenEurope': 'Pollenvorhersagen gibt es nur für Europa.',
+  'aqi.scaleUs': 'US-AQI',
+  'aqi.scaleEu': 'Europäischer AQI',
+  'aqi.good': 'Gut',
+  'aqi.fair': 'Akzeptabel',
+  'aqi.moderate': 'Mäßig',
+  'aqi.sensitive': 'Ungesund für Empfindliche',
+  'aqi.unhealthy': 'Ungesund',
+  'aqi.veryUnhealthy': 'Sehr ungesund',
+  'aqi.hazardous': 'Gefährlich',
+  'aqi.poor': 'Schlecht',
+  'aqi.veryPoor': 'Sehr schlecht',
+  'aqi.extremelyPoor': 'Extrem schlecht',
+  'pollutant.pm2_5': 'PM2,5',
+  'pollutant.pm10': 'PM10',
+  'pollutant.o3': 'Ozon',
+  'pollutant.no2': 'NO₂',
+  'pollutant.so2': 'SO₂',
+  'pollutant.co': 'CO',
+  'pollen.alder': 'Erle',
+  'pollen.birch': 'Birke',
+  'pollen.grass': 'Gräser',
+  'pollen.mugwort': 'Beifuß',
+  'pollen.olive': 'Olive',
+  'pollen.ragweed': 'Ambrosia',
+  'pollen.none': 'Keine',
+  'pollen.low': 'Niedrig',
+  'pollen.moderate': 'Mäßig',
+  'pollen.high': 'Hoch',
+  'pollen.veryHigh': 'Sehr hoch',
+
+  'history.title': 'Im Vergleich zu',
+  'history.normal': 'Normalwert',
+  'history.lastYear': 'Vorjahr',
+  'history.today': 'Heute',
+  'history.high': 'Höchstwert',
+  'history.low': 'Tiefstwert',
+  'history.precipitation': 'Niederschlag',
+  'history.noNormals': 'Für diesen Ort sind keine Klimanormalwerte verfügbar.',
+  'history.noArchive': 'Keine Archivdaten für dieses Datum im Vorjahr.',
+  'history.average': 'Etwa durchschnittlich für dieses Datum',
+  'history.warmer': '{value}° wärmer als der Durchschnitt {period} für dieses Datum',
+  'history.colder': '{value}° kälter als der Durchschnitt {period} für dieses Datum',
+
+  'plan.loading': 'Dein Tag wird geplant...',
+  'plan.empty': 'Noch keine Empfehlungen.',
+  'plan.wear': 'Kleidung',
+  'plan.umbrella': 'Regenschirm',
+  'plan.sunscreen': 'Sonnencreme',
+  'plan.mask': 'Maske',
+  'plan.bring': 'Mitnehmen',
+  'plan.notNeeded': 'Nicht nötig',
+  'plan.bestTime': 'Beste Zeit draußen: {start} – {end}',
+  'plan.noWindow': 'In den nächsten 24 Stunden gibt es keine angenehme Zeit draußen.',
+  'plan.rules': 'Regelbasierte Schätzung; Gemini war nicht verfügbar.',
+  'activity.running': 'Laufen',
+  'activity.cycling': 'Radfahren',
+  'activity.picnic': 'Picknick',
+  'plan.headsUp': 'Achtung: {cautions} in den nächsten 12 Stunden.',
+  'plan.calm': 'Ein unkomplizierter Tag ohne Wettersorgen in den nächsten 12 Stunden.',
+  'plan.cautionRain': 'Regen ist wahrscheinlich',
+  'plan.cautionGusty': 'es wird böig',
+  'plan.cautionAir': 'die Luftqualität ist schlecht',
+  'plan.noteCold': 'Zu kalt, um angenehm zu sein',
+  'plan.noteHot': 'Zu heiß; lass es ruhig angehen',
+  'plan.noteRain': 'Regen wahrscheinlich',
+  'plan.noteWind': 'Zu windig',
+  'plan.noteAir': 'Schlechte Luftqualität',
+  'plan.noteGreat': 'Beste Bedingungen',
+  'plan.noteDecent': 'Ordentliche Bedingungen',
+  'plan.noteNoForecast': 'Keine Vorhersage verfügbar',
+  'plan.reasonIdeal': 'Mild, trocken und ruhig',
+  'plan.reasonBest': 'Die angenehmste Zeit des Tages',
+  'wear.thermalBase': 'Thermo-Unterwäsche',
+  'wear.insulatedCoat': 'Gefütterter Wintermantel',
+  'wear.hatGlovesScarf': 'Mütze, Handschuhe und Schal',
+  'wear.warmBase': 'Warme Unterwäsche',
+  'wear.winterCoat': 'Wintermantel',
+  'wear.hatGloves': 'Mütze und Handschuhe',
+  'wear.longSleeves': 'Lange Ärmel',
+  'wear.sweater': 'Pullover oder Fleece',
+  'wear.warmJacket': 'Warme Jacke',
+  'wear.lightJacket': 'Leichte Jacke',
+  'wear.tShirt': 'T-Shirt',
+  'wear.lightSweater': 'Leichter Pullover',
+  'wear.breathable': 'Leichte, atmungsaktive Kleidung',
+  'wear.waterproof': 'Regenjacke',
+  'wear.windproof': 'Winddichte Außenschicht',
+
+  'threshold.title': 'Warnungen',
+  'threshold.heatIndex': 'Hitzeindex über',
+  'threshold.windChill': 'Windchill unter',
+  'threshold.gust': 'Böen über',
+  'threshold.snowfall': 'Schnee in 24 h über',
+  'threshold.uvIndex': 'UV-Index ab',
+  'threshold.aqi': 'US-AQI ab',
+  'threshold.reset': 'Auf Standard zurücksetzen',
+  'notify.browser': 'Browser-Benachrichtigungen',
+  'notify.blocked': 'Benachrichtigungen sind in den Browsereinstellungen blockiert.',
+  'notify.unsupported': 'Dieser Browser unterstützt keine Benachrichtigungen.',
+  'notify.schedule': 'Prüft gespeicherte Orte alle 15 Minuten auf neue Warnungen und bald einsetzenden Regen.',
+  'notify.quietHours': 'Ruhezeiten',
+  'notify.until': 'bis',
+
+  'alert.heat': 'Hitzehinweis',
+  'alert.heatSevere': 'Warnung vor extremer Hitze',
+  'alert.heatDetail': 'Hitzeindex bis {value}. Anstrengung im Freien begrenzen und viel trinken.',
+  'alert.cold': 'Windchill-Hinweis',
+  'alert.coldSevere': 'Warnung vor extremer Kälte',
+  'alert.coldDetail': 'Windchill bis {value}. Freiliegende Haut bedecken; Erfrierungen können schnell auftreten.',
+  'alert.wind': 'Windhinweis',
+  'alert.windSevere': 'Sturmwarnung',
+  'alert.windDetail': 'Böen bis {value}. Lose Gegenstände sichern und auf exponierten Straßen vorsichtig fahren.',
+  'alert.thunderstorm': 'Gewitter',
+  'alert.thunderstormSevere': 'Schwere Gewitter',
+  'alert.thunderstormDetail': 'Blitze erwartet. Freies Gelände meiden und drinnen bleiben, bis die Gewitter vorüber sind.',
+  'alert.freezingRain': 'Gefrierender Regen',
+  'alert.freezingRainSevere': 'Starker gefrierender Regen',
+  'alert.freezingRainDetail': 'Regen gefriert beim Auftreffen. Mit Glatteis auf Straßen und Gehwegen rechnen.',
+  'alert.snow': 'Schneehinweis',
+  'alert.snowSevere': 'Warnung vor starkem Schneefall',
+  'alert.snowDetail': 'Rund {depth} Schnee innerhalb von 24 Stunden erwartet. Mehr Zeit für Wege einplanen.',
+  'alert.uv': 'Sehr hohe UV-Belastung',
+  'alert.uvSevere': 'Extreme UV-Belastung',
+  'alert.uvDetail': 'UV-Index bis {value}. Mittags Schatten suchen und Sonnenschutz verwenden.',
+  'alert.airSensitive': 'Ungesunde Luft für empfindliche Gruppen',
+  'alert.air': 'Ungesunde Luft',
+  'alert.airSevere': 'Sehr ungesunde Luft',
+  'alert.airDetail': 'US-AQI {value} (PM2.5 {pm}). Längere Anstrengung im Freien reduzieren.',
+  'alert.airDetailSensitive': 'US-AQI {value} (PM2.5 {pm}). Empfindliche Personen sollten längere Anstrengung im Freien reduzieren.',
+  'notify.alertAt': '{title} in {place}',
+  'notify.rainSoon': 'Regen in {minutes} Min. in {place}',
+  'notify.snowSoon': 'Schnee in {minutes} Min. in {place}',
+
+  'saved.title': 'Gespeicherte Orte',
+  'saved.empty': 'Noch keine gespeicherten Orte',
+  'saved.emptyHint': 'Nutze den Stern auf der Wetterkarte einer Stadt, um sie hier hinzuzufügen.',
+  'saved.refreshAll': 'Alle aktualisieren',
+  'saved.refreshing': 'Wird aktualisiert...',
+  'saved.offline': 'Offline: Es werden die zuletzt gespeicherten Bedingungen angezeigt.',
+  'saved.failed': 'Gespeicherte Orte konnten nicht aktualisiert werden.',
+  'saved.moveLeft': 'Nach links',
+  'saved.moveRight': 'Nach rechts',
+  'saved.remove': 'Entfernen',
+
+  'units.title': 'Einheiten',
+  'units.temperature': 'Temperatur',
+  'units.wind': 'Wind',
+  'units.pressure': 'Luftdruck',
+  'units.precipitation': 'Niederschlag',
+  'units.distance': 'Entfernung',
+
+  'chat.open': 'Frag nach dem Wetter',
+  'chat.title': 'Wetterassistent',
+  'chat.reset': 'Neues Gespräch',
+  'chat.close': 'Schließen',
+  'chat.intro': 'Stelle Folgefragen zu {name} oder einem anderen Ort.',
+  'chat.introFallback': 'dem Wetter',
+  'chat.suggestion1': 'Wie wird Samstagnachmittag?',
+  'chat.suggestion2': 'Vergleiche mit Berlin',
+  'chat.suggestion3': 'Ist es heute wärmer als üblich?',
+  'chat.suggestion4': 'Wie ist die Luftqualität?',
+  'chat.thinking': 'Denke nach...',
+  'chat.placeholder': 'Stelle eine Folgefrage...',
+  'chat.noLocation': 'Suche zuerst nach einem Ort',
+  'chat.send': 'Senden',
+  'chat.toolForecast': 'Prüfe die Vorhersage',
+  'chat.toolAirQuality': 'Prüfe die Luftqualität',
+  'chat.toolHistory': 'Suche vergangenes Wetter',
+  'chat.toolOther': 'Schlage nach',
+  'chat.failed': 'Etwas ist schiefgelaufen.',
+
+  'voice.start': 'Freihändigen Sprachmodus starten',
+  'voice.stopMode': 'Sprachmodus beenden',
+  'voice.ready': 'Sprachmodus aktiv',
+  'voice.listening': 'Höre zu...',
+  'voice.thinking': 'Denke nach...',
+  'voice.speaking': 'Spreche...',
+  'voice.stop': 'Stopp',
+  'voice.notUnderstood': 'Entschuldige, ich habe keinen Ort und keine Frage verstanden, die ich beantworten kann.',
+  'voice.unsupported': 'Spracheingabe wird von diesem Browser nicht unterstützt. Tippe deine Frage stattdessen ein.',
+  'voice.noSynthesis': 'Dieser Browser kann Antworten nicht vorlesen; sie erscheinen stattdessen auf dem Bildschirm.',
+  'voice.denied': 'Der Mikrofonzugriff wurde verweigert. Erlaube ihn im Browser, um die Sprachsteuerung zu nutzen.',
+  'voice.failed': 'Die Spracheingabe wurde unerwartet beendet. Bitte versuche es erneut.',
+  'voice.settings': 'Stimmeinstellungen',
+  'voice.voice': 'Stimme',
+  'voice.auto': 'Automatisch',
+  'voice.rate': 'Tempo',
+  'voice.pitch': 'Tonhöhe',
+  'voice.test': 'Stimme testen',
+  'voice.sample': 'So klingen deine Wetter-Updates.',
+
+  'ai.insightBudget': 'Die smarten Analysen für heute sind aufgebraucht. Morgen gibt es wieder welche.',
+  'ai.insightNoKey': 'Gemini ist auf dem Server noch nicht eingerichtet. Setze GEMINI_API_KEY in seiner Umgebung, um smarte Analysen zu erhalten.',
+  'ai.insightBusy': 'Gerade kommen zu viele Anfragen an. Schau gleich noch einmal nach deiner Analyse!',
+  'ai.insightOffline': 'Gemini ist wegen atmosphärischer Störungen offline (API-Fehler).',
+  'ai.chatBudget': 'Das Tageslimit des Assistenten ist erreicht. Es wird um Mitternacht zurückgesetzt.',
+  'ai.chatBusy': 'Gerade kommen zu viele Anfragen an. Bitte versuche es gleich noch einmal.',
+  'ai.chatNoKey': 'Der Assistent ist auf dem Server noch nicht eingerichtet.',
+  'ai.chatUnavailable': 'Der Assistent ist gerade nicht verfügbar.',
+  'ai.chatEmpty': 'Entschuldige, darauf habe ich keine Antwort gefunden.',
+
+  'footer.poweredBy': 'Unterstützt von Gemini, Open-Meteo & React'
+};
+
+export const weatherCodes: Record<number, string> = {
+  0: 'Klarer Himmel',
+  1: 'Überwiegend klar', 2: 'Teilweise bewölkt', 3: 'Bedeckt',
+  45: 'Nebel', 48: 'Nebel mit Reifbildung',
+  51: 'Leichter Nieselregen', 53: 'Mäßiger Nieselregen', 55: 'Starker Nieselregen',
+  56: 'Leichter gefrierender Nieselregen', 57: 'Starker gefrierender Nieselregen',
+  61: 'Leichter Regen', 63: 'Mäßiger Regen', 65: 'Starker Regen',
+  66: 'Leichter gefrierender Regen', 67: 'Starker gefrierender Regen',
+  71: 'Leichter Schneefall', 73: 'Mäßiger Schneefall', 75: 'Starker Schneefall',
+  77: 'Schneegriesel',
+  80: 'Leichte Regenschauer', 81: 'Mäßige Regenschauer', 82: 'Heftige Regenschauer',
+  85: 'Leichte Schneeschauer', 86: 'Starke Schneeschauer',
+  95: 'Gewitter', 96: 'Gewitter mit leichtem Hagel', 99: 'Gewitter mit starkem Hagel'
+};
@@ -0,0 +1,396 @@
+// English is the reference locale: every other locale must define exactly these keys.
+// `{name}` placeholders are filled in by t() in services/i18n.ts.
+
+export const messages = {
+  // Header and search
+  'search.placeholder': 'Search city or lat,lon...',
+  'search.listening': 'Listening...',
+  'search.voice': 'Push to talk',
+  'search.cityNotFound': "City '{city}' not found.",
+  'search.failed': 'Could not search for that city.',
+  'search.whichPlace': 'Which "{query}" did you mean?',
+  'header.saved': 'Saved locations',
+  'header.locate': 'Use my location',
+  'header.units': 'Units',
+  'header.alerts': 'Alerts & notifications',
+  'header.language': 'Language',
+
+  // Errors
+  'error.offlineNoData': "You're offline and there is no saved data for this location yet.",
+  'error.noWeather': 'Could not find weather data. Please try another city.',
+  'error.geolocationUnavailable': 'Location is not available in this browser. Try pasting coordinates like 48.85,2.35.',
+  'error.geolocationDenied': 'Location access was denied. Allow it in your browser or search by city or coordinates.',
+  'error.geolocationFailed': 'Could not determine your location. Please try again.',
+
+  // Status
+  'status.scanning': 'Scanning atmospheric data...',
+  'status.waiting': 'Waiting for sky data...',
+  'status.offline': 'Offline',
+  'status.updated': 'Updated {age}',
+  'status.refreshing': 'refreshing',
+  'age.justNow': 'just now',
+  'age.minutes': '{count} min ago',
+  'age.hours': '{count} h ago',
+  'age.days': '{count} d ago',
+
+  // Current conditions
+  'time.their': 'Their time',
+  'time.mine': 'My time',
+  'time.theirTitle': "Show times in {name}'s time zone",
+  'time.mineTitle': 'Show times in your own time zone',
+  'favorite.add': 'Save location',
+  'favorite.remove': 'Remove from saved',
+  'temp.high': 'H: {value}',
+  'temp.low': 'L: {value}',
+
+  // Smart analysis
+  'insight.title': 'Smart Analysis',
+  'insight.summary': 'Summary',
+  'insight.plan': 'Plan',
+  'insight.analyzing': 'Analyzing atmosphere...',
+  'insight.ttsOn': 'Read insights aloud',
+  'insight.ttsOff': 'Turn off read-aloud',
+  'scene.toggleOn': 'Turn on AI backgrounds ({used}/{budget} generated today)',
+  'scene.toggleOff': 'Turn off AI backgrounds ({used}/{budget} generated today)',
+  'scene.off': 'AI scene off',
+  'scene.rendering': 'Rendering scene...',
+  'scene.live': 'Live scene generated',
+  'scene.standardQuota': 'Standard atmosphere (Quota)',
+  'scene.standard': 'Standard atmosphere',
+  'scene.resetsIn': 'Resets in {time}',
+  'scene.checking': 'Checking...',
+  'scene.retry': 'Check Quota / Retry',
+
+  // Metric cards
+  'metric.airQuality': 'Air Quality',
+  'metric.airQualityDetails': 'Air quality details',
+  'metric.wind': 'Wind',
+  'metric.direction': 'Direction: {value}°',
+  'metric.humidity': 'Humidity',
+  'metric.dewPoint': 'Dew Point: {value}',
+  'metric.uv': 'UV Index',
+  'metric.uvVeryHigh': 'Very High',
+  'metric.uvHigh': 'High',
+  'metric.uvModerate': 'Moderate',
+  'metric.visibility': 'Visibility',
+  'metric.pressure': 'Pressure',
+  'metric.notAvailable': 'N/A',
+
+  // Forecast sections
+  'hourly.title': 'Hourly Forecast',
+  'hourly.chart': 'Chart',
+  'hourly.list': 'List',
+  'hourly.24h': '24h',
+  'hourly.48h': '48h',
+  'hourly.7d': '7 days',
+  'hourly.temp': 'Temp: {value}',
+  'hourly.feels': 'feels {value}',
+  'hourly.precip': 'Precip: {value}',
+  'hourly.wind': 'Wind: {value}',
+  'daily.title': '{count}-Day Outlook',
+  'daily.range': '{count}d',
+  'sun.sunrise': 'Sunrise',
+  'sun.sunset': 'Sunset',
+  'sun.daylight': '{value} of daylight',
+  'sun.vsYesterday': '{value} vs yesterday',
+  'moon.illuminated': '{value}% illuminated',
+  'nowcast.title': 'Next 2 Hours',
+  'time.now': 'Now',
+  'nowcast.30m': '30m',
+  'nowcast.1h': '1h',
+  'nowcast.90m': '1h30',
+  'nowcast.2h': '2h',
+  'nowcast.dry': 'No precipitation expected in the next 2 hours.',
+  'nowcast.lightRain': 'Light rain',
+  'nowcast.moderateRain': 'Moderate rain',
+  'nowcast.heavyRain': 'Heavy rain',
+  'nowcast.lightSnow': 'Light snow',
+  'nowcast.moderateSnow': 'Moderate snow',
+  'nowcast.heavySnow': 'Heavy snow',
+  'nowcast.ongoing': '{label} for at least the next 2 hours.',
+  'nowcast.stopping': '{label} now, stopping in ~{minutes} min.',
+  'nowcast.startingLong': '{label} starting in ~{minutes} min, lasting beyond the next 2 hours.',
+  'nowcast.starting': '{label} starting in ~{minutes} min, lasting {duration} min.',
+  'alert.dismiss': 'Dismiss',
+  'focus.rain': 'Rain',
+  'focus.snow': 'Snow',
+  'focus.compare': 'Compared with',
+  'focus.beyond': 'Beyond the forecast range',
+  'focus.notFound': 'Place not found',
+  'focus.clear': 'Clear',
+
+  // Sun and moon
+  'panel.close': 'Close',
+  'astro.title': 'Sun & Moon',
+  'astro.note': "Calculated on this device from the location's coordinates; times may differ by a minute or two from published tables.",
+  'sun.solarNoon': 'Solar noon',
+  'sun.dayLength': 'Day length',
+  'sun.midnightSun': 'Midnight sun: the sun stays above the horizon all day.',
+  'sun.polarNight': 'Polar night: the sun stays below the horizon all day.',
+  'sun.photography': 'Light for photography',
+  'sun.morning': 'Morning',
+  'sun.evening': 'Evening',
+  'sun.goldenHour': 'Golden hour',
+  'sun.blueHour': 'Blue hour',
+  'sun.twilight': 'Twilight',
+  'sun.dawn': 'Dawn',
+  'sun.dusk': 'Dusk',
+  'sun.civil': 'Civil',
+  'sun.nautical': 'Nautical',
+  'sun.astronomical': 'Astronomical',
+  'moon.title': 'Moon',
+  'moon.phase': 'Phase',
+  'moon.visibility': 'Visibility',
+  'moon.alwaysUp': 'Up all day',
+  'moon.alwaysDown': 'Below the horizon all day',
+  'moon.rise': 'Moonrise',
+  'moon.set': 'Moonset',
+  'moon.new': 'New Moon',
+  'moon.waxingCrescent': 'Waxing Crescent',
+  'moon.firstQuarter': 'First Quarter',
+  'moon.waxingGibbous': 'Waxing Gibbous',
+  'moon.full': 'Full Moon',
+  'moon.waningGibbous': 'Waning Gibbous',
+  'moon.lastQuarter': 'Last Quarter',
+  'moon.waningCrescent': 'Waning Crescent',
+
+  // Air quality
+  'aqi.loadFailed': 'Could not load air quality data.',
+  'aqi.notAvailable': 'Not available here',
+  'aqi.dominant': 'Dominant pollutant: {name}',
+  'aqi.pollutants': 'Pollutants',
+  'aqi.forecast': 'Forecast',
+  'aqi.peak': 'Peak {value} ({band}) · {time}',
+  'aqi.pollen': 'Pollen',
+  'aqi.grains': '{value} grains/m³',
+  'aqi.pollenEurope': 'Pollen forecasts are only published for Europe.',
+  'aqi.scaleUs': 'US AQI',
+  'aqi.scaleEu': 'European AQI',
+  'aqi.good': 'Good',
+  'aqi.fair': 'Fair',
+  'aqi.moderate': 'Moderate',
+  'aqi.sensitive': 'Unhealthy for Sensitive',
+  'aqi.unhealthy': 'Unhealthy',
+  'aqi.veryUnhealthy': 'Very Unhealthy',
+  'aqi.hazardous': 'Hazardous',
+  'aqi.poor': 'Poor',
+  'aqi.veryPoor': 'Very Poor',
+  'aqi.extremelyPoor': 'Extremely Poor',
+  'pollutant.pm2_5': 'PM2.5',
+  'pollutant.pm10': 'PM10',
+  'pollutant.o3': 'Ozone',
+  'pollutant.no2': 'NO₂',
+  'pollutant.so2': 'SO₂',
+  'pollutant.co': 'CO',
+  'pollen.alder': 'Alder',
+  'pollen.birch': 'Birch',
+  'pollen.grass': 'Grass',
+  'pollen.mugwort': 'Mugwort',
+  'pollen.olive': 'Olive',
+  'pollen.ragweed': 'Ragweed',
+  'pollen.none': 'None',
+  'pollen.low': 'Low',
+  'pollen.moderate': 'Moderate',
+  'pollen.high': 'High',
+  'pollen.veryHigh': 'Very high',
+
+  // History
+  'history.title': 'Compared to',
+  'history.normal': 'Normal',
+  'history.lastYear': 'Last year',
+  'history.today': 'Today',
+  'history.high': 'High',
+  'history.low': 'Low',
+  'history.precipitation': 'Precipitation',
+  'history.noNormals': 'Climate normals are not available for this location.',
+  'history.noArchive': 'No archive data for this date last year.',
+  'history.average': 'About average for this date',
+  'history.warmer': '{value}° warmer than the {period} average for this date',
+  'history.colder': '{value}° colder than the {period} average for this date',
+
+  // Recommendations
+  'plan.loading': 'Planning your day...',
+  'plan.empty': 'No recommendations yet.',
+  'plan.wear': 'Wear',
+  'plan.umbrella': 'Umbrella',
+  'plan.sunscreen': 'Sunscreen',
+  'plan.mask': 'Mask',
+  'plan.bring': 'Bring',
+  'plan.notNeeded': 'Not needed',
+  'plan.bestTime': 'Best time outside: {start} – {end}',
+  'plan.noWindow': 'No pleasant stretch outdoors in the next 24 hours.',
+  'plan.rules': 'Rule-based estimate; Gemini was unavailable.',
+  'activity.running': 'Running',
+  'activity.cycling': 'Cycling',
+  'activity.picnic': 'Picnic',
+  'plan.headsUp': 'Heads up: {cautions} over the next 12 hours.',
+  'plan.calm': 'A straightforward day with no weather worries over the next 12 hours.',
+  'plan.cautionRain': 'rain is likely',
+  'plan.cautionGusty': 'it will be gusty',
+  'plan.cautionAir': 'the air quality is poor',
+  'plan.noteCold': 'Too cold to be comfortable',
+  'plan.noteHot': 'Too hot; take it easy',
+  'plan.noteRain': 'Rain is likely',
+  'plan.noteWind': 'Too windy',
+  'plan.noteAir': 'Poor air quality',
+  'plan.noteGreat': 'Great conditions',
+  'plan.noteDecent': 'Decent conditions',
+  'plan.noteNoForecast': 'No forecast available',
+  'plan.reasonIdeal': 'Mild, dry and calm',
+  'plan.reasonBest': 'The most comfortable stretch of the day',
+  'wear.thermalBase': 'Thermal base layer',
+  'wear.insulatedCoat': 'Insulated winter coat',
+  'wear.hatGlovesScarf': 'Hat, gloves and scarf',
+  'wear.warmBase': 'Warm base layer',
+  'wear.winterCoat': 'Winter coat',
+  'wear.hatGloves': 'Hat and gloves',
+  'wear.longSleeves': 'Long sleeves',
+  'wear.sweater': 'Sweater or fleece',
+  'wear.warmJacket': 'Warm jacket',
+  'wear.lightJacket': 'Light jacket',
+  'wear.tShirt': 'T-shirt',
+  'wear.lightSweater': 'Light sweater',
+  'wear.breathable': 'Light, breathable clothing',
+  'wear.waterproof': 'Waterproof shell',
+  'wear.windproof': 'Windproof outer layer',
+
+  // Alert settings
+  'threshold.title': 'Alerts',
+  'threshold.heatIndex': 'Heat index above',
+  'threshold.windChill': 'Wind chill below',
+  'threshold.gust': 'Gusts above',
+  'threshold.snowfall': 'Snow in 24h above',
+  'threshold.uvIndex': 'UV index from',
+  'threshold.aqi': 'US AQI from',
+  'threshold.reset': 'Reset to defaults',
+  'notify.browser': 'Browser notifications',
+  'notify.blocked': 'Notifications are blocked in your browser settings.',
+  'notify.unsupported': 'This browser does not support notifications.',
+  'notify.schedule': 'Checks saved locations every 15 minutes for new alerts and rain about to start.',
+  'notify.quietHours': 'Quiet hours',
+  'notify.until': 'to',
+
+  // Alerts and notifications
+  'alert.heat': 'Heat advisory',
+  'alert.heatSevere': 'Extreme heat warning',
+  'alert.heatDetail': 'Heat index up to {value}. Limit exertion outdoors and stay hydrated.',
+  'alert.cold': 'Wind chill advisory',
+  'alert.coldSevere': 'Extreme cold warning',
+  'alert.coldDetail': 'Wind chill down to {value}. Cover exposed skin; frostbite can set in quickly.',
+  'alert.wind': 'Wind advisory',
+  'alert.windSevere': 'High wind warning',
+  'alert.windDetail': 'Gusts up to {value}. Secure loose objects and take care on exposed roads.',
+  'alert.thunderstorm': 'Thunderstorms',
+  'alert.thunderstormSevere': 'Severe thunderstorms',
+  'alert.thunderstormDetail': 'Lightning expected. Avoid open ground and stay indoors while storms pass.',
+  'alert.freezingRain': 'Freezing rain',
+  'alert.freezingRainSevere': 'Heavy freezing rain',
+  'alert.freezingRainDetail': 'Rain freezing on contact. Expect black ice on roads and pavements.',
+  'alert.snow': 'Snow advisory',
+  'alert.snowSevere': 'Heavy snow warning',
+  'alert.snowDetail': 'Around {depth} of snow expected within 24 hours. Allow extra travel time.',
+  'alert.uv': 'Very high UV',
+  'alert.uvSevere': 'Extreme UV',
+  'alert.uvDetail': 'UV index up to {value}. Seek shade around midday and use sunscreen.',
+  'alert.airSensitive': 'Unhealthy air for sensitive groups',
+  'alert.air': 'Unhealthy air',
+  'alert.airSevere': 'Very unhealthy air',
+  'alert.airDetail': 'US AQI {value} (PM2.5 {pm}). Reduce prolonged outdoor exertion.',
+  'alert.airDetailSensitive': 'US AQI {value} (PM2.5 {pm}). Reduce prolonged outdoor exertion if you are sensitive.',
+  'notify.alertAt': '{title} at {place}',
+  'notify.rainSoon': 'Rain in {minutes} min at {place}',
+  'notify.snowSoon': 'Snow in {minutes} min at {place}',
+
+  // Saved locations
+  'saved.title': 'Saved Locations',
+  'saved.empty': 'No saved locations yet',
+  'saved.emptyHint': "Use the star on a city's weather card to add it here.",
+  'saved.refreshAll': 'Refresh all',
+  'saved.refreshing': 'Refreshing...',
+  'saved.offline': 'Offline: showing the last saved conditions.',
+  'saved.failed': 'Could not refresh saved locations.',
+  'saved.moveLeft': 'Move left',
+  'saved.moveRight': 'Move right',
+  'saved.remove': 'Remove',
+
+  // Units menu
+  'units.title': 'Units',
+  'units.temperature': 'Temperature',
+  'units.wind': 'Wind',
+  'units.pressure': 'Pressure',
+  'units.precipitation': 'Precipitation',
+  'units.distance': 'Distance',
+
+  // Assistant
+  'chat.open': 'Ask about the weather',
+  'chat.title': 'Weather Assistant',
+  'chat.reset': 'New conversation',
+  'chat.close': 'Close',
+  'chat.intro': 'Ask follow-up questions about {name}, or any other place.',
+  'chat.introFallback': 'the weather',
+  'chat.suggestion1': 'What about Saturday afternoon?',
+  'chat.suggestion2': 'Compare with Mumbai',
+  'chat.suggestion3': 'Is today warmer than usual?',
+  'chat.suggestion4': 'How is the air quality?',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Ask a follow-up...',
+  'chat.noLocation': 'Search for a location first',
+  'chat.send': 'Send',
+  'chat.toolForecast': 'Checking the forecast',
+  'chat.toolAirQuality': 'Checking air quality',
+  'chat.toolHistory': 'Looking up past weather',
+  'chat.toolOther': 'Looking things up',
+  'chat.failed': 'Something went wrong.',
+
+  // Voice
+  'voice.start': 'Start hands-free voice mode',
+  'voice.stopMode': 'Stop voice mode',
+  'voice.ready': 'Voice mode on',
+  'voice.listening': 'Listening...',
+  'voice.thinking': 'Thinking...',
+  'voice.speaking': 'Speaking...',
+  'voice.stop': 'Stop',
+  'voice.notUnderstood': "Sorry, I didn't catch a place or a question I can answer.",
+  'voice.unsupported': "Voice input isn't supported in this browser. Type your question instead.",
+  'voice.noSynthesis': "This browser can't read answers aloud; they will appear on screen instead.",
+  'voice.denied': 'Microphone access was denied. Allow it in your browser to use voice.',
+  'voice.failed': 'Voice input stopped unexpectedly. Please try again.',
+  'voice.settings': 'Voice settings',
+  'voice.voice': 'Voice',
+  'voice.auto': 'Automatic',
+  'voice.rate': 'Speed',
+  'voice.pitch': 'Pitch',
+  'voice.test': 'Test voice',
+  'voice.sample': 'This is how your weather updates will sound.',
+
+  // Gemini fallbacks
+  'ai.insightBudget': "You've used today's smart insights. They'll be back tomorrow.",
+  'ai.insightNoKey': "Gemini isn't set up on the server yet. Add GEMINI_API_KEY to its environment to get smart insights.",
+  'ai.insightBusy': "I'm currently receiving too many requests. Please check back in a moment for your smart insights!",
+  'ai.insightOffline': 'Gemini is currently offline due to atmospheric interference (API Error).',
+  'ai.chatBudget': "You've reached today's limit for the assistant. It resets at midnight.",
+  'ai.chatBusy': "I'm currently receiving too many requests. Please try again in a moment.",
+  'ai.chatNoKey': "The assistant isn't set up on the server yet.",
+  'ai.chatUnavailable': 'The assistant is unavailable right now.',
+  'ai.chatEmpty': "Sorry, I couldn't come up with an answer to that.",
+
+  'footer.poweredBy': 'Powered by Gemini, Open-Meteo & React'
+};
+
+export type MessageKey = keyof typeof messages;
+export type Messages = Record<MessageKey, string>;
+
+export const weatherCodes: Record<number, string> = {
+  0: 'Clear sky',
+  1: 'Mainly clear', 2: 'Partly cloudy', 3: 'Overcast',
+  45: 'Fog', 48: 'Depositing rime fog',
+  51: 'Light drizzle', 53: 'Moderate drizzle', 55: 'Dense drizzle',
+  56: 'Light freezing drizzle', 57: 'Dense freezing drizzle',
+  61: 'Slight rain', 63: 'Moderate rain', 65: 'Heavy rain',
+  66: 'Light freezing rain', 67: 'Heavy freezing rain',
+  71: 'Slight snow', 73: 'Moderate snow', 75: 'Heavy snow',
+  77: 'Snow grains',
+  80: 'Slight rain showers', 81: 'Moderate rain showers', 82: 'Violent rain showers',
+  85: 'Slight snow showers', 86: 'Heavy snow showers',
+  95: 'Thunderstorm', 96: 'Thunderstorm with slight hail', 99: 'Thunderstorm with heavy hail'
+};
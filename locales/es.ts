@@ -0,0 +1,374 @@
+import type { Messages } from './en';
+
+export const messages: Messages = {
+  'search.placeholder': 'Busca una ciudad o lat,lon...',
+  'search.listening': 'Escuchando...',
+  'search.voice': 'Pulsa para hablar',
+  'search.cityNotFound': "No se encontró la ciudad '{city}'.",
+  'search.failed': 'No se pudo buscar esa ciudad.',
+  'search.whichPlace': '¿A qué "{query}" te refieres?',
+  'header.saved': 'Ubicaciones guardadas',
+  'header.locate': 'Usar mi ubicación',
+  'header.units': 'Unidades',
+  'header.alerts': 'Alertas y notificaciones',
+  'header.language': 'Idioma',
+
+  'error.offlineNoData': 'Estás sin conexión y todavía no hay datos guardados para esta ubicación.',
+  'error.noWeather': 'No se encontraron datos meteorológicos. Prueba con otra ciudad.',
+  'error.geolocationUnavailable': 'La ubicación no está disponible en este navegador. Prueba a pegar coordenadas como 48.85,2.35.',
+  'error.geolocationDenied': 'Se denegó el acceso a la ubicación. Permítelo en el navegador o busca por ciudad o coordenadas.',
+  'error.geolocationFailed': 'No se pudo determinar tu ubicación. Inténtalo de nuevo.',
+
+  'status.scanning': 'Analizando datos atmosféricos...',
+  'status.waiting': 'Esperando datos del cielo...',
+  'status.offline': 'Sin conexión',
+  'status.updated': 'Actualizado {age}',
+  'status.refreshing': 'actualizando',
+  'age.justNow': 'ahora mismo',
+  'age.minutes': 'hace {count} min',
+  'age.hours': 'hace {count} h',
+  'age.days': 'hace {count} d',
+
+  'time.their': 'Hora local',
+  'time.mine': 'Mi hora',
+  'time.theirTitle': 'Mostrar las horas en la zona horaria de {name}',
+  'time.mineTitle': 'Mostrar las horas en tu zona horaria',
+  'favorite.add': 'Guardar ubicación',
+  'favorite.remove': 'Quitar de guardadas',
+  'temp.high': 'Máx: {value}',
+  'temp.low': 'Mín: {value}',
+
+  'insight.title': 'Análisis inteligente',
+  'insight.summary': 'Resumen',
+  'insight.plan': 'Plan',
+  'insight.analyzing': 'Analizando la atmósfera...',
+  'insight.ttsOn': 'Leer el análisis en voz alta',
+  'insight.ttsOff': 'Desactivar la lectura en voz alta',
+  'scene.toggleOn': 'Activar fondos con IA ({used}/{budget} generados hoy)',
+  'scene.toggleOff': 'Desactivar fondos con IA ({used}/{budget} generados hoy)',
+  'scene.off': 'Escena IA desactivada',
+  'scene.rendering': 'Generando escena...',
+  'scene.live': 'Escena en vivo generada',
+  'scene.standardQuota': 'Ambiente estándar (cuota)',
+  'scene.standard': 'Ambiente estándar',
+  'scene.resetsIn': 'Se restablece en {time}',
+  'scene.checking': 'Comprobando...',
+  'scene.retry': 'Comprobar cuota / Reintentar',
+
+  'metric.airQuality': 'Calidad del aire',
+  'metric.airQualityDetails': 'Detalles de la calidad del aire',
+  'metric.wind': 'Viento',
+  'metric.direction': 'Dirección: {value}°',
+  'metric.humidity': 'Humedad',
+  'metric.dewPoint': 'Punto de rocío: {value}',
+  'metric.uv': 'Índice UV',
+  'metric.uvVeryHigh': 'Muy alto',
+  'metric.uvHigh': 'Alto',
+  'metric.uvModerate': 'Moderado',
+  'metric.visibility': 'Visibilidad',
+  'metric.pressure': 'Presión',
+  'metric.notAvailable': 'N/D',
+
+  'hourly.title': 'Pronóstico por horas',
+  'hourly.chart': 'Gráfico',
+  'hourly.list': 'Lista',
+  'hourly.24h': '24 h',
+  'hourly.48h': '48 h',
+  'hourly.7d': '7 días',
+  'hourly.temp': 'Temp.: {value}',
+  'hourly.feels': 'sensación {value}',
+  'hourly.precip': 'Precip.: {value}',
+  'hourly.wind': 'Viento: {value}',
+  'daily.title': 'Pronóstico de {count} días',
+  'daily.range': '{count} d',
+  'sun.sunrise': 'Amanecer',
+  'sun.sunset': 'Atardecer',
+  'sun.daylight': '{value} de luz diurna',
+  'sun.vsYesterday': '{value} respecto a ayer',
+  'moon.illuminated': '{value}% iluminada',
+  'nowcast.title': 'Próximas 2 horas',
+  'time.now': 'Ahora',
+  'nowcast.30m': '30 min',
+  'nowcast.1h': '1 h',
+  'nowcast.90m': '1 h 30',
+  'nowcast.2h': '2 h',
+  'nowcast.dry': 'No se espera precipitación en las próximas 2 horas.',
+  'nowcast.lightRain': 'Lluvia ligera',
+  'nowcast.moderateRain': 'Lluvia moderada',
+  'nowcast.heavyRain': 'Lluvia intensa',
+  'nowcast.lightSnow': 'Nieve ligera',
+  'nowcast.moderateSnow': 'Nieve moderada',
+  'nowcast.heavySnow': 'Nieve intensa',
+  'nowcast.ongoing': '{label} durante al menos las próximas 2 horas.',
+  'nowcast.stopping': '{label} ahora, parará en ~{minutes} min.',
+  'nowcast.startingLong': '{label} a partir de ~{minutes} min, más allá de las próximas 2 horas.',
+  'nowcast.starting': '{label} a partir de ~{minutes} min, durante {duration} min.',
+  'alert.dismiss': 'Descartar',
+  'focus.rain': 'Lluvia',
+  'focus.snow': 'Nieve',
+  'focus.compare': 'Comparado con',
+  'focus.beyond': 'Fuera del alcance del pronóstico',
+  'focus.notFound': 'Lugar no encontrado',
+  'focus.clear': 'Quitar',
+
+  'panel.close': 'Cerrar',
+  'astro.title': 'Sol y Luna',
+  'astro.note': 'Calculado en este dispositivo a partir de las coordenadas del lugar; las horas pueden diferir uno o dos minutos de las tablas publicadas.',
+  'sun.solarNoon': 'Mediodía solar',
+  'sun.dayLength': 'Duración del día',
+  'sun.midnightSun': 'Sol de medianoche: el sol permanece sobre el horizonte todo el día.',
+  'sun.polarNight': 'Noche polar: el sol permanece bajo el horizonte todo el día.',
+  'sun.photography': 'Luz para fotografía',
+  'sun.morning': 'Mañana',
+  'sun.evening': 'Tarde',
+  'sun.goldenHour': 'Hora dorada',
+  'sun.blueHour': 'Hora azul',
+  'sun.twilight': 'Crepúsculo',
+  'sun.dawn': 'Alba',
+  'sun.dusk': 'Anochecer',
+  'sun.civil': 'Civil',
+  'sun.nautical': 'Náutico',
+  'sun.astronomical': 'Astronómico',
+  'moon.title': 'Luna',
+  'moon.phase': 'Fase',
+  'moon.visibility': 'Visibilidad',
+  'moon.alwaysUp': 'Visible todo el día',
+  'moon.alwaysDown': 'Bajo el horizonte todo el día',
+  'moon.rise': 'Salida de la luna',
+  'moon.set': 'Puesta de la luna',
+  'moon.new': 'Luna nueva',
+  'moon.waxingCrescent': 'Luna creciente',
+  'moon.firstQuarter': 'Cuarto creciente',
+  'moon.waxingGibbous': 'Gibosa creciente',
+  'moon.full': 'Luna llena',
+  'moon.waningGibbous': 'Gibosa menguante',
+  'moon.lastQuarter': 'Cuarto menguante',
+  'moon.waningCrescent': 'Luna menguante',
+
+  'aqi.loadFailed': 'No se pudieron cargar los datos de calidad del aire.',
+  'aqi.notAvailable': 'No disponible aquí',
+  'aqi.dominant': 'Contaminante principal: {name}',
+  'aqi.pollutants': 'Contaminantes',
+  'aqi.forecast': 'Pronóstico',
+  'aqi.peak': 'Máximo {value} ({band}) · {time}',
+  'aqi.pollen': 'Polen',
+  'aqi.grains': '{value} granos/m³',
+  'aqi.pollenEurope': 'Las previsiones de polen solo se publican para Europa.',
+  'aqi.scaleUs': 'AQI de EE. UU.',
+  'aqi.scaleEu': 'AQI europeo',
+  'aqi.good': 'Buena',
+  'aqi.fair': 'Aceptable',
+  'aqi.moderate': 'Moderada',
+  'aqi.sensitive': 'Dañina para sensibles',
+  'aqi.unhealthy': 'Dañina',
+  'aqi.veryUnhealthy': 'Muy dañina',
+  'aqi.hazardous': 'Peligrosa',
+  'aqi.poor': 'Mala',
+  'aqi.veryPoor': 'Muy mala',
+  'aqi.extremelyPoor': 'Extremadamente mala',
+  'pollutant.pm2_5': 'PM2,5',
+  'pollutant.pm10': 'PM10',
+  'pollutant.o3': 'Ozono',
+  'pollutant.no2': 'NO₂',
+  'pollutant.so2': 'SO₂',
+  'pollutant.co': 'CO',
+  'pollen.alder': 'Aliso',
+  'pollen.birch': 'Abedul',
+  'pollen.grass': 'Gramíneas',
+  'pollen.mugwort': 'Artemisa',
+  'pollen.olive': 'Olivo',
+  'pollen.ragweed': 'Ambrosía',
+  'pollen.none': 'Nulo',
+  'pollen.low': 'Bajo',
+  'pollen.moderate': 'Moderado',
+  'pollen.high': 'Alto',
+  'pollen.veryHigh': 'Muy alto',
+
+  'history.title': 'Comparado con',
+  'history.normal': 'Normal',
+  'history.lastYear': 'Año pasado',
+  'history.today': 'Hoy',
+  'history.high': 'Máxima',
+  'history.low': 'Mínima',
+  'history.precipitation': 'Precipitación',
+  'history.noNormals': 'No hay normales climáticas para esta ubicación.',
+  'history.noArchive': 'No hay datos de archivo para esta fecha del año pasado.',
+  'history.average': 'En torno a la media para esta fecha',
+  'history.warmer': '{value}° más cálido que la media de {period} para esta fecha',
+  'history.colder': '{value}° más frío que la media de {period} para esta fecha',
+
+  'plan.loading': 'Planificando tu día...',
+  'plan.empty': 'Todavía no hay recomendaciones.',
+  'plan.wear': 'Ropa',
+  'plan.umbrella': 'Paraguas',
+  'plan.sunscreen': 'Protector solar',
+  'plan.mask': 'Mascarilla',
+  'plan.bring': 'Llévalo',
+  'plan.notNeeded': 'No hace falta',
+  'plan.bestTime': 'Mejor momento para salir: {start} – {end}',
+  'plan.noWindow': 'No hay ningún rato agradable al aire libre en las próximas 24 horas.',
+  'plan.rules': 'Estimación por reglas; Gemini no estaba disponible.',
+  'activity.running': 'Correr',
+  'activity.cycling': 'Ciclismo',
+  'activity.picnic': 'Pícnic',
+  'plan.headsUp': 'Atención: {cautions} en las próximas 12 horas.',
+  'plan.calm': 'Un día tranquilo, sin preocupaciones meteorológicas en las próximas 12 horas.',
+  'plan.cautionRain': 'es probable que llueva',
+  'plan.cautionGusty': 'habrá rachas de viento',
+  'plan.cautionAir': 'la calidad del aire es mala',
+  'plan.noteCold': 'Demasiado frío para estar cómodo',
+  'plan.noteHot': 'Demasiado calor; tómatelo con calma',
+  'plan.noteRain': 'Probable lluvia',
+  'plan.noteWind': 'Demasiado viento',
+  'plan.noteAir': 'Mala calidad del aire',
+  'plan.noteGreat': 'Condiciones excelentes',
+  'plan.noteDecent': 'Condiciones aceptables',
+  'plan.noteNoForecast': 'Sin pronóstico disponible',
+  'plan.reasonIdeal': 'Templado, seco y en calma',
+  'plan.reasonBest': 'El tramo más agradable del día',
+  'wear.thermalBase': 'Capa base térmica',
+  'wear.insulatedCoat': 'Abrigo de invierno aislante',
+  'wear.hatGlovesScarf': 'Gorro, guantes y bufanda',
+  'wear.warmBase': 'Capa base abrigada',
+  'wear.winterCoat': 'Abrigo de invierno',
+  'wear.hatGloves': 'Gorro y guantes',
+  'wear.longSleeves': 'Manga larga',
+  'wear.sweater': 'Jersey o forro polar',
+  'wear.warmJacket': 'Chaqueta abrigada',
+  'wear.lightJacket': 'Chaqueta ligera',
+  'wear.tShirt': 'Camiseta',
+  'wear.lightSweater': 'Jersey ligero',
+  'wear.breathable': 'Ropa ligera y transpirable',
+  'wear.waterproof': 'Chaqueta impermeable',
+  'wear.windproof': 'Capa exterior cortavientos',
+
+  'threshold.title': 'Alertas',
+  'threshold.heatIndex': 'Índice de calor por encima de',
+  'threshold.windChill': 'Sensación térmica por debajo de',
+  'threshold.gust': 'Rachas por encima de',
+  'threshold.snowfall': 'Nieve en 24 h por encima de',
+  'threshold.uvIndex': 'Índice UV desde',
+  'threshold.aqi': 'AQI de EE. UU. desde',
+  'threshold.reset': 'Restablecer valores predeterminados',
+  'notify.browser': 'Notificaciones del navegador',
+  'notify.blocked': 'Las notificaciones están bloqueadas en la configuración del navegador.',
+  'notify.unsupported': 'Este navegador no admite notificaciones.',
+  'notify.schedule': 'Revisa los lugares guardados cada 15 minutos en busca de nuevas alertas y lluvia a punto de empezar.',
+  'notify.quietHours': 'Horas de silencio',
+  'notify.until': 'a',
+
+  'alert.heat': 'Aviso por calor',
+  'alert.heatSevere': 'Alerta por calor extremo',
+  'alert.heatDetail': 'Índice de calor de hasta {value}. Limita el esfuerzo al aire libre y mantente hidratado.',
+  'alert.cold': 'Aviso por sensación térmica',
+  'alert.coldSevere': 'Alerta por frío extremo',
+  'alert.coldDetail': 'Sensación térmica de hasta {value}. Cubre la piel expuesta; la congelación puede aparecer rápido.',
+  'alert.wind': 'Aviso por viento',
+  'alert.windSevere': 'Alerta por vientos fuertes',
+  'alert.windDetail': 'Rachas de hasta {value}. Asegura los objetos sueltos y ten cuidado en carreteras expuestas.',
+  'alert.thunderstorm': 'Tormentas',
+  'alert.thunderstormSevere': 'Tormentas fuertes',
+  'alert.thunderstormDetail': 'Se esperan rayos. Evita los espacios abiertos y quédate a cubierto mientras pasan las tormentas.',
+  'alert.freezingRain': 'Lluvia helada',
+  'alert.freezingRainSevere': 'Lluvia helada intensa',
+  'alert.freezingRainDetail': 'Lluvia que se congela al contacto. Habrá hielo en carreteras y aceras.',
+  'alert.snow': 'Aviso por nieve',
+  'alert.snowSevere': 'Alerta por nevadas intensas',
+  'alert.snowDetail': 'Se esperan unos {depth} de nieve en 24 horas. Calcula más tiempo para desplazarte.',
+  'alert.uv': 'UV muy alto',
+  'alert.uvSevere': 'UV extremo',
+  'alert.uvDetail': 'Índice UV de hasta {value}. Busca sombra a mediodía y usa protector solar.',
+  'alert.airSensitive': 'Aire perjudicial para grupos sensibles',
+  'alert.air': 'Aire perjudicial',
+  'alert.airSevere': 'Aire muy perjudicial',
+  'alert.airDetail': 'AQI de EE. UU. {value} (PM2.5 {pm}). Reduce el esfuerzo prolongado al aire libre.',
+  'alert.airDetailSensitive': 'AQI de EE. UU. {value} (PM2.5 {pm}). Reduce el esfuerzo prolongado al aire libre si eres sensible.',
+  'notify.alertAt': '{title} en {place}',
+  'notify.rainSoon': 'Lluvia en {minutes} min en {place}',
+  'notify.snowSoon': 'Nieve en {minutes} min en {place}',
+
+  'saved.title': 'Ubicaciones guardadas',
+  'saved.empty': 'Aún no hay ubicaciones guardadas',
+  'saved.emptyHint': 'Usa la estrella de la tarjeta de una ciudad para añadirla aquí.',
+  'saved.refreshAll': 'Actualizar todo',
+  'saved.refreshing': 'Actualizando...',
+  'saved.offline': 'Sin conexión: se muestran las últimas condiciones guardadas.',
+  'saved.failed': 'No se pudieron actualizar las ubicaciones guardadas.',
+  'saved.moveLeft': 'Mover a la izquierda',
+  'saved.moveRight': 'Mover a la derecha',
+  'saved.remove': 'Quitar',
+
+  'units.title': 'Unidades',
+  'units.temperature': 'Temperatura',
+  'units.wind': 'Viento',
+  'units.pressure': 'Presión',
+  'units.precipitation': 'Precipitación',
+  'units.distance': 'Distancia',
+
+  'chat.open': 'Pregunta por el tiempo',
+  'chat.title': 'Asistente meteorológico',
+  'chat.reset': 'Nueva conversación',
+  'chat.close': 'Cerrar',
+  'chat.intro': 'Haz más preguntas sobre {name} o cualquier otro lugar.',
+  'chat.introFallback': 'el tiempo',
+  'chat.suggestion1': '¿Y el sábado por la tarde?',
+  'chat.suggestion2': 'Compara con Madrid',
+  'chat.suggestion3': '¿Hoy hace más calor de lo normal?',
+  'chat.suggestion4': '¿Cómo está la calidad del aire?',
+  'chat.thinking': 'Pensando...',
+  'chat.placeholder': 'Haz otra pregunta...',
+  'chat.noLocation': 'Busca primero una ubicación',
+  'chat.send': 'Enviar',
+  'chat.toolForecast': 'Consultando el pronóstico',
+  'chat.toolAirQuality': 'Consultando la calidad del aire',
+  'chat.toolHistory': 'Buscando el tiempo pasado',
+  'chat.toolOther': 'Buscando información',
+  'chat.failed': 'Algo salió mal.',
+
+  'voice.start': 'Iniciar el modo de voz manos libres',
+  'voice.stopMode': 'Detener el modo de voz',
+  'voice.ready': 'Modo de voz activado',
+  'voice.listening': 'Escuchando...',
+  'voice.thinking': 'Pensando...',
+  'voice.speaking': 'Hablando...',
+  'voice.stop': 'Detener',
+  'voice.notUnderstood': 'Lo siento, no he entendido ningún lugar ni una pregunta que pueda responder.',
+  'voice.unsupported': 'La entrada de voz no está disponible en este navegador. Escribe tu pregunta.',
+  'voice.noSynthesis': 'Este navegador no puede leer las respuestas en voz alta; aparecerán en pantalla.',
+  'voice.denied': 'Se denegó el acceso al micrófono. Permítelo en el navegador para usar la voz.',
+  'voice.failed': 'La entrada de voz se detuvo inesperadamente. Inténtalo de nuevo.',
+  'voice.settings': 'Ajustes de voz',
+  'voice.voice': 'Voz',
+  'voice.auto': 'Automática',
+  'voice.rate': 'Velocidad',
+  'voice.pitch': 'Tono',
+  'voice.test': 'Probar la voz',
+  'voice.sample': 'Así sonarán tus actualizaciones del tiempo.',
+
+  'ai.insightBudget': 'Ya has usado los análisis inteligentes de hoy. Volverán mañana.',
+  'ai.insightNoKey': 'Gemini aún no está configurado en el servidor. Añade GEMINI_API_KEY a su entorno para obtener análisis inteligentes.',
+  'ai.insightBusy': 'Estoy recibiendo demasiadas solicitudes. ¡Vuelve en un momento para ver tu análisis!',
+  'ai.insightOffline': 'Gemini está desconectado por interferencias atmosféricas (error de API).',
+  'ai.chatBudget': 'Has alcanzado el límite diario del asistente. Se restablece a medianoche.',
+  'ai.chatBusy': 'Estoy recibiendo demasiadas solicitudes. Inténtalo de nuevo en un momento.',
+  'ai.chatNoKey': 'El asistente aún no está configurado en el servidor.',
+  'ai.chatUnavailable': 'El asistente no está disponible ahora mismo.',
+  'ai.chatEmpty': 'Lo siento, no he encontrado una respuesta a eso.',
+
+  'footer.poweredBy': 'Con la tecnología de Gemini, Open-Meteo y React'
+};
+
+export const weatherCodes: Record<number, string> = {
+  0: 'Cielo despejado',
+  1: 'Mayormente despejado', 2: 'Parcialmente nublado', 3: 'Cubierto',
+  45: 'Niebla', 48: 'Niebla con escarcha',
+  51: 'Llovizna ligera', 53: 'Llovizna moderada', 55: 'Llovizna densa',
+  56: 'Llovizna helada ligera', 57: 'Llovizna helada densa',
+  61: 'Lluvia ligera', 63: 'Lluvia moderada', 65: 'Lluvia intensa',
+  66: 'Lluvia helada ligera', 67: 'Lluvia helada intensa',
+  71: 'Nevada ligera', 73: 'Nevada moderada', 75: 'Nevada intensa',
+  77: 'Granos de nieve',
+  80: 'Chubascos ligeros', 81: 'Chubascos moderados', 82: 'Chubascos violentos',
+  85: 'Chubascos de nieve ligeros', 86: 'Chubascos de nieve intensos',
+  95: 'Tormenta', 96: 'Tormenta con granizo ligero', 99: 'Tormenta con granizo fuerte'
+};
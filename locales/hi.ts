@@ -0,0 +1,374 @@
+import type { Messages } from './en';
+
+export const messages: Messages = {
+  'search.placeholder': 'शहर या lat,lon खोजें...',
+  'search.listening': 'सुन रहे हैं...',
+  'search.voice': 'दबाकर बोलें',
+  'search.cityNotFound': "शहर '{city}' नहीं मिला।",
+  'search.failed': 'यह शहर खोजा नहीं जा सका।',
+  'search.whichPlace': 'आपका मतलब कौन-सा "{query}" था?',
+  'header.saved': 'सहेजे गए स्थान',
+  'header.locate': 'मेरा स्थान इस्तेमाल करें',
+  'header.units': 'इकाइयाँ',
+  'header.alerts': 'अलर्ट और सूचनाएँ',
+  'header.language': 'भाषा',
+
+  'error.offlineNoData': 'आप ऑफ़लाइन हैं और इस स्थान का कोई सहेजा गया डेटा अभी नहीं है।',
+  'error.noWeather': 'मौसम का डेटा नहीं मिला। कृपया कोई दूसरा शहर आज़माएँ।',
+  'error.geolocationUnavailable': 'इस ब्राउज़र में स्थान उपलब्ध नहीं है। 48.85,2.35 जैसे निर्देशांक पेस्ट करके देखें।',
+  'error.geolocationDenied': 'स्थान की अनुमति नहीं मिली। ब्राउज़र में अनुमति दें या शहर या निर्देशांक से खोजें।',
+  'error.geolocationFailed': 'आपका स्थान पता नहीं चल सका। कृपया फिर से कोशिश करें।',
+
+  'status.scanning': 'वायुमंडलीय डेटा जाँचा जा रहा है...',
+  'status.waiting': 'मौसम डेटा की प्रतीक्षा...',
+  'status.offline': 'ऑफ़लाइन',
+  'status.updated': '{age} अपडेट किया गया',
+  'status.refreshing': 'रीफ़्रेश हो रहा है',
+  'age.justNow': 'अभी',
+  'age.minutes': '{count} मिनट पहले',
+  'age.hours': '{count} घंटे पहले',
+  'age.days': '{count} दिन पहले',
+
+  'time.their': 'वहाँ का समय',
+  'time.mine': 'मेरा समय',
+  'time.theirTitle': '{name} के समय क्षेत्र में समय दिखाएँ',
+  'time.mineTitle': 'अपने समय क्षेत्र में समय दिखाएँ',
+  'favorite.add': 'स्थान सहेजें',
+  'favorite.remove': 'सहेजे गए से हटाएँ',
+  'temp.high': 'अधि: {value}',
+  'temp.low': 'न्यू: {value}',
+
+  'insight.title': 'स्मार्ट विश्लेषण',
+  'insight.summary': 'सारांश',
+  'insight.plan': 'योजना',
+  'insight.analyzing': 'वायुमंडल का विश्लेषण हो रहा है...',
+  'insight.ttsOn': 'विश्लेषण पढ़कर सुनाएँ',
+  'insight.ttsOff': 'पढ़कर सुनाना बंद करें',
+  'scene.toggleOn': 'AI पृष्ठभूमि चालू करें (आज {used}/{budget} बनीं)',
+  'scene.toggleOff': 'AI पृष्ठभूमि बंद करें (आज {used}/{budget} बनीं)',
+  'scene.off': 'AI दृश्य बंद',
+  'scene.rendering': 'दृश्य बन रहा है...',
+  'scene.live': 'लाइव दृश्य तैयार',
+  'scene.standardQuota': 'सामान्य वातावरण (कोटा)',
+  'scene.standard': 'सामान्य वातावरण',
+  'scene.resetsIn': '{time} में रीसेट',
+  'scene.checking': 'जाँच हो रही है...',
+  'scene.retry': 'कोटा जाँचें / फिर कोशिश करें',
+
+  'metric.airQuality': 'वायु गुणवत्ता',
+  'metric.airQualityDetails': 'वायु गुणवत्ता का विवरण',
+  'metric.wind': 'हवा',
+  'metric.direction': 'दिशा: {value}°',
+  'metric.humidity': 'नमी',
+  'metric.dewPoint': 'ओसांक: {value}',
+  'metric.uv': 'UV सूचकांक',
+  'metric.uvVeryHigh': 'बहुत अधिक',
+  'metric.uvHigh': 'अधिक',
+  'metric.uvModerate': 'मध्यम',
+  'metric.visibility': 'दृश्यता',
+  'metric.pressure': 'दाब',
+  'metric.notAvailable': 'उपलब्ध नहीं',
+
+  'hourly.title': 'घंटेवार पूर्वानुमान',
+  'hourly.chart': 'चार्ट',
+  'hourly.list': 'सूची',
+  'hourly.24h': '24 घं',
+  'hourly.48h': '48 घं',
+  'hourly.7d': '7 दिन',
+  'hourly.temp': 'तापमान: {value}',
+  'hourly.feels': 'महसूस {value}',
+  'hourly.precip': 'वर्षा: {value}',
+  'hourly.wind': 'हवा: {value}',
+  'daily.title': '{count} दिन का पूर्वानुमान',
+  'daily.range': '{count} दिन',
+  'sun.sunrise': 'सूर्योदय',
+  'sun.sunset': 'सूर्यास्त',
+  'sun.daylight': '{value} दिन का उजाला',
+  'sun.vsYesterday': 'कल की तुलना में {value}',
+  'moon.illuminated': '{value}% प्रकाशित',
+  'nowcast.title': 'अगले 2 घंटे',
+  'time.now': 'अभी',
+  'nowcast.30m': '30 मि',
+  'nowcast.1h': '1 घं',
+  'nowcast.90m': '1 घं 30',
+  'nowcast.2h': '2 घं',
+  'nowcast.dry': 'अगले 2 घंटों में वर्षा की संभावना नहीं।',
+  'nowcast.lightRain': 'हल्की बारिश',
+  'nowcast.moderateRain': 'मध्यम बारिश',
+  'nowcast.heavyRain': 'भारी बारिश',
+  'nowcast.lightSnow': 'हल्की बर्फ़',
+  'nowcast.moderateSnow': 'मध्यम बर्फ़',
+  'nowcast.heavySnow': 'भारी बर्फ़',
+  'nowcast.ongoing': 'कम से कम अगले 2 घंटों तक {label}।',
+  'nowcast.stopping': 'अभी {label}, ~{minutes} मिनट में रुकेगी।',
+  'nowcast.startingLong': '~{minutes} मिनट में {label} शुरू, अगले 2 घंटों से आगे तक।',
+  'nowcast.starting': '~{minutes} मिनट में {label} शुरू, {duration} मिनट तक।',
+  'alert.dismiss': 'हटाएँ',
+  'focus.rain': 'बारिश',
+  'focus.snow': 'बर्फ',
+  'focus.compare': 'इनसे तुलना',
+  'focus.beyond': 'पूर्वानुमान की सीमा से बाहर',
+  'focus.notFound': 'जगह नहीं मिली',
+  'focus.clear': 'हटाएँ',
+
+  'panel.close': 'बंद करें',
+  'astro.title': 'सूर्य और चंद्रमा',
+  'astro.note': 'इस डिवाइस पर स्थान के निर्देशांकों से गणना की गई; समय प्रकाशित तालिकाओं से एक-दो मिनट अलग हो सकते हैं।',
+  'sun.solarNoon': 'सौर दोपहर',
+  'sun.dayLength': 'दिन की अवधि',
+  'sun.midnightSun': 'मध्यरात्रि सूर्य: सूर्य पूरे दिन क्षितिज के ऊपर रहता है।',
+  'sun.polarNight': 'ध्रुवीय रात: सूर्य पूरे दिन क्षितिज के नीचे रहता है।',
+  'sun.photography': 'फ़ोटोग्राफ़ी के लिए रोशनी',
+  'sun.morning': 'सुबह',
+  'sun.evening': 'शाम',
+  'sun.goldenHour': 'गोल्डन आवर',
+  'sun.blueHour': 'ब्लू आवर',
+  'sun.twilight': 'गोधूलि',
+  'sun.dawn': 'भोर',
+  'sun.dusk': 'संध्या',
+  'sun.civil': 'नागरिक',
+  'sun.nautical': 'समुद्री',
+  'sun.astronomical': 'खगोलीय',
+  'moon.title': 'चंद्रमा',
+  'moon.phase': 'कला',
+  'moon.visibility': 'दृश्यता',
+  'moon.alwaysUp': 'पूरे दिन ऊपर',
+  'moon.alwaysDown': 'पूरे दिन क्षितिज के नीचे',
+  'moon.rise': 'चंद्रोदय',
+  'moon.set': 'चंद्रास्त',
+  'moon.new': 'अमावस्या',
+  'moon.waxingCrescent': 'बढ़ता अर्धचंद्र',
+  'moon.firstQuarter': 'शुक्ल अष्टमी',
+  'moon.waxingGibbous': 'बढ़ता चंद्र',
+  'moon.full': 'पूर्णिमा',
+  'moon.waningGibbous': 'घटता चंद्र',
+  'moon.lastQuarter': 'कृष्ण अष्टमी',
+  'moon.waningCrescent': 'घटता अर्धचंद्र',
+
+  'aqi.loadFailed': 'वायु गुणवत्ता डेटा लोड नहीं हो सका।',
+  'aqi.notAvailable': 'यहाँ उपलब्ध नहीं',
+  'aqi.dominant': 'प्रमुख प्रदूषक: {name}',
+  'aqi.pollutants': 'प्रदूषक',
+  'aqi.forecast': 'पूर्वानुमान',
+  'aqi.peak': 'अधिकतम {value} ({band}) · {time}',
+  'aqi.pollen': 'पराग',
+  'aqi.grains': '{value} कण/m³',
+  'aqi.pollenEurope': 'पराग पूर्वानुमान केवल यूरोप के लिए प्रकाशित होते हैं।',
+  'aqi.scaleUs': 'US AQI',
+  'aqi.scaleEu': 'यूरोपीय AQI',
+  'aqi.good': 'अच्छा',
+  'aqi.fair': 'ठीक',
+  'aqi.moderate': 'मध्यम',
+  'aqi.sensitive': 'संवेदनशील लोगों के लिए अस्वास्थ्यकर',
+  'aqi.unhealthy': 'अस्वास्थ्यकर',
+  'aqi.veryUnhealthy': 'बहुत अस्वास्थ्यकर',
+  'aqi.hazardous': 'खतरनाक',
+  'aqi.poor': 'खराब',
+  'aqi.veryPoor': 'बहुत खराब',
+  'aqi.extremelyPoor': 'अत्यंत खराब',
+  'pollutant.pm2_5': 'PM2.5',
+  'pollutant.pm10': 'PM10',
+  'pollutant.o3': 'ओज़ोन',
+  'pollutant.no2': 'NO₂',
+  'pollutant.so2': 'SO₂',
+  'pollutant.co': 'CO',
+  'pollen.alder': 'एल्डर',
+  'pollen.birch': 'भोज',
+  'pollen.grass': 'घास',
+  'pollen.mugwort': 'नागदौना',
+  'pollen.olive': 'जैतून',
+  'pollen.ragweed': 'रैगवीड',
+  'pollen.none': 'नहीं',
+  'pollen.low': 'कम',
+  'pollen.moderate': 'मध्यम',
+  'pollen.high': 'अधिक',
+  'pollen.veryHigh': 'बहुत अधिक',
+
+  'history.title': 'तुलना',
+  'history.normal': 'सामान्य',
+  'history.lastYear': 'पिछला साल',
+  'history.today': 'आज',
+  'history.high': 'अधिकतम',
+  'history.low': 'न्यूनतम',
+  'history.precipitation': 'वर्षा',
+  'history.noNormals': 'इस स्थान के लिए जलवायु सामान्य उपलब्ध नहीं हैं।',
+  'history.noArchive': 'पिछले साल इस तारीख का कोई पुराना डेटा नहीं है।',
+  'history.average': 'इस तारीख के लिए लगभग औसत',
+  'history.warmer': 'इस तारीख के {period} औसत से {value}° अधिक गर्म',
+  'history.colder': 'इस तारीख के {period} औसत से {value}° अधिक ठंडा',
+
+  'plan.loading': 'आपके दिन की योजना बन रही है...',
+  'plan.empty': 'अभी कोई सुझाव नहीं।',
+  'plan.wear': 'पहनें',
+  'plan.umbrella': 'छाता',
+  'plan.sunscreen': 'सनस्क्रीन',
+  'plan.mask': 'मास्क',
+  'plan.bring': 'साथ रखें',
+  'plan.notNeeded': 'ज़रूरत नहीं',
+  'plan.bestTime': 'बाहर जाने का सबसे अच्छा समय: {start} – {end}',
+  'plan.noWindow': 'अगले 24 घंटों में बाहर के लिए कोई सुहावना समय नहीं।',
+  'plan.rules': 'नियम-आधारित अनुमान; Gemini उपलब्ध नहीं था।',
+  'activity.running': 'दौड़ना',
+  'activity.cycling': 'साइकिल चलाना',
+  'activity.picnic': 'पिकनिक',
+  'plan.headsUp': 'ध्यान दें: अगले 12 घंटों में {cautions}।',
+  'plan.calm': 'अगले 12 घंटों में मौसम की कोई चिंता नहीं, एक सामान्य दिन।',
+  'plan.cautionRain': 'बारिश की संभावना है',
+  'plan.cautionGusty': 'तेज़ झोंके चलेंगे',
+  'plan.cautionAir': 'वायु गुणवत्ता खराब है',
+  'plan.noteCold': 'आराम के लिए बहुत ठंड',
+  'plan.noteHot': 'बहुत गर्मी; आराम से करें',
+  'plan.noteRain': 'बारिश की संभावना',
+  'plan.noteWind': 'बहुत तेज़ हवा',
+  'plan.noteAir': 'खराब वायु गुणवत्ता',
+  'plan.noteGreat': 'बेहतरीन परिस्थितियाँ',
+  'plan.noteDecent': 'ठीक-ठाक परिस्थितियाँ',
+  'plan.noteNoForecast': 'पूर्वानुमान उपलब्ध नहीं',
+  'plan.reasonIdeal': 'सुहावना, सूखा और शांत',
+  'plan.reasonBest': 'दिन का सबसे आरामदायक समय',
+  'wear.thermalBase': 'थर्मल इनर',
+  'wear.insulatedCoat': 'गरम इंसुलेटेड कोट',
+  'wear.hatGlovesScarf': 'टोपी, दस्ताने और मफ़लर',
+  'wear.warmBase': 'गरम इनर',
+  'wear.winterCoat': 'सर्दियों का कोट',
+  'wear.hatGloves': 'टोपी और दस्ताने',
+  'wear.longSleeves': 'पूरी बाँह के कपड़े',
+  'wear.sweater': 'स्वेटर या फ़्लीस',
+  'wear.warmJacket': 'गरम जैकेट',
+  'wear.lightJacket': 'हल्की जैकेट',
+  'wear.tShirt': 'टी-शर्ट',
+  'wear.lightSweater': 'हल्का स्वेटर',
+  'wear.breathable': 'हल्के, हवादार कपड़े',
+  'wear.waterproof': 'वॉटरप्रूफ़ जैकेट',
+  'wear.windproof': 'हवा-रोधी बाहरी परत',
+
+  'threshold.title': 'अलर्ट',
+  'threshold.heatIndex': 'ताप सूचकांक इससे ऊपर',
+  'threshold.windChill': 'विंड चिल इससे नीचे',
+  'threshold.gust': 'झोंके इससे ऊपर',
+  'threshold.snowfall': '24 घंटे में बर्फ़ इससे ऊपर',
+  'threshold.uvIndex': 'UV सूचकांक इससे',
+  'threshold.aqi': 'US AQI इससे',
+  'threshold.reset': 'डिफ़ॉल्ट पर रीसेट करें',
+  'notify.browser': 'ब्राउज़र सूचनाएँ',
+  'notify.blocked': 'आपकी ब्राउज़र सेटिंग में सूचनाएँ अवरुद्ध हैं।',
+  'notify.unsupported': 'यह ब्राउज़र सूचनाओं का समर्थन नहीं करता।',
+  'notify.schedule': 'हर 15 मिनट में सहेजे गए स्थानों पर नए अलर्ट और शुरू होने वाली बारिश की जाँच करता है।',
+  'notify.quietHours': 'शांत समय',
+  'notify.until': '–',
+
+  'alert.heat': 'गर्मी की सलाह',
+  'alert.heatSevere': 'अत्यधिक गर्मी की चेतावनी',
+  'alert.heatDetail': 'ताप सूचकांक {value} तक। बाहर मेहनत कम करें और पानी पीते रहें।',
+  'alert.cold': 'विंड चिल की सलाह',
+  'alert.coldSevere': 'अत्यधिक ठंड की चेतावनी',
+  'alert.coldDetail': 'विंड चिल {value} तक। खुली त्वचा ढकें; शीतदंश जल्दी हो सकता है।',
+  'alert.wind': 'हवा की सलाह',
+  'alert.windSevere': 'तेज़ हवा की चेतावनी',
+  'alert.windDetail': '{value} तक के झोंके। ढीली चीज़ें बाँध दें और खुली सड़कों पर सावधान रहें।',
+  'alert.thunderstorm': 'आंधी-तूफ़ान',
+  'alert.thunderstormSevere': 'तेज़ आंधी-तूफ़ान',
+  'alert.thunderstormDetail': 'बिजली गिरने की संभावना। खुले मैदान से बचें और तूफ़ान गुज़रने तक घर के अंदर रहें।',
+  'alert.freezingRain': 'जमने वाली बारिश',
+  'alert.freezingRainSevere': 'भारी जमने वाली बारिश',
+  'alert.freezingRainDetail': 'बारिश छूते ही जम रही है। सड़कों और फुटपाथों पर फिसलन भरी बर्फ़ की उम्मीद करें।',
+  'alert.snow': 'बर्फ़बारी की सलाह',
+  'alert.snowSevere': 'भारी बर्फ़बारी की चेतावनी',
+  'alert.snowDetail': '24 घंटों में लगभग {depth} बर्फ़ की संभावना। यात्रा के लिए अतिरिक्त समय रखें।',
+  'alert.uv': 'बहुत अधिक UV',
+  'alert.uvSevere': 'अत्यधिक UV',
+  'alert.uvDetail': 'UV सूचकांक {value} तक। दोपहर के आसपास छाया में रहें और सनस्क्रीन लगाएँ।',
+  'alert.airSensitive': 'संवेदनशील लोगों के लिए अस्वास्थ्यकर हवा',
+  'alert.air': 'अस्वास्थ्यकर हवा',
+  'alert.airSevere': 'बहुत अस्वास्थ्यकर हवा',
+  'alert.airDetail': 'US AQI {value} (PM2.5 {pm})। बाहर लंबे समय तक मेहनत कम करें।',
+  'alert.airDetailSensitive': 'US AQI {value} (PM2.5 {pm})। संवेदनशील हों तो बाहर लंबे समय तक मेहनत कम करें।',
+  'notify.alertAt': '{place} में {title}',
+  'notify.rainSoon': '{place} में {minutes} मिनट में बारिश',
+  'notify.snowSoon': '{place} में {minutes} मिनट में बर्फ़',
+
+  'saved.title': 'सहेजे गए स्थान',
+  'saved.empty': 'अभी कोई सहेजा गया स्थान नहीं',
+  'saved.emptyHint': 'किसी शहर के मौसम कार्ड पर तारे से उसे यहाँ जोड़ें।',
+  'saved.refreshAll': 'सब रीफ़्रेश करें',
+  'saved.refreshing': 'रीफ़्रेश हो रहा है...',
+  'saved.offline': 'ऑफ़लाइन: पिछली सहेजी गई स्थिति दिखाई जा रही है।',
+  'saved.failed': 'सहेजे गए स्थान रीफ़्रेश नहीं हो सके।',
+  'saved.moveLeft': 'बाएँ ले जाएँ',
+  'saved.moveRight': 'दाएँ ले जाएँ',
+  'saved.remove': 'हटाएँ',
+
+  'units.title': 'इकाइयाँ',
+  'units.temperature': 'तापमान',
+  'units.wind': 'हवा',
+  'units.pressure': 'दाब',
+  'units.precipitation': 'वर्षा',
+  'units.distance': 'दूरी',
+
+  'chat.open': 'मौसम के बारे में पूछें',
+  'chat.title': 'मौसम सहायक',
+  'chat.reset': 'नई बातचीत',
+  'chat.close': 'बंद करें',
+  'chat.intro': '{name} या किसी और जगह के बारे में आगे के सवाल पूछें।',
+  'chat.introFallback': 'मौसम',
+  'chat.suggestion1': 'शनिवार दोपहर का मौसम कैसा रहेगा?',
+  'chat.suggestion2': 'मुंबई से तुलना करें',
+  'chat.suggestion3': 'क्या आज सामान्य से ज़्यादा गर्मी है?',
+  'chat.suggestion4': 'हवा की गुणवत्ता कैसी है?',
+  'chat.thinking': 'सोच रहे हैं...',
+  'chat.placeholder': 'आगे का सवाल पूछें...',
+  'chat.noLocation': 'पहले कोई स्थान खोजें',
+  'chat.send': 'भेजें',
+  'chat.toolForecast': 'पूर्वानुमान देख रहे हैं',
+  'chat.toolAirQuality': 'वायु गुणवत्ता देख रहे हैं',
+  'chat.toolHistory': 'पिछला मौसम देख रहे हैं',
+  'chat.toolOther': 'जानकारी खोज रहे हैं',
+  'chat.failed': 'कुछ गलत हो गया।',
+
+  'voice.start': 'हैंड्स-फ़्री वॉइस मोड शुरू करें',
+  'voice.stopMode': 'वॉइस मोड बंद करें',
+  'voice.ready': 'वॉइस मोड चालू है',
+  'voice.listening': 'सुन रहा हूँ...',
+  'voice.thinking': 'सोच रहा हूँ...',
+  'voice.speaking': 'बोल रहा हूँ...',
+  'voice.stop': 'रोकें',
+  'voice.notUnderstood': 'माफ़ कीजिए, मैं कोई जगह या ऐसा सवाल नहीं समझ पाया जिसका जवाब दे सकूँ।',
+  'voice.unsupported': 'इस ब्राउज़र में आवाज़ से इनपुट उपलब्ध नहीं है। कृपया अपना सवाल टाइप करें।',
+  'voice.noSynthesis': 'यह ब्राउज़र जवाब पढ़कर नहीं सुना सकता; वे स्क्रीन पर दिखेंगे।',
+  'voice.denied': 'माइक्रोफ़ोन की अनुमति नहीं मिली। आवाज़ का उपयोग करने के लिए ब्राउज़र में अनुमति दें।',
+  'voice.failed': 'आवाज़ इनपुट अचानक रुक गया। कृपया फिर से कोशिश करें।',
+  'voice.settings': 'आवाज़ सेटिंग्स',
+  'voice.voice': 'आवाज़',
+  'voice.auto': 'स्वचालित',
+  'voice.rate': 'गति',
+  'voice.pitch': 'पिच',
+  'voice.test': 'आवाज़ जाँचें',
+  'voice.sample': 'आपके मौसम अपडेट ऐसे सुनाई देंगे।',
+
+  'ai.insightBudget': 'आज के स्मार्ट विश्लेषण खत्म हो गए हैं। ये कल फिर मिलेंगे।',
+  'ai.insightNoKey': 'सर्वर पर Gemini अभी सेट नहीं है। स्मार्ट विश्लेषण के लिए उसके एनवायरनमेंट में GEMINI_API_KEY जोड़ें।',
+  'ai.insightBusy': 'अभी बहुत सारे अनुरोध आ रहे हैं। स्मार्ट विश्लेषण के लिए थोड़ी देर बाद देखें!',
+  'ai.insightOffline': 'वायुमंडलीय बाधा के कारण Gemini अभी ऑफ़लाइन है (API त्रुटि)।',
+  'ai.chatBudget': 'आज के लिए सहायक की सीमा पूरी हो गई है। यह आधी रात को रीसेट होगी।',
+  'ai.chatBusy': 'अभी बहुत सारे अनुरोध आ रहे हैं। कृपया थोड़ी देर बाद फिर कोशिश करें।',
+  'ai.chatNoKey': 'सर्वर पर सहायक अभी सेट नहीं है।',
+  'ai.chatUnavailable': 'सहायक अभी उपलब्ध नहीं है।',
+  'ai.chatEmpty': 'माफ़ कीजिए, मैं इसका जवाब नहीं ढूँढ पाया।',
+
+  'footer.poweredBy': 'Gemini, Open-Meteo और React द्वारा संचालित'
+};
+
+export const weatherCodes: Record<number, string> = {
+  0: 'साफ़ आसमान',
+  1: 'ज़्यादातर साफ़', 2: 'आंशिक रूप से बादल', 3: 'घने बादल',
+  45: 'कोहरा', 48: 'पाला जमाने वाला कोहरा',
+  51: 'हल्की फुहार', 53: 'मध्यम फुहार', 55: 'घनी फुहार',
+  56: 'हल्की जमने वाली फुहार', 57: 'घनी जमने वाली फुहार',
+  61: 'हल्की बारिश', 63: 'मध्यम बारिश', 65: 'भारी बारिश',
+  66: 'हल्की जमने वाली बारिश', 67: 'भारी जमने वाली बारिश',
+  71: 'हल्की बर्फ़बारी', 73: 'मध्यम बर्फ़बारी', 75: 'भारी बर्फ़बारी',
+  77: 'बर्फ़ के दाने',
+  80: 'हल्की बौछारें', 81: 'मध्यम बौछारें', 82: 'तेज़ बौछारें',
+  85: 'हल्की बर्फ़ीली बौछारें', 86: 'भारी बर्फ़ीली बौछारें',
+  95: 'आंधी-तूफ़ान', 96: 'हल्के ओलों के साथ तूफ़ान', 99: 'भारी ओलों के साथ तूफ़ान'
+};
@@ -0,0 +1,334 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { createRateLimiter } from './rateLimit';
+import { isLocale, isMessageKey } from '../services/i18n';
+import { isValidTimeZone } from '../services/timezone';
+import { ASSISTANT_TOOL_NAMES, generateChatTurn, generateRecommendations, generateWeatherScene, getRetryAfter, isQuotaError, parseSearchQuery, streamWeatherInsight } from './gemini';
+
+// The /api/* endpoints the browser talks to instead of Gemini and OpenWeatherMap. Plain Node request
+// handler, so the same function runs as Vite dev middleware and inside the standalone server (server/index.ts).
+
+export interface ApiOptions {
+  apiKey?: string;
+  owmApiKey?: string; // Only needed when the app is built with WEATHER_PROVIDER=openweathermap
+  trustProxy?: boolean; // Take the client IP from X-Real-IP, as set by nginx in front of the server
+}
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next?: () => void) => void;
+
+interface Route {
+  limit: number; // Requests per client per minute
+  validate: (body: any) => boolean;
+  // Returns the JSON response body, or writes the response itself (streaming) and returns nothing
+  handle: (ai: GoogleGenAI, body: any, res: ServerResponse, signal: AbortSignal) => Promise<unknown>;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+// Chat histories carry tool results, so they are the largest legitimate bodies
+const MAX_BODY_BYTES = 512 * 1024;
+const MAX_QUERY_LENGTH = 200;
+// The client keeps 20 questions (trimChatHistory) plus the new one; each may take up to
+// five tool rounds, which add a call and a response turn apiece
+const MAX_CHAT_TURNS = 21;
+const MAX_CHAT_CONTENTS = MAX_CHAT_TURNS * 12;
+const MAX_CHAT_MESSAGE = 2000; // Characters in one user message
+const MAX_MODEL_TEXT = 8000; // Characters in one part of a model reply
+const MAX_TOOL_PAYLOAD = 32 * 1024; // Serialized size of one tool call's arguments or result
+const MAX_CHAT_CHARS = 200 * 1000; // All text and tool payloads together
+const MAX_INSIGHT_ALERTS = 20;
+// Weather fields are interpolated into prompts, so they are held to the sizes providers produce
+const MAX_PLACE_NAME = 200;
+const MAX_CONDITION_TEXT = 100; // A condition's `main` or `description`
+const MAX_CONDITIONS = 5;
+const MAX_HOURLY_ROWS = 48;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUnits = (value: unknown) =>
+  isObject(value) && typeof value.temperature === 'string' && typeof value.wind === 'string';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const hasOnlyKeys = (value: Record<string, any>, allowed: string[]) =>
+  Object.keys(value).every(key => allowed.includes(key));
+
+const isOptionalString = (value: unknown, maxLength: number) =>
+  value === undefined || (typeof value === 'string' && value.length <= maxLength);
+
+const payloadSize = (value: unknown) => JSON.stringify(value).length;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || isNumber(value);
+
+const isConditions = (value: unknown) =>
+  Array.isArray(value) && value.length > 0 && value.length <= MAX_CONDITIONS && value.every(condition =>
+    isObject(condition) && typeof condition.main === 'string' && condition.main.length <= MAX_CONDITION_TEXT
+    && typeof condition.description === 'string' && condition.description.length <= MAX_CONDITION_TEXT
+    && typeof condition.icon === 'string' && condition.icon.length <= 8);
+
+const isWind = (value: unknown) => isObject(value) && isNumber(value.speed) && isOptionalNumber(value.gust);
+
+// Every field a prompt reads is checked for type and size; the rest of the object is never interpolated
+const isWeather = (value: unknown) =>
+  isObject(value) && typeof value.name === 'string' && value.name.length <= MAX_PLACE_NAME && isConditions(value.weather)
+  && isObject(value.main) && isNumber(value.main.temp) && isNumber(value.main.feels_like) && isOptionalNumber(value.main.humidity)
+  && isWind(value.wind) && isOptionalNumber(value.uv_index)
+  && (value.aqi === undefined || value.aqi === null || (isObject(value.aqi) && isNumber(value.aqi.us_aqi) && isOptionalNumber(value.aqi.pm2_5)));
+
+const isHourlyRow = (value: unknown) =>
+  isObject(value) && isNumber(value.dt) && isNumber(value.feels_like) && isNumber(value.precipitation) && isWind(value.wind)
+  && isOptionalNumber(value.pop) && isOptionalNumber(value.uv_index) && (value.is_day === undefined || typeof value.is_day === 'boolean')
+  && isConditions(value.weather);
+
+// An IANA name, or the fixed "UTC±hh:mm" offset used for providers that report no zone
+const isTimeZone = (value: unknown) =>
+  typeof value === 'string' && value.length <= 64 && (/^UTC[+-]\d{2}:\d{2}$/.test(value) || isValidTimeZone(value));
+
+const isLocation = (value: unknown) =>
+  isObject(value) && typeof value.name === 'string' && value.name.length <= MAX_PLACE_NAME
+  && isOptionalString(value.admin1, MAX_PLACE_NAME) && isOptionalString(value.country, MAX_PLACE_NAME);
+
+// User turns are plain questions or results of our own tools; model turns are text, the model's
+// thinking and calls to our own tools. Anything else (files, images, code execution, other tools,
+// another system prompt) is refused, so the chat route cannot be used as a general Gemini endpoint.
+const isUserPart = (part: Record<string, any>) => {
+  if (typeof part.text === 'string') return hasOnlyKeys(part, ['text']) && part.text.length <= MAX_CHAT_MESSAGE;
+  const response = part.functionResponse;
+  return hasOnlyKeys(part, ['functionResponse']) && isObject(response) && hasOnlyKeys(response, ['id', 'name', 'response'])
+    && ASSISTANT_TOOL_NAMES.includes(response.name) && isOptionalString(response.id, 200)
+    && isObject(response.response) && payloadSize(response.response) <= MAX_TOOL_PAYLOAD;
+};
+
+const isModelPart = (part: Record<string, any>) => {
+  if (!isOptionalString(part.thoughtSignature, MAX_TOOL_PAYLOAD)) return false;
+  if (typeof part.text === 'string') {
+    return hasOnlyKeys(part, ['text', 'thought', 'thoughtSignature']) && part.text.length <= MAX_MODEL_TEXT
+      && (part.thought === undefined || typeof part.thought === 'boolean');
+  }
+  const call = part.functionCall;
+  return hasOnlyKeys(part, ['functionCall', 'thoughtSignature']) && isObject(call) && hasOnlyKeys(call, ['id', 'name', 'args'])
+    && ASSISTANT_TOOL_NAMES.includes(call.name) && isOptionalString(call.id, 200)
+    && (call.args === undefined || (isObject(call.args) && payloadSize(call.args) <= MAX_TOOL_PAYLOAD));
+};
+
+// The place name ends up in the system instruction, so it is held to place-name sizes
+const isChatContext = (context: unknown) =>
+  isObject(context) && isLocation(context.location)
+  && isUnits(context.units) && isTimeZone(context.timeZone) && isLanguage(context.language);
+
+const isChatContents = (contents: unknown) => {
+  if (!Array.isArray(contents) || contents.length === 0 || contents.length > MAX_CHAT_CONTENTS) return false;
+  const valid = contents.every(content =>
+    isObject(content) && hasOnlyKeys(content, ['role', 'parts']) && Array.isArray(content.parts) && content.parts.length > 0
+    && content.parts.every(part => isObject(part) && (content.role === 'user' ? isUserPart(part) : content.role === 'model' && isModelPart(part))));
+  if (!valid || contents[contents.length - 1].role !== 'user') return false;
+  const questions = contents.filter(content => content.parts.some((part: any) => typeof part.text === 'string') && content.role === 'user');
+  return questions.length <= MAX_CHAT_TURNS && payloadSize(contents) <= MAX_CHAT_CHARS;
+};
+
+const isLanguage = (value: unknown) => value === undefined || isLocale(value);
+
+// Alerts are rendered into the insight prompt from our own message table, so only its keys and short params pass
+const isLocalizedText = (value: unknown): boolean =>
+  isObject(value) && isMessageKey(value.key) && (value.params === undefined || (isObject(value.params)
+    && Object.values(value.params).every(param => typeof param === 'number' || isOptionalString(param, 200) || isLocalizedText(param))));
+
+const isTemperatures = (value: unknown) => isObject(value) && isNumber(value.temp_max) && isNumber(value.temp_min);
+
+// The normal's period is the only text; it is quoted in the anomaly line
+const isComparison = (value: unknown) =>
+  value === undefined || value === null || (isObject(value) && isOptionalNumber(value.anomaly)
+    && (value.normal === null || (isTemperatures(value.normal) && typeof value.normal.period === 'string' && value.normal.period.length <= 20))
+    && (value.lastYear === null || isTemperatures(value.lastYear)));
+
+const isInsightContext = (context: unknown) =>
+  context === undefined || (isObject(context) && isComparison(context.comparison) && (context.alerts === undefined || (Array.isArray(context.alerts)
+    && context.alerts.length <= MAX_INSIGHT_ALERTS
+    && context.alerts.every(alert => isObject(alert) && isLocalizedText(alert.title) && isLocalizedText(alert.description)))));
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const writeEvent = (res: ServerResponse, data: unknown, event?: string) => {
+  if (!res.writableEnded) res.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+};
+
+// Quota errors pass Gemini's own retry delay on, so clients wait exactly as long as needed
+const toErrorResponse = (error: unknown) => isQuotaError(error)
+  ? { status: 429, body: { error: 'Gemini quota exceeded. Please try again later.', retryAfter: getRetryAfter(error) } }
+  : { status: 502, body: { error: 'Gemini request failed.' } };
+
+// OpenWeatherMap relay: the browser asks for /api/owm/<endpoint>?<params> and the key is added here,
+// so it never ships in the bundle. Only the endpoints and parameters the provider uses are passed on.
+const OWM_PREFIX = '/api/owm/';
+const OWM_BASE_URL = 'https://api.openweathermap.org/';
+const OWM_ENDPOINTS = ['geo/1.0/direct', 'geo/1.0/reverse', 'data/2.5/weather', 'data/2.5/forecast', 'data/2.5/air_pollution'];
+const OWM_PARAMS = ['q', 'lat', 'lon', 'limit', 'units'];
+// A weather refresh is three calls, and refreshing saved places repeats them per place
+const OWM_LIMIT = 120;
+const OWM_TIMEOUT = 10000;
+
+const relayOpenWeatherMap = async (req: IncomingMessage, res: ServerResponse, endpoint: string, owmApiKey: string) => {
+  const incoming = new URL(req.url || '', 'http://localhost').searchParams;
+  const url = new URL(endpoint, OWM_BASE_URL);
+  OWM_PARAMS.forEach(name => {
+    const value = incoming.get(name);
+    if (value !== null && value.length <= MAX_QUERY_LENGTH) url.searchParams.set(name, value);
+  });
+  url.searchParams.set('appid', owmApiKey);
+
+  try {
+    const upstream = await fetch(url, { signal: AbortSignal.timeout(OWM_TIMEOUT) });
+    res.writeHead(upstream.status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(await upstream.text());
+  } catch (error) {
+    console.error("OpenWeatherMap relay error:", error);
+    sendJson(res, 502, { error: 'OpenWeatherMap request failed.' });
+  }
+};
+
+const ROUTES: Record<string, Route> = {
+  '/api/insight': {
+    limit: 20,
+    validate: (body) => isWeather(body.weather) && isUnits(body.units) && isOptionalString(body.intent, MAX_QUERY_LENGTH) && isLanguage(body.language)
+      && isInsightContext(body.context),
+    // Server-sent events: one `data: {"text"}` per chunk, then a `done` event, or an `error` event with status and retryAfter
+    handle: async (ai, body, res, signal) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive', 'X-Accel-Buffering': 'no' });
+      try {
+        await streamWeatherInsight(ai, body, (text) => writeEvent(res, { text }), signal);
+        writeEvent(res, {}, 'done');
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error("Gemini API Error:", error);
+          const { status, body: errorBody } = toErrorResponse(error);
+          writeEvent(res, { ...errorBody, status }, 'error');
+        }
+      }
+      res.end();
+    }
+  },
+  '/api/parse-query': {
+    limit: 30,
+    validate: (body) => typeof body.query === 'string' && body.query.trim().length > 0 && body.query.length <= MAX_QUERY_LENGTH
+      && (body.today === undefined || (typeof body.today === 'string' && ISO_DATE.test(body.today))),
+    handle: (ai, body) => parseSearchQuery(ai, body.query, body.today)
+  },
+  '/api/scene': {
+    limit: 5, // Image generation is by far the most expensive call
+    validate: (body) => isWeather(body.weather),
+    handle: (ai, body) => generateWeatherScene(ai, body.weather)
+  },
+  '/api/chat': {
+    limit: 30,
+    validate: (body) => isChatContents(body.contents) && isChatContext(body.context),
+    handle: async (ai, body) => ({ content: await generateChatTurn(ai, body.contents, body.context) })
+  },
+  '/api/recommendations': {
+    limit: 20,
+    validate: (body) => isLocation(body.location) && isWeather(body.current) && Array.isArray(body.hourly) && body.hourly.length <= MAX_HOURLY_ROWS
+      && body.hourly.every(isHourlyRow) && isTimeZone(body.timeZone) && isLanguage(body.language),
+    handle: (ai, body) => generateRecommendations(ai, body)
+  }
+};
+
+// Bodies over the limit are drained rather than cut off, so the client still gets a 413
+const readJsonBody = (req: IncomingMessage): Promise<{ status: number; body?: any }> => new Promise((resolve) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) return resolve({ status: 413 });
+    try {
+      resolve({ status: 200, body: JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') });
+    } catch {
+      resolve({ status: 400 });
+    }
+  });
+  req.on('error', () => resolve({ status: 400 }));
+});
+
+const getClientIp = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-real-ip'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) return forwarded;
+  return req.socket.remoteAddress || 'unknown';
+};
+
+export const createApiHandler = ({ apiKey, owmApiKey, trustProxy = false }: ApiOptions): Middleware => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  const limiters = Object.fromEntries(Object.entries(ROUTES).map(([path, route]) => [path, createRateLimiter(route.limit, RATE_WINDOW_MS)]));
+  const owmLimiter = createRateLimiter(OWM_LIMIT, RATE_WINDOW_MS);
+
+  return async (req, res, next) => {
+    const path = (req.url || '').split('?')[0];
+    if (!path.startsWith('/api/')) {
+      if (next) next();
+      else sendJson(res, 404, { error: 'Not found.' });
+      return;
+    }
+
+    // One line per request; bodies are never logged since they can contain what users typed
+    const started = Date.now();
+    const ip = getClientIp(req, trustProxy);
+    res.once('close', () => {
+      console.log(`[api] ${new Date().toISOString()} ${ip} ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms${res.writableFinished ? '' : ' (aborted)'}`);
+    });
+
+    if (path === '/api/health') {
+      sendJson(res, 200, { ok: true, gemini: !!ai, openWeatherMap: !!owmApiKey });
+      return;
+    }
+
+    if (path.startsWith(OWM_PREFIX)) {
+      const endpoint = path.slice(OWM_PREFIX.length);
+      if (!OWM_ENDPOINTS.includes(endpoint)) return sendJson(res, 404, { error: 'Not found.' });
+      if (req.method !== 'GET') return sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'GET' });
+      const limit = owmLimiter(ip);
+      if (!limit.allowed) {
+        return sendJson(res, 429, { error: 'Too many requests. Please slow down.', retryAfter: limit.retryAfter }, { 'Retry-After': String(limit.retryAfter) });
+      }
+      if (!owmApiKey) return sendJson(res, 503, { error: 'OpenWeatherMap is not configured on the server.' });
+      return relayOpenWeatherMap(req, res, endpoint, owmApiKey);
+    }
+
+    const route = ROUTES[path];
+    if (!route) return sendJson(res, 404, { error: 'Not found.' });
+    if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed.' }, { Allow: 'POST' });
+
+    const limit = limiters[path](ip);
+    if (!limit.allowed) {
+      return sendJson(res, 429, { error: 'Too many requests. Please slow down.', retryAfter: limit.retryAfter }, { 'Retry-After': String(limit.retryAfter) });
+    }
+    if (!ai) return sendJson(res, 503, { error: 'Gemini is not configured on the server.' });
+
+    const { status, body } = await readJsonBody(req);
+    if (status === 413) return sendJson(res, 413, { error: 'Request body is too large.' });
+    if (status !== 200 || !isObject(body) || !route.validate(body)) return sendJson(res, 400, { error: 'Invalid request body.' });
+
+    // Stops the Gemini call when the browser goes away mid-request
+    const controller = new AbortController();
+    res.once('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const result = await route.handle(ai, body, res, controller.signal);
+      if (!res.headersSent) sendJson(res, 200, result);
+    } catch (error: any) {
+      console.error("API error:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        const { status, body: errorBody } = toErrorResponse(error);
+        sendJson(res, status, errorBody, errorBody.retryAfter ? { 'Retry-After': String(errorBody.retryAfter) } : {});
+      }
+    }
+  };
+};
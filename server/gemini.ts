@@ -0,0 +1,325 @@
+import { GoogleGenAI, Type, Content, FunctionDeclaration } from "@google/genai";
+import { ChatContext, CurrentWeather, InsightRequest, Locale, RecommendationRequest, SceneResult } from "../types";
+import { convertTemperature, convertWind, formatTemperature, UNIT_LABELS, UNIT_NAMES } from "../services/units";
+import { describeAnomaly } from "../services/historyService";
+import { formatLocationLabel } from "../services/weatherService";
+import { formatInZone } from "../services/timezone";
+import { LOCALES, translate } from "../services/i18n";
+import { QUERY_METRICS } from "../services/queryParser";
+
+// Server-side Gemini calls. Prompts are built here from structured request data, so the proxy
+// cannot be used as a general-purpose Gemini endpoint with our key.
+
+export const isQuotaError = (error: any) =>
+  error?.status === 'RESOURCE_EXHAUSTED' || error?.status === 429 || error?.code === 429 || !!error?.message?.includes('429');
+
+// Quota errors carry a google.rpc.RetryInfo detail ("retryDelay": "37s") inside the error message JSON
+export const getRetryAfter = (error: any): number | undefined => {
+  const match = String(error?.message || '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+};
+
+const languageName = (language: Locale = 'en') => LOCALES[language].englishName;
+
+// 1. Intelligent Search Parsing
+const PARSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    city: { type: Type.STRING, description: "The resolved city name, or an empty string if the query names no place" },
+    intent: { type: Type.STRING, nullable: true, description: "The specific question or context from the user" },
+    when: {
+      type: Type.OBJECT,
+      nullable: true,
+      description: "The local time range the user asks about",
+      properties: {
+        dayOffset: { type: Type.INTEGER, description: "Days after today: 0 today, 1 tomorrow" },
+        startHour: { type: Type.INTEGER, description: "0-23" },
+        endHour: { type: Type.INTEGER, description: "1-24, exclusive" }
+      },
+      required: ["dayOffset", "startHour", "endHour"]
+    },
+    activity: { type: Type.STRING, nullable: true, description: "Planned outdoor activity as one lowercase English word" },
+    compareWith: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Other places the user wants compared with the main one" },
+    metric: { type: Type.STRING, nullable: true, enum: QUERY_METRICS, description: "The weather variable the user cares about most" }
+  },
+  required: ["city"]
+};
+
+// Returns the model's JSON as-is for the client to validate; `today` is the YYYY-MM-DD at the place on screen, for resolving weekdays
+export const parseSearchQuery = async (ai: GoogleGenAI, query: string, today?: string): Promise<unknown> => {
+  const date = today ? new Date(`${today}T12:00:00Z`) : new Date();
+  const todayLabel = `${date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })} ${date.toISOString().slice(0, 10)}`;
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: `Analyze this weather search query: "${query}".
+    Today is ${todayLabel}.
+    1. Extract the target city name and any specific user intent (like checking for rain, cold, clothing advice, etc).
+    2. The query may be in any language; keep the intent in that language.
+    3. If the query is just a city name, return it. If it names no place at all, return an empty city.
+    4. If the city is a nickname (e.g. "Big Apple"), resolve it to the real city name.
+    5. If a day or time is mentioned, fill "when": morning is 6-12, afternoon 12-17, evening 17-21, night or tonight 20-24, a whole day 0-24, a clock time that hour to the next. A weekday means its next occurrence; a weekend means its Saturday.
+    6. Use "running", "cycling" or "picnic" for activity when one fits.
+    7. Put every other place the user wants to compare in compareWith, never the main city.
+    `,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: PARSE_SCHEMA
+    }
+  });
+
+  if (!response.text) throw new Error("Empty response");
+  return JSON.parse(response.text);
+};
+
+// 2. Generative Background Image
+export const generateWeatherScene = async (ai: GoogleGenAI, weather: CurrentWeather): Promise<SceneResult> => {
+  try {
+    const timeOfDay = weather.weather[0].icon.includes('n') ? 'night' : 'day';
+    const description = weather.weather[0].description;
+
+    // Enhanced prompt with location context
+    const prompt = `
+      A breathtaking, photorealistic, cinematic wide-angle photograph of ${weather.name} at ${timeOfDay}.
+      Weather conditions: ${description}.
+      Atmosphere: ${timeOfDay === 'night' ? 'city lights glowing, moody' : 'natural lighting, vibrant'}.
+      Style: High resolution, 8k, National Geographic style, wallpaper quality.
+      Important: No text, no overlays, no UI elements. Just the pure scene.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: { parts: [{ text: prompt }] },
+      config: {
+         // Nano banana / flash image models
+      }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return { imageData: `data:image/png;base64,${part.inlineData.data}`, isQuotaError: false };
+      }
+    }
+    return { imageData: null, isQuotaError: false };
+  } catch (error: any) {
+    // Gracefully handle quota exhaustion
+    if (isQuotaError(error)) {
+      console.warn("Gemini Image Quota Exceeded.");
+      return { imageData: null, isQuotaError: true, retryAfter: getRetryAfter(error) };
+    }
+    console.error("Image generation failed:", error);
+    return { imageData: null, isQuotaError: false };
+  }
+};
+
+// 3. Smart Insights with Streaming
+// Errors are left to the caller, which reports them on the open event stream
+export const streamWeatherInsight = async (
+  ai: GoogleGenAI,
+  { weather, units, intent: userIntent, context: { alerts = [], comparison = null } = {}, language }: InsightRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const temperatureLabel = UNIT_NAMES.temperature[units.temperature];
+  const temp = Math.round(convertTemperature(weather.main.temp, units.temperature));
+  const feelsLike = Math.round(convertTemperature(weather.main.feels_like, units.temperature));
+  const wind = Math.round(convertWind(weather.wind.speed, units.wind));
+  const aqi = weather.aqi;
+  const anomaly = comparison && describeAnomaly(comparison, units.temperature);
+  const lastYear = comparison?.lastYear
+    ? `high ${formatTemperature(comparison.lastYear.temp_max, units.temperature)}, low ${formatTemperature(comparison.lastYear.temp_min, units.temperature)}`
+    : null;
+
+  // Chain of thought prompting with Deep Data
+  const prompt = `
+    Act as a witty and highly intelligent weather assistant.
+
+    Context:
+    - City: ${weather.name}
+    - Weather: ${weather.weather[0].description}
+    - Temp: ${temp}° ${temperatureLabel} (Feels like ${feelsLike}°)
+    - Wind: ${wind} ${UNIT_LABELS.wind[units.wind]} (${UNIT_NAMES.wind[units.wind]})
+    - Humidity: ${weather.main.humidity}%
+    - UV Index: ${weather.uv_index || 'N/A'}
+    - Air Quality (US AQI): ${aqi ? aqi.us_aqi : 'N/A'} (PM2.5: ${aqi ? aqi.pm2_5 : 'N/A'})
+    - Active Alerts: ${alerts.length > 0 ? alerts.map(alert => `${translate(alert.title, 'en')} (${translate(alert.description, 'en')})`).join('; ') : 'None'}
+    - Compared to Normal: ${anomaly ? translate(anomaly, 'en') : 'N/A'}
+    - Same Day Last Year: ${lastYear || 'N/A'}
+    - User Intent: "${userIntent || 'General update'}"
+
+    Task:
+    1. Analyze the "feels like" temperature, wind chill, and especially the Air Quality (AQI) and UV.
+    2. Mention any active alerts first; they come from fixed thresholds, so do not contradict them.
+    3. If today is notably warmer or colder than normal, say so in passing.
+    4. Formulate practical advice for clothing and activities.
+    5. Be concise (max 3-4 sentences) but conversational.
+    6. Quote any numbers in the units given above.
+    7. Write the response in ${languageName(language)}.
+
+    Output:
+    Just the final friendly response. No "Thinking..." prefixes.
+  `;
+
+  const streamResult = await ai.models.generateContentStream({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: { abortSignal: signal }
+  });
+
+  for await (const chunk of streamResult) {
+    const text = chunk.text;
+    if (text) {
+      onChunk(text);
+    }
+  }
+};
+
+// 4. Conversational Assistant with Tool Calling
+// The tools themselves run in the browser (services/assistantTools.ts); the server only
+// declares them and returns the model's turn, function calls included.
+const PLACE_PARAMETER = { type: Type.STRING, description: "City or place name. Omit for the location the user is viewing." };
+
+const ASSISTANT_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'get_forecast',
+    description: "Current conditions plus daily and hourly forecast for a place over a time range (up to 16 days ahead, hourly for the first 7).",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        place: PLACE_PARAMETER,
+        start: { type: Type.STRING, description: "Range start as local date-time at the place, YYYY-MM-DDTHH:mm. Defaults to now." },
+        end: { type: Type.STRING, description: "Range end as YYYY-MM-DDTHH:mm, or YYYY-MM-DD for the whole day. Defaults to 48 hours after start." }
+      }
+    }
+  },
+  {
+    name: 'get_air_quality',
+    description: "Current US and European AQI, dominant pollutant, the next 24 hours' peak and pollen levels for a place.",
+    parameters: { type: Type.OBJECT, properties: { place: PLACE_PARAMETER } }
+  },
+  {
+    name: 'get_history',
+    description: "Past weather for a date (from about 5 days ago back to 1940) with the 1991-2020 normal. For today, compares the forecast with the normal and the same day last year.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        place: PLACE_PARAMETER,
+        date: { type: Type.STRING, description: "YYYY-MM-DD. Defaults to today." }
+      }
+    }
+  }
+];
+
+export const ASSISTANT_TOOL_NAMES = ASSISTANT_TOOLS.map(tool => tool.name!);
+
+const buildAssistantInstruction = ({ location, units, timeZone, language }: ChatContext) => `
+  You are SkyCast's weather assistant, chatting with a user about the weather.
+
+  Context:
+  - The user is viewing: ${formatLocationLabel(location)}
+  - Local date and time there: ${formatInZone(Date.now() / 1000, timeZone, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US')} (${timeZone})
+  - Units: temperature in ${UNIT_NAMES.temperature[units.temperature]}, wind in ${UNIT_NAMES.wind[units.wind]}, precipitation in ${UNIT_NAMES.precipitation[units.precipitation]}
+
+  Rules:
+  1. Use the tools for every weather fact (forecasts, air quality, past weather) instead of guessing or relying on memory.
+  2. Resolve relative times like "Saturday afternoon" against the local date above and pass explicit local date-times.
+  3. To compare places, call the tools once per place.
+  4. Tool results are already in the user's units and local times; quote them as given.
+  5. Reply in 2-5 conversational sentences. If a tool reports an error, say briefly what could not be found.
+  6. Reply in ${languageName(language)} unless the user writes in another language, then use theirs.
+`;
+
+// One model turn. The instruction is rebuilt per request so "here" and "now" follow the screen.
+export const generateChatTurn = async (ai: GoogleGenAI, contents: Content[], context: ChatContext): Promise<Content> => {
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents,
+    config: {
+      systemInstruction: buildAssistantInstruction(context),
+      tools: [{ functionDeclarations: ASSISTANT_TOOLS }]
+    }
+  });
+  return response.candidates?.[0]?.content || { role: 'model', parts: [] };
+};
+
+// 5. Structured Recommendations
+const ACTIVITY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.INTEGER, description: "0 (don't bother) to 10 (ideal)" },
+    note: { type: Type.STRING, description: "A few words on why" }
+  },
+  required: ["score", "note"]
+};
+
+const RECOMMENDATIONS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "One sentence overview of the next 24 hours" },
+    clothing: { type: Type.ARRAY, items: { type: Type.STRING }, description: "2-5 clothing layers or items, innermost first" },
+    umbrella: { type: Type.BOOLEAN },
+    sunscreen: { type: Type.BOOLEAN },
+    mask: { type: Type.BOOLEAN, description: "True when air quality is unhealthy for outdoor exertion" },
+    best_window: {
+      type: Type.OBJECT,
+      nullable: true,
+      description: "Best 1-3 hour daylight stretch to be outdoors, or null if none is pleasant",
+      properties: {
+        start: { type: Type.STRING, description: "Local YYYY-MM-DDTHH:mm, taken from the hourly rows" },
+        end: { type: Type.STRING, description: "Local YYYY-MM-DDTHH:mm" },
+        reason: { type: Type.STRING }
+      },
+      required: ["start", "end", "reason"]
+    },
+    activities: {
+      type: Type.OBJECT,
+      properties: { running: ACTIVITY_SCHEMA, cycling: ACTIVITY_SCHEMA, picnic: ACTIVITY_SCHEMA },
+      required: ["running", "cycling", "picnic"]
+    }
+  },
+  required: ["summary", "clothing", "umbrella", "sunscreen", "mask", "best_window", "activities"]
+};
+
+// Returns the model's parsed JSON as-is; the client validates it, since a schema constrains but does not guarantee the output
+export const generateRecommendations = async (ai: GoogleGenAI, { location, current, hourly, timeZone, language }: RecommendationRequest): Promise<unknown> => {
+  const now = Date.now() / 1000;
+  const localTime = (timestamp: number) => formatInZone(timestamp, timeZone, { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'sv-SE').replace(' ', 'T');
+  const rows = hourly
+    .filter(item => item.dt + 3600 > now && item.dt < now + 24 * 3600)
+    .map(item => `${localTime(item.dt)} | ${item.weather[0].main} | feels ${Math.round(item.feels_like)} | rain ${item.pop ?? 0}% ${item.precipitation.toFixed(1)} | wind ${Math.round(item.wind.speed)} gust ${item.wind.gust !== undefined ? Math.round(item.wind.gust) : '-'} | UV ${item.uv_index ?? '-'} | ${item.is_day === false ? 'night' : 'day'}`)
+    .join('\n');
+
+  // Metric throughout: the app converts for display, and text fields are told to avoid numbers
+  const prompt = `
+    You are a weather planner producing recommendations for ${formatLocationLabel(location)}.
+    Local time now: ${localTime(now)} (${timeZone})
+
+    Current:
+    - Weather: ${current.weather[0].description}
+    - Temperature: ${Math.round(current.main.temp)} °C (feels like ${Math.round(current.main.feels_like)} °C)
+    - Wind: ${Math.round(current.wind.speed)} m/s
+    - UV Index: ${current.uv_index ?? 'N/A'}
+    - Air Quality (US AQI): ${current.aqi ? current.aqi.us_aqi : 'N/A'}
+
+    Next 24 hours (local time | conditions | feels like °C | precipitation chance and mm | wind and gusts m/s | UV | day/night):
+    ${rows || 'Not available'}
+
+    Rules:
+    1. Base everything on the data above; umbrella, sunscreen and mask should reflect the next 12 hours.
+    2. Score running, cycling and a picnic for their best time in the next 24 hours.
+    3. Pick best_window start and end from the hourly rows, during daylight only.
+    4. Do not put temperatures or other measurements in any text; the app shows those in the user's units.
+    5. Write summary, clothing, reasons and notes in ${languageName(language)}.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: RECOMMENDATIONS_SCHEMA
+    }
+  });
+
+  if (!response.text) throw new Error("Empty response");
+  return JSON.parse(response.text);
+};
@@ -0,0 +1,21 @@
+import { createServer } from 'node:http';
+import { createApiHandler } from './api';
+
+// Standalone API server for production. Static files are served by nginx (see nginx.conf),
+// which proxies /api/* here.
+
+const port = Number(process.env.PORT) || 8787;
+const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const owmApiKey = process.env.OWM_API_KEY;
+
+const handleApi = createApiHandler({ apiKey, owmApiKey, trustProxy: process.env.TRUST_PROXY === 'true' });
+
+const server = createServer((req, res) => handleApi(req, res));
+
+server.listen(port, () => {
+  console.log(`SkyCast API listening on port ${port}`);
+  if (!apiKey) console.warn("GEMINI_API_KEY is not set; AI endpoints will answer 503.");
+});
+
+// Lets in-flight requests (including open insight streams) finish when the container stops
+process.on('SIGTERM', () => server.close(() => process.exit(0)));
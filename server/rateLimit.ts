@@ -0,0 +1,43 @@
+// Fixed-window request counter per key (client IP + route). In memory, so limits are per
+// server process; that is enough to stop one client from burning through the Gemini quota.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number; // Seconds until the window resets
+}
+
+interface Window {
+  count: number;
+  resetAt: number; // ms
+}
+
+// Expired windows are swept once the map grows past this, so it cannot grow without bound
+const SWEEP_THRESHOLD = 10000;
+
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const windows = new Map<string, Window>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return (key: string, now: number = Date.now()): RateLimitResult => {
+    if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= limit,
+      remaining: Math.max(0, limit - window.count),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000)
+    };
+  };
+};
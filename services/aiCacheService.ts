@@ -0,0 +1,93 @@
+// Cache for generated Gemini output. IndexedDB rather than localStorage (see cacheService.ts),
+// since a single scene image is a megabyte or more of base64.
+
+export type AiCacheStore = 'scenes' | 'insights';
+
+interface AiCacheRecord<T> {
+  key: string;
+  value: T;
+  createdAt: number; // epoch ms
+}
+
+const DB_NAME = 'skycast-ai';
+const DB_VERSION = 1;
+const STORES: AiCacheStore[] = ['scenes', 'insights'];
+
+const HOUR = 60 * 60 * 1000;
+
+// A scene for the same place and conditions still looks right weeks later; insights go stale with the day
+const TTLS: Record<AiCacheStore, number> = {
+  scenes: 30 * 24 * HOUR,
+  insights: 3 * HOUR
+};
+
+const MAX_RECORDS: Record<AiCacheStore, number> = {
+  scenes: 30,
+  insights: 100
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.filter(store => !request.result.objectStoreNames.contains(store)).forEach(store => {
+        request.result.createObjectStore(store, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private browsing, blocked storage) is retried on the next call instead of cached
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Drops the oldest records beyond the store's limit
+const prune = async (db: IDBDatabase, store: AiCacheStore) => {
+  const objectStore = db.transaction(store, 'readwrite').objectStore(store);
+  const excess = (await toPromise(objectStore.count())) - MAX_RECORDS[store];
+  if (excess <= 0) return;
+  const keys = await toPromise(objectStore.index('createdAt').getAllKeys(null, excess));
+  const cleanup = db.transaction(store, 'readwrite').objectStore(store);
+  await Promise.all(keys.map(key => toPromise(cleanup.delete(key))));
+};
+
+// Null when missing, expired or when IndexedDB is unavailable; the cache is only ever an optimisation
+export const readAiCache = async <T>(store: AiCacheStore, key: string, now: number = Date.now()): Promise<T | null> => {
+  try {
+    const db = await openDb();
+    const record = await toPromise<AiCacheRecord<T> | undefined>(db.transaction(store).objectStore(store).get(key));
+    return record && now - record.createdAt < TTLS[store] ? record.value : null;
+  } catch (error) {
+    console.warn("AI cache read failed:", error);
+    return null;
+  }
+};
+
+export const writeAiCache = async <T>(store: AiCacheStore, key: string, value: T) => {
+  try {
+    const db = await openDb();
+    const record: AiCacheRecord<T> = { key, value, createdAt: Date.now() };
+    await toPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+    await prune(db, store);
+  } catch (error) {
+    console.warn("AI cache write failed:", error);
+  }
+};
+
+// FNV-1a, enough to turn a long snapshot description into a short, stable key
+export const hashKey = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
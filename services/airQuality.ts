@@ -0,0 +1,94 @@
+import { AQIScale, Pollutant, PollenType } from '../types';
+import type { MessageKey } from '../locales/en';
+
+// Labels are message keys; the panels render them with t() and the assistant's tools in English
+
+export interface AQIBand {
+  max: number; // Inclusive upper bound of the band
+  label: MessageKey;
+  textClass: string;
+  barClass: string;
+}
+
+// Full six-band scales: US EPA, and the EEA European index (steps of 20)
+export const AQI_BANDS: Record<AQIScale, AQIBand[]> = {
+  us: [
+    { max: 50, label: 'aqi.good', textClass: 'text-green-400', barClass: 'bg-green-400' },
+    { max: 100, label: 'aqi.moderate', textClass: 'text-yellow-400', barClass: 'bg-yellow-400' },
+    { max: 150, label: 'aqi.sensitive', textClass: 'text-orange-400', barClass: 'bg-orange-400' },
+    { max: 200, label: 'aqi.unhealthy', textClass: 'text-red-500', barClass: 'bg-red-500' },
+    { max: 300, label: 'aqi.veryUnhealthy', textClass: 'text-purple-400', barClass: 'bg-purple-500' },
+    { max: Infinity, label: 'aqi.hazardous', textClass: 'text-rose-700', barClass: 'bg-rose-800' }
+  ],
+  eu: [
+    { max: 20, label: 'aqi.good', textClass: 'text-cyan-300', barClass: 'bg-cyan-300' },
+    { max: 40, label: 'aqi.fair', textClass: 'text-green-400', barClass: 'bg-green-400' },
+    { max: 60, label: 'aqi.moderate', textClass: 'text-yellow-400', barClass: 'bg-yellow-400' },
+    { max: 80, label: 'aqi.poor', textClass: 'text-red-500', barClass: 'bg-red-500' },
+    { max: 100, label: 'aqi.veryPoor', textClass: 'text-purple-400', barClass: 'bg-purple-500' },
+    { max: Infinity, label: 'aqi.extremelyPoor', textClass: 'text-rose-700', barClass: 'bg-rose-800' }
+  ]
+};
+
+export const AQI_SCALE_NAMES: Record<AQIScale, MessageKey> = { us: 'aqi.scaleUs', eu: 'aqi.scaleEu' };
+
+export const getAQIBand = (aqi: number, scale: AQIScale = 'us') =>
+  AQI_BANDS[scale].find(band => aqi <= band.max)!;
+
+// Shared by the detail view and the saved-locations dashboard; US scale unless told otherwise
+export const getAQIColor = (aqi: number, scale: AQIScale = 'us') => getAQIBand(aqi, scale).textClass;
+
+export const getAQIDescription = (aqi: number, scale: AQIScale = 'us') => getAQIBand(aqi, scale).label;
+
+export const POLLUTANT_LABELS: Record<Pollutant, MessageKey> = {
+  pm2_5: 'pollutant.pm2_5',
+  pm10: 'pollutant.pm10',
+  o3: 'pollutant.o3',
+  no2: 'pollutant.no2',
+  so2: 'pollutant.so2',
+  co: 'pollutant.co'
+};
+
+// The overall index is the worst sub-index, so the pollutant behind it is the one to act on
+export const getDominantPollutant = (subIndices: Partial<Record<Pollutant, number>>): Pollutant | null => {
+  const ranked = (Object.entries(subIndices) as [Pollutant, number][])
+    .filter(([, value]) => typeof value === 'number')
+    .sort(([, a], [, b]) => b - a);
+  return ranked.length > 0 ? ranked[0][0] : null;
+};
+
+export type PollenLevel = 'none' | 'low' | 'moderate' | 'high' | 'very high';
+
+export const POLLEN_LABELS: Record<PollenType, MessageKey> = {
+  alder: 'pollen.alder',
+  birch: 'pollen.birch',
+  grass: 'pollen.grass',
+  mugwort: 'pollen.mugwort',
+  olive: 'pollen.olive',
+  ragweed: 'pollen.ragweed'
+};
+
+export const POLLEN_LEVEL_LABELS: Record<PollenLevel, MessageKey> = {
+  none: 'pollen.none',
+  low: 'pollen.low',
+  moderate: 'pollen.moderate',
+  high: 'pollen.high',
+  'very high': 'pollen.veryHigh'
+};
+
+// US National Allergy Bureau bands (grains/m³): low / moderate / high cut-offs per plant group
+const POLLEN_LIMITS: Record<PollenType, [number, number, number]> = {
+  alder: [15, 90, 1500],
+  birch: [15, 90, 1500],
+  olive: [15, 90, 1500],
+  grass: [5, 20, 200],
+  mugwort: [10, 50, 500],
+  ragweed: [10, 50, 500]
+};
+
+export const getPollenLevel = (type: PollenType, grains: number): PollenLevel => {
+  if (grains <= 0) return 'none';
+  const levels: PollenLevel[] = ['low', 'moderate', 'high'];
+  const index = POLLEN_LIMITS[type].findIndex(limit => grains < limit);
+  return index === -1 ? 'very high' : levels[index];
+};
@@ -0,0 +1,114 @@
+import axios from 'axios';
+import { AirQualityReading, AirQualityReport, AQIScale, GeoLocation, Pollutant, PollenType } from '../types';
+import { getLocationKey } from './weatherService';
+import { readCache, writeCache, isFresh } from './cacheService';
+
+// Open-Meteo's air-quality API serves both indices, per-pollutant sub-indices and (in Europe) pollen,
+// whichever weather provider is configured
+const AQI_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+const FORECAST_DAYS = 5;
+
+const POLLUTANT_FIELDS: Record<Pollutant, string> = {
+  pm2_5: 'pm2_5',
+  pm10: 'pm10',
+  o3: 'ozone',
+  no2: 'nitrogen_dioxide',
+  so2: 'sulphur_dioxide',
+  co: 'carbon_monoxide'
+};
+
+// The European index has no CO component
+const SUB_INDEX_FIELDS: Record<AQIScale, Partial<Record<Pollutant, string>>> = {
+  us: {
+    pm2_5: 'us_aqi_pm2_5',
+    pm10: 'us_aqi_pm10',
+    o3: 'us_aqi_ozone',
+    no2: 'us_aqi_nitrogen_dioxide',
+    so2: 'us_aqi_sulphur_dioxide',
+    co: 'us_aqi_carbon_monoxide'
+  },
+  eu: {
+    pm2_5: 'european_aqi_pm2_5',
+    pm10: 'european_aqi_pm10',
+    o3: 'european_aqi_ozone',
+    no2: 'european_aqi_nitrogen_dioxide',
+    so2: 'european_aqi_sulphur_dioxide'
+  }
+};
+
+const POLLEN_FIELDS: Record<PollenType, string> = {
+  alder: 'alder_pollen',
+  birch: 'birch_pollen',
+  grass: 'grass_pollen',
+  mugwort: 'mugwort_pollen',
+  olive: 'olive_pollen',
+  ragweed: 'ragweed_pollen'
+};
+
+const FIELDS = [
+  'us_aqi',
+  'european_aqi',
+  ...Object.values(POLLUTANT_FIELDS),
+  ...Object.values(SUB_INDEX_FIELDS.us),
+  ...Object.values(SUB_INDEX_FIELDS.eu),
+  ...Object.values(POLLEN_FIELDS)
+].join(',');
+
+// Missing values arrive as null (e.g. pollen outside Europe) and are left out rather than shown as zero
+const pickNumbers = <K extends string>(fields: Partial<Record<K, string>>, read: (field: string) => any) =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .map(([key, field]) => [key, read(field as string)])
+      .filter(([, value]) => typeof value === 'number')
+  ) as Partial<Record<K, number>>;
+
+const mapReading = (time: number, read: (field: string) => any): AirQualityReading => ({
+  time,
+  us_aqi: typeof read('us_aqi') === 'number' ? read('us_aqi') : null,
+  eu_aqi: typeof read('european_aqi') === 'number' ? read('european_aqi') : null,
+  concentrations: pickNumbers(POLLUTANT_FIELDS, read),
+  subIndices: {
+    us: pickNumbers(SUB_INDEX_FIELDS.us, read),
+    eu: pickNumbers(SUB_INDEX_FIELDS.eu, read)
+  },
+  pollen: pickNumbers(POLLEN_FIELDS, read)
+});
+
+const getCacheKey = (location: GeoLocation) => `air|${getLocationKey(location)}`;
+
+// Cached alongside the weather bundles, so the panel opens instantly and still works offline
+export const peekAirQuality = (location: GeoLocation) => readCache<AirQualityReport>(getCacheKey(location));
+
+export const getAirQualityReport = async (location: GeoLocation): Promise<AirQualityReport> => {
+  const cached = peekAirQuality(location);
+  if (cached && isFresh(cached.fetchedAt, 'aqi')) return cached.value;
+
+  try {
+    const response = await axios.get(AQI_URL, {
+      params: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        current: FIELDS,
+        hourly: FIELDS,
+        forecast_days: FORECAST_DAYS,
+        timeformat: 'unixtime',
+        timezone: 'auto'
+      }
+    });
+    const { current, hourly } = response.data;
+
+    const report: AirQualityReport = {
+      current: mapReading(current.time, field => current[field]),
+      hourly: (hourly.time as number[])
+        .map((time, i) => mapReading(time, field => hourly[field]?.[i]))
+        .filter(reading => reading.time > current.time - 3600)
+    };
+    writeCache(getCacheKey(location), report);
+    return report;
+  } catch (error: any) {
+    console.error("Air quality fetch error:", error);
+    if (cached) return cached.value;
+    throw new Error(error.message || 'Failed to fetch air quality data');
+  }
+};
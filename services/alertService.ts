@@ -0,0 +1,241 @@
+import { AlertSeverity, AlertThresholds, AlertType, DismissedAlert, HourlyItem, LocalizedText, UnitSettings, WeatherAlert, WeatherBundle } from '../types';
+import type { MessageKey } from '../locales/en';
+import { getLocationKey } from './weatherService';
+import { convertPrecipitation, convertTemperature, convertWind, UNIT_LABELS } from './units';
+
+// Deterministic rules over current and forecast data; nothing here depends on Gemini,
+// so alerts keep working when the AI features are down or unconfigured.
+// Titles and descriptions are message keys, so a banner or notification renders them in its own language.
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  heatIndex: 32, // NWS "extreme caution"
+  windChill: -18, // Frostbite within 30 minutes
+  gust: 17, // ~60 km/h, enough to bring down branches
+  snowfall: 10,
+  uvIndex: 8, // WHO "very high"
+  aqi: 101 // Unhealthy for sensitive groups
+};
+
+const HOUR = 3600;
+const ALERT_HORIZON = 48 * HOUR;
+
+const SEVERITY_ORDER: AlertSeverity[] = ['minor', 'moderate', 'severe'];
+
+const maxSeverity = (a: AlertSeverity, b: AlertSeverity) =>
+  SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+
+// NWS Rothfusz regression, computed in °F; below ~27°C the simple Steadman form is used
+export const getHeatIndex = (celsius: number, humidity: number) => {
+  const t = celsius * 9 / 5 + 32;
+  let index = 0.5 * (t + 61 + (t - 68) * 1.2 + humidity * 0.094);
+  if ((index + t) / 2 >= 80) {
+    index = -42.379 + 2.04901523 * t + 10.14333127 * humidity
+      - 0.22475541 * t * humidity - 0.00683783 * t * t - 0.05481717 * humidity * humidity
+      + 0.00122874 * t * t * humidity + 0.00085282 * t * humidity * humidity
+      - 0.00000199 * t * t * humidity * humidity;
+    if (humidity < 13 && t >= 80 && t <= 112) {
+      index -= ((13 - humidity) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (humidity > 85 && t >= 80 && t <= 87) {
+      index += ((humidity - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+  return (index - 32) * 5 / 9;
+};
+
+// Environment Canada / NWS formula; only defined for cold, moving air
+export const getWindChill = (celsius: number, metersPerSecond: number) => {
+  const kmh = metersPerSecond * 3.6;
+  if (celsius > 10 || kmh <= 4.8) return celsius;
+  const v = Math.pow(kmh, 0.16);
+  return 13.12 + 0.6215 * celsius - 11.37 * v + 0.3965 * celsius * v;
+};
+
+// Severity for a value against ascending [level, severity] steps
+const ladder = (value: number, steps: [number, AlertSeverity][]): AlertSeverity | null =>
+  steps.reduce<AlertSeverity | null>((found, [level, severity]) => value >= level ? severity : found, null);
+
+interface AlertWindow {
+  start: number;
+  end: number;
+  severity: AlertSeverity;
+  peak: number;
+  items: HourlyItem[];
+}
+
+// Groups consecutive triggering hours into one window, keeping the worst severity and peak value
+const collectWindows = (
+  hourly: HourlyItem[],
+  evaluate: (item: HourlyItem) => { severity: AlertSeverity; value: number } | null,
+  compare: (a: number, b: number) => boolean = (a, b) => a > b
+): AlertWindow[] => {
+  const windows: AlertWindow[] = [];
+  let open: AlertWindow | null = null;
+  hourly.forEach((item, i) => {
+    const step = (hourly[i + 1]?.dt ?? item.dt + HOUR) - item.dt;
+    const result = evaluate(item);
+    if (!result) {
+      open = null;
+      return;
+    }
+    if (!open) {
+      open = { start: item.dt, end: item.dt + step, severity: result.severity, peak: result.value, items: [item] };
+      windows.push(open);
+    } else {
+      open.end = item.dt + step;
+      open.severity = maxSeverity(open.severity, result.severity);
+      if (compare(result.value, open.peak)) open.peak = result.value;
+      open.items.push(item);
+    }
+  });
+  return windows;
+};
+
+// WMO codes (0-99, Open-Meteo) and OWM condition ids (200-804) never overlap, so one list serves both providers
+const CODES = {
+  thunderstorm: [95, 96, 99, 200, 201, 202, 210, 211, 212, 221, 230, 231, 232],
+  severeThunderstorm: [96, 99, 202, 212], // Hail (WMO) or heavy storms (OWM)
+  freezingRain: [66, 67, 511],
+  heavyFreezingRain: [67],
+  heavySnow: [75, 86, 602, 622]
+};
+
+const hasCode = (item: HourlyItem, codes: number[]) => codes.includes(item.weather[0]?.id);
+
+export const evaluateAlerts = (
+  { location, current, forecast }: WeatherBundle,
+  thresholds: AlertThresholds,
+  units: UnitSettings,
+  now: number = Date.now() / 1000
+): WeatherAlert[] => {
+  const locationKey = getLocationKey(location);
+  const hourly = (forecast.hourly || []).filter(item => item.dt < now + ALERT_HORIZON);
+  const alerts: WeatherAlert[] = [];
+  const temperature = (celsius: number) => `${Math.round(convertTemperature(celsius, units.temperature))}${UNIT_LABELS.temperature[units.temperature]}`;
+  const wind = (metersPerSecond: number) => `${Math.round(convertWind(metersPerSecond, units.wind))} ${UNIT_LABELS.wind[units.wind]}`;
+
+  const add = (
+    type: AlertType,
+    window: Pick<AlertWindow, 'start' | 'end' | 'severity'>,
+    titles: Partial<Record<AlertSeverity, MessageKey>> & { moderate: MessageKey },
+    description: LocalizedText
+  ) => {
+    alerts.push({
+      id: `${locationKey}|${type}|${window.start}`,
+      type,
+      severity: window.severity,
+      title: { key: titles[window.severity] || titles.moderate },
+      description,
+      locationKey,
+      start: window.start,
+      end: window.end
+    });
+  };
+
+  collectWindows(hourly, item => {
+    const value = getHeatIndex(item.temp, item.humidity);
+    const severity = ladder(value, [[thresholds.heatIndex, 'moderate'], [thresholds.heatIndex + 9, 'severe']]);
+    return severity && { severity, value };
+  }).forEach(window => add('heat', window,
+    { moderate: 'alert.heat', severe: 'alert.heatSevere' },
+    { key: 'alert.heatDetail', params: { value: temperature(window.peak) } }));
+
+  collectWindows(hourly, item => {
+    const value = getWindChill(item.temp, item.wind.speed);
+    // Negated so the same ascending ladder works for "colder is worse"
+    const severity = ladder(-value, [[-thresholds.windChill, 'moderate'], [-(thresholds.windChill - 10), 'severe']]);
+    return severity && { severity, value };
+  }, (a, b) => a < b).forEach(window => add('cold', window,
+    { moderate: 'alert.cold', severe: 'alert.coldSevere' },
+    { key: 'alert.coldDetail', params: { value: temperature(window.peak) } }));
+
+  collectWindows(hourly, item => {
+    const value = item.wind.gust ?? item.wind.speed;
+    const severity = ladder(value, [[thresholds.gust, 'moderate'], [thresholds.gust + 8, 'severe']]);
+    return severity && { severity, value };
+  }).forEach(window => add('wind', window,
+    { moderate: 'alert.wind', severe: 'alert.windSevere' },
+    { key: 'alert.windDetail', params: { value: wind(window.peak) } }));
+
+  collectWindows(hourly, item => {
+    if (!hasCode(item, CODES.thunderstorm)) return null;
+    return { severity: hasCode(item, CODES.severeThunderstorm) ? 'severe' : 'moderate', value: 0 };
+  }).forEach(window => add('thunderstorm', window,
+    { moderate: 'alert.thunderstorm', severe: 'alert.thunderstormSevere' },
+    { key: 'alert.thunderstormDetail' }));
+
+  collectWindows(hourly, item => {
+    if (!hasCode(item, CODES.freezingRain)) return null;
+    return { severity: hasCode(item, CODES.heavyFreezingRain) ? 'severe' : 'moderate', value: 0 };
+  }).forEach(window => add('freezing-rain', window,
+    { moderate: 'alert.freezingRain', severe: 'alert.freezingRainSevere' },
+    { key: 'alert.freezingRainDetail' }));
+
+  // Each snowy spell is one alert, judged on the most snow that falls in any 24 hours of it;
+  // heavy-snow codes count even without amounts
+  const snowIn24h = (from: number) => hourly
+    .filter(item => item.dt >= from && item.dt < from + 24 * HOUR)
+    .reduce((sum, item) => sum + (item.snowfall || 0), 0);
+  collectWindows(hourly, item => {
+    const snowfall = item.snowfall || 0;
+    if (snowfall <= 0 && !hasCode(item, CODES.heavySnow)) return null;
+    return { severity: 'minor', value: snowfall };
+  }).forEach(window => {
+    const total = Math.max(...window.items.map(item => snowIn24h(item.dt)));
+    const heavyCode = window.items.some(item => hasCode(item, CODES.heavySnow));
+    const severity = ladder(total, [[thresholds.snowfall, 'moderate'], [thresholds.snowfall * 2, 'severe']]) || (heavyCode ? 'moderate' : null);
+    if (!severity) return;
+    // Snow depth uses the precipitation unit: centimetres, or inches for imperial users
+    const depth = units.precipitation === 'in'
+      ? `${convertPrecipitation(total * 10, 'in').toFixed(1)} in`
+      : `${Math.round(total)} cm`;
+    add('snow', { ...window, severity },
+      { moderate: 'alert.snow', severe: 'alert.snowSevere' },
+      { key: 'alert.snowDetail', params: { depth } });
+  });
+
+  const uvSteps = (value: number) => ladder(value, [[thresholds.uvIndex, 'moderate'], [thresholds.uvIndex + 3, 'severe']]);
+  const uvTitles = { moderate: 'alert.uv', severe: 'alert.uvSevere' } as const;
+  if (hourly.some(item => item.uv_index !== undefined)) {
+    collectWindows(hourly, item => {
+      const severity = uvSteps(item.uv_index ?? 0);
+      return severity && { severity, value: item.uv_index! };
+    }).forEach(window => add('uv', window, uvTitles,
+      { key: 'alert.uvDetail', params: { value: Math.round(window.peak) } }));
+  } else {
+    // Providers without hourly UV only give a daily peak; assume it spans late morning to mid-afternoon
+    forecast.list.filter(day => day.dt - 2 * HOUR < now + ALERT_HORIZON && day.dt + 3 * HOUR > now).forEach(day => {
+      const severity = day.uv_index !== undefined ? uvSteps(day.uv_index) : null;
+      if (!severity) return;
+      add('uv', { start: day.dt - 2 * HOUR, end: day.dt + 3 * HOUR, severity }, uvTitles,
+        { key: 'alert.uvDetail', params: { value: Math.round(day.uv_index!) } });
+    });
+  }
+
+  // Only a current AQI reading is available, so the alert covers the next few hours
+  if (current.aqi) {
+    const value = current.aqi.us_aqi;
+    const severity = ladder(value, [[thresholds.aqi, 'minor'], [thresholds.aqi + 50, 'moderate'], [thresholds.aqi + 100, 'severe']]);
+    if (severity) {
+      add('air-quality', { start: now, end: now + 3 * HOUR, severity },
+        { minor: 'alert.airSensitive', moderate: 'alert.air', severe: 'alert.airSevere' },
+        { key: severity === 'minor' ? 'alert.airDetailSensitive' : 'alert.airDetail', params: { value, pm: current.aqi.pm2_5 } });
+    }
+  }
+
+  return alerts
+    .filter(alert => alert.end > now)
+    .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) || a.start - b.start);
+};
+
+export const isDismissed = (alert: WeatherAlert, dismissed: DismissedAlert[]) =>
+  dismissed.some(entry =>
+    entry.type === alert.type &&
+    entry.locationKey === alert.locationKey &&
+    alert.start < entry.until &&
+    SEVERITY_ORDER.indexOf(alert.severity) <= SEVERITY_ORDER.indexOf(entry.severity));
+
+// Expired dismissals are dropped whenever a new one is added, so the list stays small
+export const dismissAlert = (dismissed: DismissedAlert[], alert: WeatherAlert, now: number = Date.now() / 1000): DismissedAlert[] => [
+  ...dismissed.filter(entry => entry.until > now),
+  { type: alert.type, locationKey: alert.locationKey, severity: alert.severity, until: alert.end }
+];
@@ -0,0 +1,196 @@
+import { ChatContext, ClimateNormal, PollenType, UnitSettings, WeatherBundle } from '../types';
+import { getWeatherBundle, peekWeatherBundle, formatLocationLabel } from './weatherService';
+import { isFresh } from './cacheService';
+import { getAirQualityReport } from './airQualityService';
+import { getAQIDescription, getDominantPollutant, getPollenLevel, POLLEN_LABELS, POLLUTANT_LABELS } from './airQuality';
+import { getClimateNormal, getDailyHistory, getWeatherComparison, describeAnomaly } from './historyService';
+import { convertPrecipitation, convertTemperature, convertWind, UNIT_LABELS } from './units';
+import { formatInZone, fromZonedTime, getLocalDate, resolveTimeZone } from './timezone';
+import { t, translate } from './i18n';
+import type { MessageKey } from '../locales/en';
+
+// Executors for the chat assistant's tools. Results are plain JSON already converted to the
+// user's units and the place's local time, so the model quotes numbers instead of converting them.
+// Labels stay English like the server's prompts; the model answers in the user's language.
+
+const HOUR = 3600;
+const DEFAULT_SPAN = 48 * HOUR;
+// Enough detail for "Saturday afternoon" without flooding the context on week-long ranges
+const MAX_HOURLY_ROWS = 48;
+
+export const TOOL_LABELS: Record<string, MessageKey> = {
+  get_forecast: 'chat.toolForecast',
+  get_air_quality: 'chat.toolAirQuality',
+  get_history: 'chat.toolHistory'
+};
+
+// The place on screen is reused when the model leaves `place` out
+const getBundle = async (place: unknown, context: ChatContext): Promise<WeatherBundle> => {
+  const target = typeof place === 'string' && place.trim() ? place : context.location;
+  const cached = peekWeatherBundle(target);
+  if (cached && isFresh(cached.fetchedAt)) return cached.value;
+  return getWeatherBundle(target);
+};
+
+const getZone = ({ current }: WeatherBundle) => resolveTimeZone(current.timezone_id, current.timezone);
+
+const unitLabels = (units: UnitSettings) => ({
+  temperature: UNIT_LABELS.temperature[units.temperature],
+  wind: UNIT_LABELS.wind[units.wind],
+  precipitation: UNIT_LABELS.precipitation[units.precipitation]
+});
+
+const converters = (units: UnitSettings) => ({
+  temperature: (celsius: number) => Math.round(convertTemperature(celsius, units.temperature)),
+  wind: (metersPerSecond: number) => Math.round(convertWind(metersPerSecond, units.wind)),
+  precipitation: (millimetres: number) => Number(convertPrecipitation(millimetres, units.precipitation).toFixed(units.precipitation === 'in' ? 2 : 1))
+});
+
+const placeInfo = (bundle: WeatherBundle) => {
+  const zone = getZone(bundle);
+  return {
+    place: formatLocationLabel(bundle.location),
+    time_zone: zone,
+    local_time_now: formatInZone(Date.now() / 1000, zone, { weekday: 'long', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US')
+  };
+};
+
+const getForecast = async (args: Record<string, any>, context: ChatContext) => {
+  const bundle = await getBundle(args.place, context);
+  const zone = getZone(bundle);
+  const convert = converters(context.units);
+  const now = Date.now() / 1000;
+
+  const start = (typeof args.start === 'string' && fromZonedTime(args.start, zone)) || now;
+  // A bare end date means the whole of that day
+  const end = (typeof args.end === 'string' && fromZonedTime(args.end.includes('T') ? args.end : `${args.end}T23:59`, zone)) || start + DEFAULT_SPAN;
+  const startDate = getLocalDate(start, zone);
+  const endDate = getLocalDate(end, zone);
+
+  const daily = bundle.forecast.list
+    .filter(day => day.dt_txt.slice(0, 10) >= startDate && day.dt_txt.slice(0, 10) <= endDate)
+    .map(day => ({
+      date: day.dt_txt.slice(0, 10),
+      weekday: formatInZone(day.dt, zone, { weekday: 'long' }, 'en-US'),
+      conditions: day.weather[0].description,
+      high: convert.temperature(day.main.temp_max),
+      low: convert.temperature(day.main.temp_min),
+      precipitation: convert.precipitation(day.precipitation),
+      precipitation_chance: day.pop ?? 0,
+      wind_max: convert.wind(day.wind.speed),
+      uv_index: day.uv_index
+    }));
+
+  const hours = (bundle.forecast.hourly || []).filter(item => item.dt + HOUR > start && item.dt <= end);
+  const step = Math.ceil(hours.length / MAX_HOURLY_ROWS);
+  const hourly = hours.filter((_, i) => i % step === 0).map(item => ({
+    time: formatInZone(item.dt, zone, { weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US'),
+    conditions: item.weather[0].main,
+    temperature: convert.temperature(item.temp),
+    feels_like: convert.temperature(item.feels_like),
+    precipitation: convert.precipitation(item.precipitation),
+    precipitation_chance: item.pop ?? 0,
+    wind: convert.wind(item.wind.speed),
+    gusts: item.wind.gust !== undefined ? convert.wind(item.wind.gust) : undefined
+  }));
+
+  const hourlyEnd = bundle.forecast.hourly?.[bundle.forecast.hourly.length - 1]?.dt;
+  return {
+    ...placeInfo(bundle),
+    units: unitLabels(context.units),
+    current: {
+      conditions: bundle.current.weather[0].description,
+      temperature: convert.temperature(bundle.current.main.temp),
+      feels_like: convert.temperature(bundle.current.main.feels_like),
+      wind: convert.wind(bundle.current.wind.speed)
+    },
+    daily,
+    hourly,
+    ...(hourlyEnd && end > hourlyEnd ? { note: `Hourly data ends ${formatInZone(hourlyEnd, zone, { weekday: 'long', hour: '2-digit', hourCycle: 'h23' }, 'en-US')}; use the daily values beyond that.` } : {}),
+    ...(daily.length === 0 && hourly.length === 0 ? { note: 'The requested range is outside the available forecast.' } : {})
+  };
+};
+
+const getAirQuality = async (args: Record<string, any>, context: ChatContext) => {
+  const bundle = await getBundle(args.place, context);
+  const zone = getZone(bundle);
+  const report = await getAirQualityReport(bundle.location);
+  const { current } = report;
+  const dominant = getDominantPollutant(current.subIndices.us);
+  const now = Date.now() / 1000;
+  const peak = report.hourly
+    .filter(reading => reading.time > now && reading.time < now + 24 * HOUR && reading.us_aqi !== null)
+    .reduce<typeof current | null>((worst, reading) => !worst || reading.us_aqi! > worst.us_aqi! ? reading : worst, null);
+
+  return {
+    ...placeInfo(bundle),
+    us_aqi: current.us_aqi,
+    us_category: current.us_aqi !== null ? t(getAQIDescription(current.us_aqi), {}, 'en') : null,
+    european_aqi: current.eu_aqi,
+    european_category: current.eu_aqi !== null ? t(getAQIDescription(current.eu_aqi, 'eu'), {}, 'en') : null,
+    dominant_pollutant: dominant ? t(POLLUTANT_LABELS[dominant], {}, 'en') : null,
+    next_24h_peak: peak ? { us_aqi: peak.us_aqi, time: formatInZone(peak.time, zone, { weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-US') } : null,
+    pollen: Object.fromEntries((Object.entries(current.pollen) as [PollenType, number][])
+      .map(([type, grains]) => [t(POLLEN_LABELS[type], {}, 'en'), getPollenLevel(type, grains)]))
+  };
+};
+
+const getHistory = async (args: Record<string, any>, context: ChatContext) => {
+  const bundle = await getBundle(args.place, context);
+  const convert = converters(context.units);
+  const today = getLocalDate(Date.now() / 1000, getZone(bundle));
+  const date = typeof args.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(args.date) ? args.date : today;
+  const normalOf = (normal: ClimateNormal | null) => normal && {
+    period: normal.period,
+    high: convert.temperature(normal.temp_max),
+    low: convert.temperature(normal.temp_min),
+    precipitation: convert.precipitation(normal.precipitation)
+  };
+
+  // Today compares the forecast against normal and last year; other dates read the archive
+  if (date === today) {
+    const comparison = await getWeatherComparison(bundle);
+    if (!comparison) return { error: 'No forecast for today to compare.' };
+    const anomaly = describeAnomaly(comparison, context.units.temperature);
+    return {
+      ...placeInfo(bundle),
+      units: unitLabels(context.units),
+      date,
+      today_forecast: { high: convert.temperature(comparison.today.temp_max), low: convert.temperature(comparison.today.temp_min), precipitation: convert.precipitation(comparison.today.precipitation) },
+      normal: normalOf(comparison.normal),
+      same_day_last_year: comparison.lastYear && { date: comparison.lastYear.date, high: convert.temperature(comparison.lastYear.temp_max), low: convert.temperature(comparison.lastYear.temp_min), precipitation: convert.precipitation(comparison.lastYear.precipitation) },
+      summary: anomaly && translate(anomaly, 'en')
+    };
+  }
+
+  const [days, normal] = await Promise.all([
+    getDailyHistory(bundle.location, date, date),
+    getClimateNormal(bundle.location, date).catch(() => null)
+  ]);
+  if (days.length === 0) return { error: `No archive data for ${date}; the archive trails real time by about five days.` };
+  return {
+    ...placeInfo(bundle),
+    units: unitLabels(context.units),
+    date,
+    observed: { high: convert.temperature(days[0].temp_max), low: convert.temperature(days[0].temp_min), precipitation: convert.precipitation(days[0].precipitation), wind_max: convert.wind(days[0].wind_max) },
+    normal: normalOf(normal)
+  };
+};
+
+const EXECUTORS: Record<string, (args: Record<string, any>, context: ChatContext) => Promise<Record<string, unknown>>> = {
+  get_forecast: getForecast,
+  get_air_quality: getAirQuality,
+  get_history: getHistory
+};
+
+// Failures are reported back to the model as data, so it can explain them instead of the chat erroring out
+export const runAssistantTool = async (name: string, args: Record<string, any>, context: ChatContext): Promise<Record<string, unknown>> => {
+  const executor = EXECUTORS[name];
+  if (!executor) return { error: `Unknown tool "${name}".` };
+  try {
+    return await executor(args, context);
+  } catch (error: any) {
+    console.error("Assistant tool error:", error);
+    return { error: error.message || 'The lookup failed.' };
+  }
+};
@@ -0,0 +1,262 @@
+import { AstronomyData, MoonInfo, SunTimes, TimeWindow } from '../types';
+import type { MessageKey } from '../locales/en';
+import { fromZonedTime, getLocalDate } from './timezone';
+
+// Low-precision ephemeris (after Astronomical Algorithms and the suncalc approach), computed
+// entirely offline from coordinates and time. Accuracy is about a minute for the sun and a few
+// minutes for the moon, which is plenty for planning a shoot.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397;
+
+// Sun altitudes (degrees) that mark each event; sunrise accounts for refraction and the solar disc
+const ANGLES = {
+  sunrise: -0.833,
+  blueHourEnd: -4, // Also where the golden hour begins
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+  goldenHourEnd: 6
+};
+
+const toJulian = (ms: number) => ms / DAY_MS - 0.5 + J1970;
+const fromJulian = (julian: number) => (julian + 0.5 - J1970) * DAY_MS;
+const toDays = (ms: number) => toJulian(ms) - J2000;
+
+const rightAscension = (longitude: number, latitude: number) =>
+  Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude));
+
+const declination = (longitude: number, latitude: number) =>
+  Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude));
+
+const altitude = (hourAngle: number, phi: number, dec: number) =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+
+const siderealTime = (days: number, lw: number) => RAD * (280.16 + 360.9856235 * days) - lw;
+
+// --- Sun ---
+
+const solarMeanAnomaly = (days: number) => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (meanAnomaly: number) => {
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+};
+
+const sunCoords = (days: number) => {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return { dec: declination(longitude, 0), ra: rightAscension(longitude, 0) };
+};
+
+const J0 = 0.0009;
+
+const approxTransit = (hourAngle: number, lw: number, cycle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+
+const solarTransit = (days: number, meanAnomaly: number, longitude: number) =>
+  J2000 + days + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+
+const toSeconds = (julian: number) => Math.round(fromJulian(julian) / 1000);
+
+// Sun events for the calendar day that contains `noonMs` (pass local midday to pin the right day)
+const computeSun = (noonMs: number, latitude: number, longitude: number) => {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const cycle = Math.round(toDays(noonMs) - J0 - lw / (2 * Math.PI));
+  const transitDays = approxTransit(0, lw, cycle);
+  const meanAnomaly = solarMeanAnomaly(transitDays);
+  const eclLongitude = eclipticLongitude(meanAnomaly);
+  const dec = declination(eclLongitude, 0);
+  const noon = solarTransit(transitDays, meanAnomaly, eclLongitude);
+
+  // [rising, setting] for an altitude, or nulls when the sun stays above or below it all day
+  const crossing = (angle: number): [number | null, number | null] => {
+    const cosHourAngle = (Math.sin(angle * RAD) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+    if (cosHourAngle < -1 || cosHourAngle > 1) return [null, null];
+    const set = solarTransit(approxTransit(Math.acos(cosHourAngle), lw, cycle), meanAnomaly, eclLongitude);
+    return [toSeconds(noon - (set - noon)), toSeconds(set)];
+  };
+
+  return { noon: toSeconds(noon), noonAltitude: altitude(0, phi, dec) / RAD, crossing };
+};
+
+const toWindow = (start: number | null, end: number | null): TimeWindow | null =>
+  start !== null && end !== null ? { start, end } : null;
+
+export const getSunTimes = (noonMs: number, latitude: number, longitude: number): SunTimes => {
+  const { noon, noonAltitude, crossing } = computeSun(noonMs, latitude, longitude);
+  const [sunrise, sunset] = crossing(ANGLES.sunrise);
+  const [civilDawn, civilDusk] = crossing(ANGLES.civil);
+  const [nauticalDawn, nauticalDusk] = crossing(ANGLES.nautical);
+  const [astronomicalDawn, astronomicalDusk] = crossing(ANGLES.astronomical);
+  const [goldenStart, goldenEnd] = crossing(ANGLES.blueHourEnd);
+  const [highStart, highEnd] = crossing(ANGLES.goldenHourEnd);
+
+  const polar = sunrise !== null ? null : noonAltitude > ANGLES.sunrise ? 'day' : 'night';
+  return {
+    solarNoon: noon,
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+    nauticalDawn,
+    nauticalDusk,
+    astronomicalDawn,
+    astronomicalDusk,
+    // In winter at high latitudes the sun never climbs past 6°, so the whole day is golden
+    goldenHour: {
+      morning: toWindow(goldenStart, highStart ?? (goldenStart !== null ? noon : null)),
+      evening: toWindow(highEnd ?? (goldenEnd !== null ? noon : null), goldenEnd)
+    },
+    blueHour: {
+      morning: toWindow(civilDawn, goldenStart),
+      evening: toWindow(goldenEnd, civilDusk)
+    },
+    dayLength: sunrise !== null && sunset !== null ? sunset - sunrise : polar === 'day' ? 86400 : 0,
+    polar
+  };
+};
+
+// --- Moon ---
+
+const moonCoords = (days: number) => {
+  const meanLongitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const meanDistance = RAD * (93.272 + 13.229350 * days);
+
+  const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const latitude = RAD * 5.128 * Math.sin(meanDistance);
+  return {
+    ra: rightAscension(longitude, latitude),
+    dec: declination(longitude, latitude),
+    distance: 385001 - 20905 * Math.cos(meanAnomaly) // km
+  };
+};
+
+// Refraction lifts objects near the horizon by about half a degree
+const refraction = (height: number) => {
+  const h = Math.max(height, 0);
+  return 0.0002967 / Math.tan(h + 0.00312536 / (h + 0.08901179));
+};
+
+const moonAltitude = (ms: number, latitude: number, longitude: number) => {
+  const days = toDays(ms);
+  const coords = moonCoords(days);
+  const height = altitude(siderealTime(days, RAD * -longitude) - coords.ra, RAD * latitude, coords.dec);
+  return height + refraction(height);
+};
+
+const SUN_DISTANCE = 149598000; // km
+
+const PHASE_NAMES: MessageKey[] = [
+  'moon.new', 'moon.waxingCrescent', 'moon.firstQuarter', 'moon.waxingGibbous',
+  'moon.full', 'moon.waningGibbous', 'moon.lastQuarter', 'moon.waningCrescent'
+];
+
+export const getMoonIllumination = (ms: number) => {
+  const days = toDays(ms);
+  const sun = sunCoords(days);
+  const moon = moonCoords(days);
+
+  const elongation = Math.acos(Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra));
+  const incidence = Math.atan2(SUN_DISTANCE * Math.sin(elongation), moon.distance - SUN_DISTANCE * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const phase = 0.5 + 0.5 * incidence * (angle < 0 ? -1 : 1) / Math.PI;
+
+  return {
+    illumination: (1 + Math.cos(incidence)) / 2,
+    phase,
+    // Each name covers an eighth of the cycle centred on its phase
+    phaseName: PHASE_NAMES[Math.round(phase * 8) % 8]
+  };
+};
+
+// Samples altitude hourly across the day and fits a parabola through each pair of hours to find crossings.
+// `dayHours` is 23 or 25 on days the clocks change.
+export const getMoonTimes = (dayStartMs: number, latitude: number, longitude: number, dayHours: number = 24) => {
+  const HOUR_MS = 3600000;
+  const horizon = 0.133 * RAD;
+  const heightAt = (hours: number) => moonAltitude(dayStartMs + hours * HOUR_MS, latitude, longitude) - horizon;
+
+  let rise: number | null = null;
+  let set: number | null = null;
+  let previous = heightAt(0);
+  let peak = previous;
+
+  for (let hour = 1; hour <= dayHours; hour += 2) {
+    const middle = heightAt(hour);
+    const next = heightAt(hour + 1);
+    const a = (previous + next) / 2 - middle;
+    const b = (next - previous) / 2;
+    const vertex = -b / (2 * a);
+    const extreme = (a * vertex + b) * vertex + middle;
+    const discriminant = b * b - 4 * a * middle;
+    peak = Math.max(peak, middle, next);
+
+    let roots = 0;
+    let first = 0;
+    let second = 0;
+    if (discriminant >= 0) {
+      const spread = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+      first = vertex - spread;
+      second = vertex + spread;
+      if (Math.abs(first) <= 1) roots++;
+      if (Math.abs(second) <= 1) roots++;
+      if (first < -1) first = second;
+    }
+
+    if (roots === 1) {
+      if (previous < 0) rise = hour + first;
+      else set = hour + first;
+    } else if (roots === 2) {
+      rise = hour + (extreme < 0 ? second : first);
+      set = hour + (extreme < 0 ? first : second);
+    }
+
+    if (rise !== null && set !== null) break;
+    previous = next;
+  }
+
+  // The last pair of samples can reach past a 23-hour day
+  const toTimestamp = (hours: number | null) => hours === null || hours > dayHours ? null : Math.round((dayStartMs + hours * HOUR_MS) / 1000);
+  return {
+    rise: toTimestamp(rise),
+    set: toTimestamp(set),
+    alwaysUp: rise === null && set === null && peak > 0,
+    alwaysDown: rise === null && set === null && peak <= 0
+  };
+};
+
+// Everything for the location's current calendar day in `timeZone`, whose midnights move with DST
+export const getAstronomy = (latitude: number, longitude: number, timeZone: string, now: number = Date.now()): AstronomyData => {
+  const date = getLocalDate(now / 1000, timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const dateAt = (offset: number) => new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+  const dayStartMs = fromZonedTime(date, timeZone)! * 1000;
+  const dayEndMs = fromZonedTime(dateAt(1), timeZone)! * 1000;
+
+  const sun = getSunTimes(fromZonedTime(`${date}T12:00`, timeZone)! * 1000, latitude, longitude);
+  const yesterday = getSunTimes(fromZonedTime(`${dateAt(-1)}T12:00`, timeZone)! * 1000, latitude, longitude);
+  const moon: MoonInfo = {
+    ...getMoonIllumination(now),
+    ...getMoonTimes(dayStartMs, latitude, longitude, (dayEndMs - dayStartMs) / 3600000)
+  };
+
+  return { sun, moon, dayLengthChange: sun.dayLength - yesterday.dayLength };
+};
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+
+// "+2m 14s" style, since the day-to-day change is usually only a few minutes
+export const formatDayLengthChange = (seconds: number) => {
+  const sign = seconds < 0 ? '−' : '+';
+  const absolute = Math.abs(seconds);
+  return `${sign}${Math.floor(absolute / 60)}m ${absolute % 60}s`;
+};
@@ -0,0 +1,101 @@
+// Persistent response cache backing stale-while-revalidate and offline display.
+// Entries live in localStorage so the last good data survives reloads without a network.
+
+export type CacheDataType = 'current' | 'hourly' | 'daily' | 'aqi' | 'climate';
+
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number; // epoch ms
+}
+
+const STORAGE_PREFIX = 'skycast.cache.';
+const INDEX_KEY = `${STORAGE_PREFIX}index`;
+const MAX_ENTRIES = 25;
+
+const MINUTE = 60 * 1000;
+
+// How long each kind of data counts as fresh; beyond this it still renders, but is revalidated
+export const DEFAULT_CACHE_TTLS: Record<CacheDataType, number> = {
+  current: 10 * MINUTE,
+  hourly: 30 * MINUTE,
+  daily: 3 * 60 * MINUTE,
+  aqi: 60 * MINUTE,
+  // Past observations only change when the reanalysis is revised
+  climate: 30 * 24 * 60 * MINUTE
+};
+
+let cacheTTLs: Record<CacheDataType, number> = { ...DEFAULT_CACHE_TTLS };
+
+export const configureCacheTTLs = (overrides: Partial<Record<CacheDataType, number>>) => {
+  cacheTTLs = { ...cacheTTLs, ...overrides };
+};
+
+export const getCacheTTLs = () => cacheTTLs;
+
+// A bundle holds every section at once, so it is fresh only while the shortest TTL among
+// the sections the caller is about to show has not run out
+export const BUNDLE_DATA: CacheDataType[] = ['current', 'hourly', 'daily', 'aqi'];
+
+export const isFresh = (
+  fetchedAt: number,
+  dataTypes: CacheDataType | CacheDataType[] = BUNDLE_DATA,
+  now: number = Date.now()
+) => ([] as CacheDataType[]).concat(dataTypes).every(type => now - fetchedAt < cacheTTLs[type]);
+
+// Most recently written keys last; used to evict the oldest entries past MAX_ENTRIES
+const readIndex = (): string[] => {
+  try {
+    const index = JSON.parse(localStorage.getItem(INDEX_KEY) || '[]');
+    return Array.isArray(index) ? index : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeIndex = (index: string[]) => {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+};
+
+const touch = (key: string) => {
+  const index = readIndex().filter(existing => existing !== key);
+  index.push(key);
+  while (index.length > MAX_ENTRIES) {
+    const evicted = index.shift()!;
+    localStorage.removeItem(STORAGE_PREFIX + evicted);
+  }
+  writeIndex(index);
+};
+
+export const readCache = <T>(key: string): CacheEntry<T> | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    if (!raw) return null;
+    const entry = JSON.parse(raw);
+    // Aliases let several lookups ("New Delhi", a coordinate id) share one stored payload
+    if (entry && typeof entry.aliasOf === 'string') return readCache<T>(entry.aliasOf);
+    return entry && typeof entry.fetchedAt === 'number' ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, value: T, fetchedAt: number = Date.now()) => {
+  const entry: CacheEntry<T> = { value, fetchedAt };
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    touch(key);
+  } catch (error) {
+    // Quota exceeded or storage disabled: the app keeps working, just without offline data
+    console.warn("Response cache write failed:", error);
+  }
+};
+
+export const writeCacheAlias = (alias: string, key: string) => {
+  if (alias === key) return;
+  try {
+    localStorage.setItem(STORAGE_PREFIX + alias, JSON.stringify({ aliasOf: key }));
+    touch(alias);
+  } catch (error) {
+    console.warn("Response cache write failed:", error);
+  }
+};
@@ -0,0 +1,19 @@
+import { GeoLocation } from '../types';
+import { getLocationKey } from './weatherService';
+
+export const isFavorite = (favorites: GeoLocation[], location: GeoLocation) =>
+  favorites.some(favorite => getLocationKey(favorite) === getLocationKey(location));
+
+export const addFavorite = (favorites: GeoLocation[], location: GeoLocation) =>
+  isFavorite(favorites, location) ? favorites : [...favorites, location];
+
+export const removeFavorite = (favorites: GeoLocation[], location: GeoLocation) =>
+  favorites.filter(favorite => getLocationKey(favorite) !== getLocationKey(location));
+
+export const moveFavorite = (favorites: GeoLocation[], from: number, to: number) => {
+  if (to < 0 || to >= favorites.length || from === to) return favorites;
+  const reordered = [...favorites];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
@@ -1,143 +1,248 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { CurrentWeather, Unit } from "../types";
+import type { Content, Part } from "@google/genai";
+import { ChatContext, ChatTurnRequest, CurrentWeather, GeminiFeature, InsightContext, InsightRequest, ParsedQuery, RecommendationRequest, SceneResult, UnitSettings, WeatherBundle } from "../types";
+import { runAssistantTool } from "./assistantTools";
+import { hashKey, readAiCache, writeAiCache } from "./aiCacheService";
+import { checkUsage, recordQuotaError, recordUsage } from "./geminiUsage";
+import { getLocale, t } from "./i18n";
+import { parseQueryLocally, sanitizeParsedQuery } from "./queryParser";
+import { getLocalDate } from "./timezone";
 
-// Initialize Gemini with a fallback to prevent constructor crash if key is undefined
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "" });
+// Gemini runs behind our own server (server/api.ts), which holds the API key; these are its clients.
+// Failures carry the HTTP status so callers can tell rate limits (429) from a missing key (503).
 
-// 1. Intelligent Search Parsing
-export const parseSearchQuery = async (query: string): Promise<{ city: string; intent?: string }> => {
-  if (!process.env.API_KEY) return { city: query };
+const API_BASE = '/api';
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze this weather search query: "${query}". 
-      Extract the target city name and any specific user intent (like checking for rain, cold, clothing advice, etc).
-      If the query is just a city name, return it.
-      If the city is a nickname (e.g. "Big Apple"), resolve it to the real city name.
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            city: { type: Type.STRING, description: "The resolved city name" },
-            intent: { type: Type.STRING, nullable: true, description: "The specific question or context from the user" }
-          },
-          required: ["city"]
-        }
-      }
+const toApiError = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  const header = Number(response.headers.get('Retry-After'));
+  return Object.assign(new Error(body?.error || `Request failed with status ${response.status}`), {
+    status: response.status,
+    retryAfter: body?.retryAfter ?? (header > 0 ? header : undefined)
+  });
+};
+
+// Budget and backoff gate in front of every Gemini request. Refusals look like a 429 with
+// `reason: 'budget'` so callers handle them like any other rate limit.
+const metered = async <T>(feature: GeminiFeature, request: () => Promise<T>): Promise<T> => {
+  const usage = checkUsage(feature);
+  if (!usage.allowed) {
+    throw Object.assign(new Error(usage.reason === 'budget' ? "Today's AI budget for this feature is used up." : "Gemini quota exceeded."), {
+      status: 429, reason: usage.reason, retryAfter: usage.retryAfter
     });
+  }
+  try {
+    const result = await request();
+    recordUsage(feature);
+    return result;
+  } catch (error: any) {
+    // A server without a key never reached Gemini, so it costs nothing
+    if (error.status !== 503) recordUsage(feature);
+    if (error.status === 429) recordQuotaError(feature, error.retryAfter);
+    throw error;
+  }
+};
+
+const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${API_BASE}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) throw await toApiError(response);
+  return response.json();
+};
 
-    const text = response.text;
-    if (text) return JSON.parse(text);
-    return { city: query };
+// 1. Intelligent Search Parsing
+// Falls back to the offline heuristics whenever Gemini is unavailable or answers out of shape.
+// "Tomorrow" and weekdays count from today in `timeZone`, the place on screen, rather than on the device.
+export const parseSearchQuery = async (query: string, timeZone?: string): Promise<ParsedQuery> => {
+  const today = getLocalDate(Date.now() / 1000, timeZone);
+  // Noon on the device clock keeps getDay() on that date whatever the device's own zone
+  const parseLocally = () => parseQueryLocally(query, new Date(`${today}T12:00`));
+  try {
+    const parsed = await metered('parse', () => postJson<unknown>('parse-query', { query, today }));
+    return sanitizeParsedQuery(parsed) || parseLocally();
   } catch (error) {
     console.warn("Intent parsing failed/skipped:", error);
-    return { city: query };
+    return parseLocally();
   }
 };
 
 // 2. Generative Background Image
-export const generateWeatherScene = async (weather: CurrentWeather): Promise<{ imageData: string | null; isQuotaError: boolean }> => {
-  if (!process.env.API_KEY) return { imageData: null, isQuotaError: false };
+// Scenes are reused per place, condition bucket and day/night, keyed off the provider-neutral icon code
+const SCENE_BUCKETS: Record<string, string> = {
+  '01': 'clear', '02': 'partly-cloudy', '03': 'cloudy', '04': 'cloudy',
+  '09': 'rain', '10': 'rain', '11': 'storm', '13': 'snow', '50': 'fog'
+};
 
-  try {
-    const timeOfDay = weather.weather[0].icon.includes('n') ? 'night' : 'day';
-    const description = weather.weather[0].description;
-    
-    // Enhanced prompt with location context
-    const prompt = `
-      A breathtaking, photorealistic, cinematic wide-angle photograph of ${weather.name} at ${timeOfDay}.
-      Weather conditions: ${description}.
-      Atmosphere: ${timeOfDay === 'night' ? 'city lights glowing, moody' : 'natural lighting, vibrant'}.
-      Style: High resolution, 8k, National Geographic style, wallpaper quality.
-      Important: No text, no overlays, no UI elements. Just the pure scene.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ text: prompt }] },
-      config: {
-         // Nano banana / flash image models
-      }
-    });
+const getSceneKey = ({ name, coord, weather }: CurrentWeather) => {
+  const icon = weather[0].icon;
+  return `${name}@${coord.lat.toFixed(1)},${coord.lon.toFixed(1)}|${SCENE_BUCKETS[icon.slice(0, 2)] || icon.slice(0, 2)}|${icon.endsWith('n') ? 'night' : 'day'}`;
+};
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return { imageData: `data:image/png;base64,${part.inlineData.data}`, isQuotaError: false };
-      }
-    }
-    return { imageData: null, isQuotaError: false };
+export const generateWeatherScene = async (weather: CurrentWeather): Promise<SceneResult> => {
+  const key = getSceneKey(weather);
+  const cached = await readAiCache<string>('scenes', key);
+  if (cached) return { imageData: cached, isQuotaError: false };
+
+  try {
+    // Only what the prompt uses; the rest of the weather object stays on the device
+    const result = await metered('scene', () => postJson<SceneResult>('scene', { weather: { name: weather.name, weather: weather.weather, main: weather.main, wind: weather.wind } }));
+    if (result.imageData) writeAiCache('scenes', key, result.imageData);
+    if (!result.isQuotaError) return result;
+    // The image model reports quota exhaustion as a result rather than an error
+    recordQuotaError('scene', result.retryAfter);
+    return { ...result, retryAfter: checkUsage('scene').retryAfter };
   } catch (error: any) {
-    // Gracefully handle quota exhaustion
-    if (error.status === 'RESOURCE_EXHAUSTED' || error.code === 429 || error.message?.includes('429')) {
-      console.warn("Gemini Image Quota Exceeded.");
-      return { imageData: null, isQuotaError: true };
-    }
-    console.error("Image generation failed:", error);
-    return { imageData: null, isQuotaError: false };
+    console.warn("Scene request failed:", error);
+    return error.status === 429
+      ? { imageData: null, isQuotaError: true, retryAfter: error.retryAfter }
+      : { imageData: null, isQuotaError: false };
   }
 };
 
 // 3. Smart Insights with Streaming
+// Keyed on exactly what the prompt sees, rounded the same way, so a refetch of unchanged weather reuses the answer
+const getInsightKey = ({ weather, units, intent, context: { alerts = [], comparison = null } = {}, language }: InsightRequest) => hashKey(JSON.stringify([
+  weather.name, weather.weather[0].description, Math.round(weather.main.temp), Math.round(weather.main.feels_like),
+  Math.round(weather.wind.speed), weather.main.humidity, weather.uv_index, weather.aqi?.us_aqi, weather.aqi?.pm2_5,
+  units.temperature, units.wind, intent || '', language || 'en',
+  alerts.map(alert => alert.title.key),
+  comparison && [comparison.anomaly !== null ? Math.round(comparison.anomaly * 10) : null, comparison.lastYear?.temp_max, comparison.lastYear?.temp_min]
+]));
+
 export const streamWeatherInsight = async (
   weather: CurrentWeather,
-  unit: Unit,
+  units: UnitSettings,
   userIntent: string | undefined,
-  onChunk: (text: string) => void
+  onChunk: (text: string) => void,
+  context: InsightContext = {}
 ): Promise<void> => {
-  if (!process.env.API_KEY) {
-    onChunk("Gemini API Key is missing. Please add it to your environment variables.");
+  const request: InsightRequest = { weather, units, intent: userIntent, context, language: getLocale() };
+  const key = getInsightKey(request);
+  const cached = await readAiCache<string>('insights', key);
+  if (cached) {
+    onChunk(cached);
     return;
   }
 
   try {
-    const unitLabel = unit === Unit.CELSIUS ? "Celsius" : "Fahrenheit";
-    const aqi = weather.aqi;
-    
-    // Chain of thought prompting with Deep Data
-    const prompt = `
-      Act as a witty and highly intelligent weather assistant.
-      
-      Context:
-      - City: ${weather.name}
-      - Weather: ${weather.weather[0].description}
-      - Temp: ${weather.main.temp}°${unitLabel} (Feels like ${weather.main.feels_like}°)
-      - Wind: ${weather.wind.speed} m/s
-      - Humidity: ${weather.main.humidity}%
-      - UV Index: ${weather.uv_index || 'N/A'}
-      - Air Quality (US AQI): ${aqi ? aqi.us_aqi : 'N/A'} (PM2.5: ${aqi ? aqi.pm2_5 : 'N/A'})
-      - User Intent: "${userIntent || 'General update'}"
-
-      Task:
-      1. Analyze the "feels like" temperature, wind chill, and especially the Air Quality (AQI) and UV.
-      2. If AQI is poor (>100), warn the user. If UV is high, suggest protection.
-      3. Formulate practical advice for clothing and activities.
-      4. Be concise (max 3-4 sentences) but conversational.
-
-      Output:
-      Just the final friendly response. No "Thinking..." prefixes.
-    `;
-
-    const streamResult = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
+    const text = await metered('insight', async () => {
+      const response = await fetch(`${API_BASE}/insight`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      if (!response.ok || !response.body) throw await toApiError(response);
 
-    for await (const chunk of streamResult) {
-      const text = chunk.text;
-      if (text) {
-        onChunk(text);
+      // Server-sent events over a POST, so EventSource (GET only) cannot be used
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      let streamed = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return streamed;
+        buffer += value;
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+        for (const event of events) {
+          const name = event.match(/^event: (.+)$/m)?.[1];
+          const data = event.match(/^data: (.*)$/m)?.[1];
+          const payload = data ? JSON.parse(data) : {};
+          if (name === 'done') return streamed;
+          if (name === 'error') throw Object.assign(new Error(payload.error), { status: payload.status, retryAfter: payload.retryAfter });
+          if (payload.text) {
+            streamed += payload.text;
+            onChunk(payload.text);
+          }
+        }
       }
-    }
-
+    });
+    if (text) writeAiCache('insights', key, text);
   } catch (error: any) {
     console.error("Gemini API Error:", error);
-    if (error.status === 'RESOURCE_EXHAUSTED' || error.code === 429) {
-       onChunk("I'm currently receiving too many requests. Please check back in a moment for your smart insights!");
+    if (error.reason === 'budget') {
+      onChunk(t('ai.insightBudget'));
+    } else if (error.status === 503) {
+      onChunk(t('ai.insightNoKey'));
+    } else if (error.status === 429) {
+      onChunk(t('ai.insightBusy'));
     } else {
-       onChunk("Gemini is currently offline due to atmospheric interference (API Error).");
+      onChunk(t('ai.insightOffline'));
+    }
+  }
+};
+
+// 4. Conversational Assistant with Tool Calling
+// Guards against a model that keeps calling tools without ever answering
+const MAX_TOOL_ROUNDS = 5;
+
+// The server returns one model turn at a time; tool calls are run here, where the weather services live
+export const sendChatMessage = async (
+  history: Content[],
+  message: string,
+  context: ChatContext,
+  onToolCall: (name: string) => void
+): Promise<{ reply: string; history: Content[] }> => {
+  try {
+    return await metered('chat', async () => {
+      const contents: Content[] = [...history, { role: 'user', parts: [{ text: message }] }];
+      const nextTurn = async () => {
+        const request: ChatTurnRequest = { contents, context };
+        const { content } = await postJson<{ content: Content }>('chat', request);
+        contents.push(content);
+        return content.parts || [];
+      };
+
+      let parts = await nextTurn();
+      for (let round = 0; parts.some(part => part.functionCall) && round < MAX_TOOL_ROUNDS; round++) {
+        const responses: Part[] = await Promise.all(parts.filter(part => part.functionCall).map(async ({ functionCall }) => {
+          const name = functionCall!.name || '';
+          onToolCall(name);
+          const result = await runAssistantTool(name, functionCall!.args || {}, context);
+          return { functionResponse: { id: functionCall!.id, name, response: result } };
+        }));
+        contents.push({ role: 'user', parts: responses });
+        parts = await nextTurn();
+      }
+
+      const reply = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+      return { reply: reply || t('ai.chatEmpty'), history: contents };
+    });
+  } catch (error: any) {
+    console.error("Gemini chat error:", error);
+    if (error.reason === 'budget') {
+      throw new Error(t('ai.chatBudget'));
+    }
+    if (error.status === 429) {
+      throw new Error(t('ai.chatBusy'));
     }
+    if (error.status === 503) {
+      throw new Error(t('ai.chatNoKey'));
+    }
+    throw new Error(error.message || t('ai.chatUnavailable'));
   }
-};
\ No newline at end of file
+};
+
+// Keeps the last `maxTurns` user questions, cutting only at a user's text message so
+// function calls stay paired with their responses
+export const trimChatHistory = (history: Content[], maxTurns: number = 20): Content[] => {
+  const starts = history
+    .map((content, index) => content.role === 'user' && content.parts?.some(part => part.text !== undefined) ? index : -1)
+    .filter(index => index !== -1);
+  return starts.length > maxTurns ? history.slice(starts[starts.length - maxTurns]) : history;
+};
+
+// 5. Structured Recommendations
+// Returns the model's parsed JSON as-is; the caller validates it, since a schema constrains but does not guarantee the output
+export const generateRecommendations = async ({ location, current, forecast }: WeatherBundle, timeZone: string): Promise<unknown> => {
+  const now = Date.now() / 1000;
+  const request: RecommendationRequest = {
+    location,
+    current,
+    hourly: (forecast.hourly || []).filter(item => item.dt + 3600 > now && item.dt < now + 24 * 3600),
+    timeZone,
+    language: getLocale()
+  };
+  return metered('recommendations', () => postJson<unknown>('recommendations', request));
+};
@@ -0,0 +1,91 @@
+import { GeminiFeature } from '../types';
+
+// Per-feature Gemini budgets for this browser, plus backoff after quota errors. Counts reset at
+// local midnight; a quota error blocks only its own feature, since each model has its own quota.
+
+export const DAILY_BUDGETS: Record<GeminiFeature, number> = {
+  insight: 50,
+  parse: 100,
+  scene: 10, // Image generation has the smallest free-tier quota by far
+  chat: 100,
+  recommendations: 30
+};
+
+// Used when a quota error does not say how long to wait
+const DEFAULT_RETRY_SECONDS = 5 * 60;
+
+const USAGE_KEY = 'skycast.geminiUsage';
+
+interface UsageState {
+  date: string; // Local YYYY-MM-DD the counts belong to
+  counts: Partial<Record<GeminiFeature, number>>;
+  blockedUntil: Partial<Record<GeminiFeature, number>>; // epoch ms
+}
+
+export interface UsageCheck {
+  allowed: boolean;
+  reason?: 'budget' | 'quota';
+  retryAfter?: number; // Seconds until the feature can be used again
+}
+
+const localDate = (now: number) => {
+  const date = new Date(now);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const nextMidnight = (now: number) => {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+};
+
+// Backoffs survive the day rollover; counts do not
+const loadUsage = (now: number): UsageState => {
+  let stored: UsageState | null = null;
+  try {
+    stored = JSON.parse(localStorage.getItem(USAGE_KEY) || 'null');
+  } catch {
+    // Corrupt or unavailable storage starts from zero
+  }
+  const blockedUntil = stored?.blockedUntil || {};
+  return stored?.date === localDate(now) ? { ...stored, blockedUntil } : { date: localDate(now), counts: {}, blockedUntil };
+};
+
+const saveUsage = (usage: UsageState) => {
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+  } catch (error) {
+    console.warn("Gemini usage could not be stored:", error);
+  }
+};
+
+export const checkUsage = (feature: GeminiFeature, now: number = Date.now()): UsageCheck => {
+  const usage = loadUsage(now);
+  const blockedUntil = usage.blockedUntil[feature] || 0;
+  if (blockedUntil > now) return { allowed: false, reason: 'quota', retryAfter: Math.ceil((blockedUntil - now) / 1000) };
+  if ((usage.counts[feature] || 0) >= DAILY_BUDGETS[feature]) {
+    return { allowed: false, reason: 'budget', retryAfter: Math.ceil((nextMidnight(now) - now) / 1000) };
+  }
+  return { allowed: true };
+};
+
+export const recordUsage = (feature: GeminiFeature, now: number = Date.now()) => {
+  const usage = loadUsage(now);
+  usage.counts[feature] = (usage.counts[feature] || 0) + 1;
+  saveUsage(usage);
+};
+
+export const recordQuotaError = (feature: GeminiFeature, retryAfter?: number, now: number = Date.now()) => {
+  const usage = loadUsage(now);
+  usage.blockedUntil[feature] = now + (retryAfter && retryAfter > 0 ? retryAfter : DEFAULT_RETRY_SECONDS) * 1000;
+  saveUsage(usage);
+};
+
+// Today's count per feature, for display next to the budgets
+export const getUsageCounts = (now: number = Date.now()): Record<GeminiFeature, number> => {
+  const { counts } = loadUsage(now);
+  return (Object.keys(DAILY_BUDGETS) as GeminiFeature[]).reduce((all, feature) => {
+    all[feature] = counts[feature] || 0;
+    return all;
+  }, {} as Record<GeminiFeature, number>);
+};
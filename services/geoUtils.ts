@@ -0,0 +1,37 @@
+import { GeoLocation } from '../types';
+
+// Decimal-degree pairs such as "48.85,2.35", "48.85 2.35" or "48.85N, 2.35E"
+const COORDINATE_PATTERN = /^\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([NS])?\s*([,;]|\s)\s*(-?\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])?\s*$/i;
+
+export const parseCoordinates = (query: string): { latitude: number; longitude: number } | null => {
+  const match = query.match(COORDINATE_PATTERN);
+  if (!match) return null;
+
+  const [, latValue, latHemisphere, separator, lonValue, lonHemisphere] = match;
+  // Two bare integers ("10 15") are more likely a search than a position
+  const explicit = separator !== undefined && /[,;]/.test(separator);
+  if (!explicit && !latHemisphere && !lonHemisphere && !latValue.includes('.') && !lonValue.includes('.')) return null;
+  let latitude = parseFloat(latValue);
+  let longitude = parseFloat(lonValue);
+  if (latHemisphere?.toUpperCase() === 'S') latitude = -Math.abs(latitude);
+  if (lonHemisphere?.toUpperCase() === 'W') longitude = -Math.abs(longitude);
+
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+export const formatCoordinates = (latitude: number, longitude: number) =>
+  `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? 'E' : 'W'}`;
+
+// For places without a geocoder id (raw coordinates, OWM results), derive a stable one from the position
+export const getCoordinateLocationId = (latitude: number, longitude: number) =>
+  Math.round((latitude + 90) * 100) * 100000 + Math.round((longitude + 180) * 100);
+
+// A nameless site labelled by its own coordinates, used when reverse geocoding finds nothing
+export const createCoordinateLocation = (latitude: number, longitude: number): GeoLocation => ({
+  id: getCoordinateLocationId(latitude, longitude),
+  name: formatCoordinates(latitude, longitude),
+  latitude,
+  longitude,
+  country: ''
+});
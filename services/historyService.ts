@@ -0,0 +1,211 @@
+import axios from 'axios';
+import { ClimateNormal, ForecastItem, GeoLocation, HistoricalDay, LocalizedText, Unit, WeatherBundle, WeatherComparison } from '../types';
+import { getLocationKey } from './weatherService';
+import { readCache, writeCache, isFresh } from './cacheService';
+import { convertTemperatureDelta } from './units';
+
+// ERA5 reanalysis via Open-Meteo's archive; it trails real time by about five days
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+
+// The WMO 1991–2020 climate normal period
+const NORMAL_FIRST_YEAR = 1991;
+const NORMAL_LAST_YEAR = 2020;
+const NORMAL_PERIOD = '1991–2020';
+// Days either side of the date pooled into its normal, which smooths out single odd years
+const NORMAL_WINDOW = 7;
+
+// Normals for a fixed period never change, so they are kept apart from the response cache,
+// whose LRU would otherwise evict them after a few searches and trigger the fetch again
+const NORMALS_KEY = 'skycast.normals';
+const MAX_NORMALS_LOCATIONS = 40;
+
+type StoredNormal = [number, number, number] | null;
+
+interface NormalsStore {
+  period: string;
+  order: string[]; // Location keys, least recently stored first
+  // [max, min, precipitation] by day-of-year index; null where the archive has no data
+  locations: Record<string, Record<string, StoredNormal>>;
+}
+
+const REQUEST_TIMEOUT = 10000;
+
+// Day-of-year on a leap-year calendar, so 29 Feb has its own slot (0-365)
+const getDayIndex = (date: string) => {
+  const [, month, day] = date.split('-').map(Number);
+  return Math.round((Date.UTC(2000, month - 1, day) - Date.UTC(2000, 0, 1)) / 86400000);
+};
+
+const fetchDaily = async (location: GeoLocation, startDate: string, endDate: string): Promise<HistoricalDay[]> => {
+  const response = await axios.get(ARCHIVE_URL, {
+    params: {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      start_date: startDate,
+      end_date: endDate,
+      daily: 'temperature_2m_max,temperature_2m_min,precipitation_sum,wind_speed_10m_max',
+      temperature_unit: 'celsius',
+      wind_speed_unit: 'ms',
+      precipitation_unit: 'mm',
+      timezone: 'auto'
+    },
+    timeout: REQUEST_TIMEOUT
+  });
+
+  const daily = response.data.daily;
+  return (daily.time as string[])
+    .map((date, i) => ({
+      date,
+      temp_max: daily.temperature_2m_max[i],
+      temp_min: daily.temperature_2m_min[i],
+      precipitation: daily.precipitation_sum[i] ?? 0,
+      wind_max: daily.wind_speed_10m_max[i]
+    }))
+    // Days not yet in the reanalysis come back as nulls
+    .filter(day => typeof day.temp_max === 'number' && typeof day.temp_min === 'number');
+};
+
+const getHistoryKey = (location: GeoLocation, startDate: string, endDate: string) =>
+  `history|${getLocationKey(location)}|${startDate}|${endDate}`;
+
+export const getDailyHistory = async (location: GeoLocation, startDate: string, endDate: string): Promise<HistoricalDay[]> => {
+  const key = getHistoryKey(location, startDate, endDate);
+  const cached = readCache<HistoricalDay[]>(key);
+  if (cached && isFresh(cached.fetchedAt, 'climate')) return cached.value;
+
+  try {
+    const days = await fetchDaily(location, startDate, endDate);
+    writeCache(key, days);
+    return days;
+  } catch (error: any) {
+    console.error("History fetch error:", error);
+    if (cached) return cached.value;
+    throw new Error(error.message || 'Failed to fetch historical weather');
+  }
+};
+
+// A store from an older baseline period is discarded as a whole
+const readNormalsStore = (): NormalsStore => {
+  try {
+    const store = JSON.parse(localStorage.getItem(NORMALS_KEY) || 'null');
+    if (store && store.period === NORMAL_PERIOD && Array.isArray(store.order) && store.locations) return store;
+  } catch {
+    // Unreadable or unavailable storage just means fetching again
+  }
+  return { period: NORMAL_PERIOD, order: [], locations: {} };
+};
+
+// undefined when the date has not been fetched for the location yet
+const readStoredNormal = (location: GeoLocation, date: string): ClimateNormal | null | undefined => {
+  const day = readNormalsStore().locations[getLocationKey(location)]?.[getDayIndex(date)];
+  if (day === undefined) return undefined;
+  return day && { temp_max: day[0], temp_min: day[1], precipitation: day[2], period: NORMAL_PERIOD };
+};
+
+// Rounded to 0.1, which keeps each location to a few kilobytes even with every date stored
+const storeNormal = (location: GeoLocation, date: string, normal: ClimateNormal | null) => {
+  const store = readNormalsStore();
+  const key = getLocationKey(location);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  store.locations[key] = {
+    ...store.locations[key],
+    [getDayIndex(date)]: normal && [round(normal.temp_max), round(normal.temp_min), round(normal.precipitation)]
+  };
+  store.order = [...store.order.filter(existing => existing !== key), key];
+  while (store.order.length > MAX_NORMALS_LOCATIONS) delete store.locations[store.order.shift()!];
+  try {
+    localStorage.setItem(NORMALS_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn("Climate normals could not be stored:", error);
+  }
+};
+
+// The ±NORMAL_WINDOW days around the date in each year of the period; 29 Feb is centred on
+// 28 Feb in common years
+const getNormalWindows = (date: string): [string, string][] => {
+  const [, month, day] = date.split('-').map(Number);
+  return Array.from({ length: NORMAL_LAST_YEAR - NORMAL_FIRST_YEAR + 1 }, (_, i) => {
+    const centre = new Date(Date.UTC(NORMAL_FIRST_YEAR + i, month - 1, day));
+    if (centre.getUTCMonth() !== month - 1) centre.setUTCDate(0);
+    const shift = (days: number) => new Date(centre.getTime() + days * 86400000).toISOString().slice(0, 10);
+    return [shift(-NORMAL_WINDOW), shift(NORMAL_WINDOW)];
+  });
+};
+
+// Only the window around the date is fetched from each year, about 450 days rather than the
+// whole 30-year span, which Open-Meteo bills by; null where the archive has no land data
+export const getClimateNormal = async (location: GeoLocation, date: string): Promise<ClimateNormal | null> => {
+  const stored = readStoredNormal(location, date);
+  if (stored !== undefined) return stored;
+
+  try {
+    const years = await Promise.all(getNormalWindows(date).map(([start, end]) => fetchDaily(location, start, end)));
+    const days = years.flat();
+    const normal = days.length > 0 ? {
+      temp_max: days.reduce((sum, day) => sum + day.temp_max, 0) / days.length,
+      temp_min: days.reduce((sum, day) => sum + day.temp_min, 0) / days.length,
+      precipitation: days.reduce((sum, day) => sum + day.precipitation, 0) / days.length,
+      period: NORMAL_PERIOD
+    } : null;
+    storeNormal(location, date, normal);
+    return normal;
+  } catch (error: any) {
+    console.error("Climate normals fetch error:", error);
+    throw new Error(error.message || 'Failed to fetch climate normals');
+  }
+};
+
+// 29 Feb falls back to 28 Feb in non-leap years
+const getSameDayLastYear = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const previous = new Date(Date.UTC(year - 1, month - 1, day));
+  if (previous.getUTCMonth() !== month - 1) previous.setUTCDate(0);
+  return previous.toISOString().slice(0, 10);
+};
+
+const buildComparison = (today: ForecastItem, date: string, normal: ClimateNormal | null, lastYear: HistoricalDay | null): WeatherComparison => {
+  const mean = (today.main.temp_max + today.main.temp_min) / 2;
+  return {
+    date,
+    today: { temp_max: today.main.temp_max, temp_min: today.main.temp_min, precipitation: today.precipitation },
+    normal,
+    lastYear,
+    anomaly: normal ? mean - (normal.temp_max + normal.temp_min) / 2 : null
+  };
+};
+
+// Compares the first forecast day (today, local to the location) with its normal and last year.
+// Either half may be missing if the archive is unreachable; the other is still returned.
+export const getWeatherComparison = async ({ location, forecast }: WeatherBundle): Promise<WeatherComparison | null> => {
+  const today = forecast.list[0];
+  if (!today) return null;
+  const date = today.dt_txt.slice(0, 10);
+  const lastYearDate = getSameDayLastYear(date);
+
+  const [normal, lastYear] = await Promise.all([
+    getClimateNormal(location, date).catch(() => null),
+    getDailyHistory(location, lastYearDate, lastYearDate).then(days => days[0] || null).catch(() => null)
+  ]);
+  return buildComparison(today, date, normal, lastYear);
+};
+
+// The same comparison from whatever is already cached, without waiting on the archive; null if nothing is
+export const peekWeatherComparison = ({ location, forecast }: WeatherBundle): WeatherComparison | null => {
+  const today = forecast.list[0];
+  if (!today) return null;
+  const date = today.dt_txt.slice(0, 10);
+  const lastYearDate = getSameDayLastYear(date);
+
+  const history = readCache<HistoricalDay[]>(getHistoryKey(location, lastYearDate, lastYearDate));
+  const normal = readStoredNormal(location, date) ?? null;
+  const lastYear = history?.value[0] || null;
+  return normal || lastYear ? buildComparison(today, date, normal, lastYear) : null;
+};
+
+// e.g. "4.2° warmer than the 1991–2020 average for this date"
+export const describeAnomaly = (comparison: WeatherComparison, unit: Unit): LocalizedText | null => {
+  if (comparison.anomaly === null || !comparison.normal) return null;
+  const delta = convertTemperatureDelta(comparison.anomaly, unit);
+  if (Math.abs(delta) < 0.5) return { key: 'history.average' };
+  return { key: delta > 0 ? 'history.warmer' : 'history.colder', params: { value: Math.abs(delta).toFixed(1), period: comparison.normal.period } };
+};
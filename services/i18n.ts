@@ -0,0 +1,108 @@
+import { LocalizedText, Locale, WeatherCondition } from '../types';
+import * as en from '../locales/en';
+import * as hi from '../locales/hi';
+import * as es from '../locales/es';
+import * as de from '../locales/de';
+import type { MessageKey, Messages } from '../locales/en';
+
+// UI strings, condition descriptions and number/date formatting for the active locale.
+// The locale is module state like the cache TTLs (see cacheService.ts): App sets it from
+// preferences, and every formatter below reads it at render time.
+
+interface LocaleInfo {
+  nativeName: string; // Shown in the language picker
+  englishName: string; // Used in Gemini prompts
+  tag: string; // BCP 47 tag for Intl, speech recognition and synthesis
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { nativeName: 'English', englishName: 'English', tag: 'en-US' },
+  hi: { nativeName: 'हिन्दी', englishName: 'Hindi', tag: 'hi-IN' },
+  es: { nativeName: 'Español', englishName: 'Spanish', tag: 'es-ES' },
+  de: { nativeName: 'Deutsch', englishName: 'German', tag: 'de-DE' }
+};
+
+const CATALOGS: Record<Locale, { messages: Messages; weatherCodes: Record<number, string> }> = { en, hi, es, de };
+
+let currentLocale: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+export const isMessageKey = (value: unknown): value is MessageKey =>
+  typeof value === 'string' && Object.hasOwn(en.messages, value);
+
+// First supported language in the browser's preference list, by primary subtag ("de-AT" -> de)
+export const detectLocale = (languages: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language]): Locale => {
+  const match = languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale);
+  return match || 'en';
+};
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+};
+
+export const getLocale = () => currentLocale;
+
+export const getIntlLocale = (locale: Locale = currentLocale) => LOCALES[locale].tag;
+
+// Falls back to English for anything a locale is missing, then to the key itself
+export const t = (key: MessageKey, params: Record<string, string | number> = {}, locale: Locale = currentLocale) => {
+  const template = CATALOGS[locale].messages[key] ?? en.messages[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+// Service-built text; the server, tool results and background notifications pass a locale of their own
+export const translate = ({ key, params = {} }: LocalizedText, locale: Locale = currentLocale): string => t(
+  key,
+  Object.fromEntries(Object.entries(params).map(([name, value]) => [name, typeof value === 'object' ? translate(value, locale) : value])),
+  locale
+);
+
+const numberFormatters = new Map<string, Intl.NumberFormat>();
+
+// Fixed decimals in the locale's own digits and separators ("1,5" in German)
+export const formatNumber = (value: number, fractionDigits: number = 0) => {
+  const key = `${currentLocale}|${fractionDigits}`;
+  let formatter = numberFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(getIntlLocale(), { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+    numberFormatters.set(key, formatter);
+  }
+  return formatter.format(value);
+};
+
+// OWM condition ids mapped onto the closest WMO code, so both providers share one set of translations
+const owmToWmo = (id: number): number => {
+  if (id >= 200 && id < 300) return 95;
+  if (id >= 300 && id < 400) return 53;
+  if (id === 500) return 61;
+  if (id === 501) return 63;
+  if (id >= 502 && id <= 504) return 65;
+  if (id === 511) return 66;
+  if (id === 520) return 80;
+  if (id === 521) return 81;
+  if (id === 522 || id === 531) return 82;
+  if (id === 600) return 71;
+  if (id === 601) return 73;
+  if (id === 602) return 75;
+  if (id >= 611 && id <= 616) return 77;
+  if (id === 620) return 85;
+  if (id === 621 || id === 622) return 86;
+  if (id >= 700 && id < 800) return 45;
+  if (id === 800) return 0;
+  if (id === 801) return 1;
+  if (id === 802) return 2;
+  return 3;
+};
+
+export const describeWeatherCode = (wmoCode: number, locale: Locale = currentLocale) =>
+  CATALOGS[locale].weatherCodes[wmoCode] || en.weatherCodes[wmoCode] || 'Unknown';
+
+// Stored conditions stay English (prompts and tools read them); this is the display text.
+// Open-Meteo ids are WMO codes (< 100), OpenWeatherMap ids start at 200.
+export const describeCondition = ({ id, description, main }: WeatherCondition) => {
+  if (currentLocale === 'en') return description || main;
+  return describeWeatherCode(id < 100 ? id : owmToWmo(id));
+};
@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { GeoLocation, LocalizedText, Nowcast, NowcastSlot, PrecipitationIntensity } from '../types';
+import type { MessageKey } from '../locales/en';
+
+// Always Open-Meteo: it is keyless and the only backend with 15-minute precipitation
+const NOWCAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+const SLOT_SECONDS = 15 * 60;
+const NOWCAST_SLOTS = 8; // 2 hours
+const WET_THRESHOLD = 0.1; // mm per slot; anything less is model noise
+
+// Hourly-rate bands (mm/h) used for rain gauges: light < 2.5, moderate < 7.6, heavy above
+const getIntensity = (millimetres: number): PrecipitationIntensity => {
+  if (millimetres < WET_THRESHOLD) return 'none';
+  const hourlyRate = millimetres * (3600 / SLOT_SECONDS);
+  if (hourlyRate < 2.5) return 'light';
+  if (hourlyRate < 7.6) return 'moderate';
+  return 'heavy';
+};
+
+const INTENSITY_ORDER: PrecipitationIntensity[] = ['none', 'light', 'moderate', 'heavy'];
+
+// Commute-scale estimates read better rounded to 5 minutes
+const roundMinutes = (seconds: number) => Math.max(5, Math.round(seconds / 60 / 5) * 5);
+
+const SPELL_LABELS: Record<'rain' | 'snow', Record<Exclude<PrecipitationIntensity, 'none'>, MessageKey>> = {
+  rain: { light: 'nowcast.lightRain', moderate: 'nowcast.moderateRain', heavy: 'nowcast.heavyRain' },
+  snow: { light: 'nowcast.lightSnow', moderate: 'nowcast.moderateSnow', heavy: 'nowcast.heavySnow' }
+};
+
+const summarize = (slots: NowcastSlot[], now: number): LocalizedText => {
+  const start = slots.findIndex(slot => slot.intensity !== 'none');
+  if (start === -1) return { key: 'nowcast.dry' };
+
+  const end = slots.findIndex((slot, i) => i > start && slot.intensity === 'none');
+  const spell = slots.slice(start, end === -1 ? undefined : end);
+  const peak = spell.reduce((max, slot) =>
+    INTENSITY_ORDER.indexOf(slot.intensity) > INTENSITY_ORDER.indexOf(max) ? slot.intensity : max, slots[start].intensity);
+  const kind = spell.some(slot => slot.snowfall > 0) ? 'snow' : 'rain';
+  const label: LocalizedText = { key: SPELL_LABELS[kind][peak as Exclude<PrecipitationIntensity, 'none'>] };
+
+  const startsAt = slots[start].time;
+  if (startsAt <= now) {
+    return end === -1
+      ? { key: 'nowcast.ongoing', params: { label } }
+      : { key: 'nowcast.stopping', params: { label, minutes: roundMinutes(slots[end].time - now) } };
+  }
+  const minutes = roundMinutes(startsAt - now);
+  return end === -1
+    ? { key: 'nowcast.startingLong', params: { label, minutes } }
+    : { key: 'nowcast.starting', params: { label, minutes, duration: roundMinutes(slots[end].time - startsAt) } };
+};
+
+// Pure so it can be checked against fixed data; `now` is unix seconds
+export const buildNowcast = (
+  times: number[],
+  precipitation: number[],
+  snowfall: number[],
+  now: number = Date.now() / 1000
+): Nowcast => {
+  const slots: NowcastSlot[] = times
+    .map((time, i) => ({
+      time,
+      precipitation: precipitation[i] || 0,
+      snowfall: snowfall[i] || 0,
+      intensity: getIntensity(precipitation[i] || 0)
+    }))
+    .filter(slot => slot.time + SLOT_SECONDS > now)
+    .slice(0, NOWCAST_SLOTS);
+
+  return { slots, summary: summarize(slots, now) };
+};
+
+export const getNowcast = async (location: GeoLocation): Promise<Nowcast> => {
+  try {
+    const response = await axios.get(NOWCAST_URL, {
+      params: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        minutely_15: 'precipitation,snowfall',
+        // One past slot so the slot containing "now" is always present
+        past_minutely_15: 1,
+        forecast_minutely_15: NOWCAST_SLOTS + 1,
+        precipitation_unit: 'mm',
+        timeformat: 'unixtime'
+      }
+    });
+    const data = response.data.minutely_15;
+    return buildNowcast(data.time, data.precipitation, data.snowfall);
+  } catch (error: any) {
+    console.error("Nowcast fetch error:", error);
+    throw new Error(error.message || 'Failed to fetch precipitation nowcast');
+  }
+};
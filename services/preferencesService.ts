@@ -0,0 +1,155 @@
+import { AlertThresholds, DismissedAlert, GeoLocation, NotificationSettings, QuietHours, Unit, UnitSettings, UserPreferences } from '../types';
+import { DEFAULT_UNITS, UNIT_LABELS } from './units';
+import { DEFAULT_ALERT_THRESHOLDS } from './alertService';
+import { detectLocale, isLocale } from './i18n';
+import { DEFAULT_VOICE_SETTINGS, sanitizeVoiceSettings } from './speech';
+
+export const PREFERENCES_KEY = 'skycast.preferences';
+export const PREFERENCES_VERSION = 2;
+
+// Saved locations lived under their own key before the preferences store existed
+const LEGACY_FAVORITES_KEY = 'skycast.favorites';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  version: PREFERENCES_VERSION,
+  units: DEFAULT_UNITS,
+  lastLocation: null,
+  ttsEnabled: false,
+  aiBackground: true,
+  favorites: [],
+  alertThresholds: DEFAULT_ALERT_THRESHOLDS,
+  dismissedAlerts: [],
+  notifications: { enabled: false, quietHours: { start: 22, end: 7 } },
+  timeDisplay: 'location',
+  insightMode: 'summary',
+  locale: detectLocale(),
+  voice: DEFAULT_VOICE_SETTINGS
+};
+
+const isGeoLocation = (value: any): value is GeoLocation =>
+  !!value && typeof value.name === 'string' && typeof value.latitude === 'number' && typeof value.longitude === 'number';
+
+const readJSON = (key: string): any => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Each entry upgrades a stored object from version N to N + 1.
+// Version 0 means "nothing stored yet", which is where legacy keys are folded in.
+const MIGRATIONS: Record<number, (stored: any) => any> = {
+  0: (stored) => {
+    const legacyFavorites = readJSON(LEGACY_FAVORITES_KEY);
+    try {
+      localStorage.removeItem(LEGACY_FAVORITES_KEY);
+    } catch {
+      // Storage may be unavailable (private mode); the legacy key is simply left behind
+    }
+    return { ...stored, favorites: Array.isArray(legacyFavorites) ? legacyFavorites : [], version: 1 };
+  },
+  // v1 had a single temperature toggle; it becomes one dimension of independent unit settings
+  1: ({ unit, ...stored }) => ({
+    ...stored,
+    units: { ...DEFAULT_UNITS, temperature: unit === Unit.FAHRENHEIT ? Unit.FAHRENHEIT : Unit.CELSIUS },
+    version: 2
+  })
+};
+
+export const migratePreferences = (stored: any): any => {
+  let current = stored && typeof stored === 'object' ? stored : { version: 0 };
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  while (version < PREFERENCES_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) break;
+    current = migrate(current);
+    version = current.version;
+  }
+  return current;
+};
+
+const pickUnit = <T extends string>(value: any, allowed: Record<T, string>, fallback: T): T =>
+  typeof value === 'string' && value in allowed ? value as T : fallback;
+
+const sanitizeUnits = (units: any): UnitSettings => ({
+  temperature: pickUnit(units?.temperature, UNIT_LABELS.temperature, DEFAULT_UNITS.temperature),
+  wind: pickUnit(units?.wind, UNIT_LABELS.wind, DEFAULT_UNITS.wind),
+  pressure: pickUnit(units?.pressure, UNIT_LABELS.pressure, DEFAULT_UNITS.pressure),
+  precipitation: pickUnit(units?.precipitation, UNIT_LABELS.precipitation, DEFAULT_UNITS.precipitation),
+  distance: pickUnit(units?.distance, UNIT_LABELS.distance, DEFAULT_UNITS.distance)
+});
+
+const sanitizeThresholds = (thresholds: any): AlertThresholds => Object.fromEntries(
+  Object.entries(DEFAULT_ALERT_THRESHOLDS).map(([key, fallback]) => {
+    const value = thresholds?.[key];
+    return [key, typeof value === 'number' && Number.isFinite(value) ? value : fallback];
+  })
+) as AlertThresholds;
+
+const isDismissedAlert = (value: any): value is DismissedAlert =>
+  !!value && typeof value.type === 'string' && typeof value.locationKey === 'string' && typeof value.until === 'number';
+
+const isHour = (value: any) => Number.isInteger(value) && value >= 0 && value <= 23;
+
+const sanitizeNotifications = (notifications: any): NotificationSettings => {
+  const quietHours: QuietHours | null = notifications?.quietHours === null
+    ? null
+    : isHour(notifications?.quietHours?.start) && isHour(notifications?.quietHours?.end)
+      ? { start: notifications.quietHours.start, end: notifications.quietHours.end }
+      : DEFAULT_PREFERENCES.notifications.quietHours;
+  return {
+    enabled: typeof notifications?.enabled === 'boolean' ? notifications.enabled : DEFAULT_PREFERENCES.notifications.enabled,
+    quietHours
+  };
+};
+
+// Unknown or malformed fields fall back to defaults instead of breaking the app on boot
+const sanitize = (stored: any): UserPreferences => ({
+  version: PREFERENCES_VERSION,
+  units: sanitizeUnits(stored?.units),
+  lastLocation: isGeoLocation(stored?.lastLocation) ? stored.lastLocation : null,
+  ttsEnabled: typeof stored?.ttsEnabled === 'boolean' ? stored.ttsEnabled : DEFAULT_PREFERENCES.ttsEnabled,
+  aiBackground: typeof stored?.aiBackground === 'boolean' ? stored.aiBackground : DEFAULT_PREFERENCES.aiBackground,
+  favorites: Array.isArray(stored?.favorites) ? stored.favorites.filter(isGeoLocation) : [],
+  alertThresholds: sanitizeThresholds(stored?.alertThresholds),
+  dismissedAlerts: Array.isArray(stored?.dismissedAlerts) ? stored.dismissedAlerts.filter(isDismissedAlert) : [],
+  notifications: sanitizeNotifications(stored?.notifications),
+  timeDisplay: stored?.timeDisplay === 'device' ? 'device' : 'location',
+  insightMode: stored?.insightMode === 'plan' ? 'plan' : 'summary',
+  locale: isLocale(stored?.locale) ? stored.locale : DEFAULT_PREFERENCES.locale,
+  voice: sanitizeVoiceSettings(stored?.voice)
+});
+
+export const parsePreferences = (raw: string | null): UserPreferences => {
+  try {
+    const stored = raw ? JSON.parse(raw) : null;
+    if (stored && stored.version > PREFERENCES_VERSION) {
+      console.warn("Preferences were written by a newer version; using what can be read.");
+    }
+    return sanitize(migratePreferences(stored));
+  } catch (error) {
+    console.warn("Preferences could not be read:", error);
+    return { ...DEFAULT_PREFERENCES };
+  }
+};
+
+export const loadPreferences = (): UserPreferences => {
+  try {
+    const preferences = parsePreferences(localStorage.getItem(PREFERENCES_KEY));
+    savePreferences(preferences);
+    return preferences;
+  } catch {
+    return { ...DEFAULT_PREFERENCES };
+  }
+};
+
+export const savePreferences = (preferences: UserPreferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("Preferences could not be stored:", error);
+  }
+};
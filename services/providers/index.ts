@@ -0,0 +1,23 @@
+import { WeatherProvider, WeatherProviderId } from '../../types';
+import { openMeteoProvider } from './openMeteo';
+import { openWeatherMapProvider } from './openWeatherMap';
+
+const PROVIDERS: Record<WeatherProviderId, WeatherProvider> = {
+  'open-meteo': openMeteoProvider,
+  'openweathermap': openWeatherMapProvider
+};
+
+const DEFAULT_PROVIDER: WeatherProviderId = 'open-meteo';
+
+// Resolve the active backend from WEATHER_PROVIDER, falling back to Open-Meteo when the name is unknown.
+// OpenWeatherMap's key lives on the server, which answers 503 when it is missing.
+export const getWeatherProvider = (): WeatherProvider => {
+  const requested = (process.env.WEATHER_PROVIDER || DEFAULT_PROVIDER) as WeatherProviderId;
+  const provider = PROVIDERS[requested];
+
+  if (!provider) {
+    console.warn(`Unknown weather provider '${requested}', using ${DEFAULT_PROVIDER}.`);
+    return PROVIDERS[DEFAULT_PROVIDER];
+  }
+  return provider;
+};
@@ -0,0 +1,329 @@
+import axios from 'axios';
+import { getCoordinateLocationId } from '../geoUtils';
+import { getLocalDate } from '../timezone';
+import { describeWeatherCode, getLocale } from '../i18n';
+import { CurrentWeather, ForecastResponse, ForecastItem, HourlyItem, GeoLocation, LocationSearchOptions, ForecastOptions, WeatherBundle, WeatherProvider } from '../../types';
+
+const GEO_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+// Open-Meteo has no reverse geocoder; BigDataCloud's client endpoint is keyless
+const REVERSE_GEO_URL = 'https://api.bigdatacloud.net/data/reverse-geocode-client';
+const WEATHER_URL = 'https://api.open-meteo.com/v1/forecast';
+const AQI_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+const MAX_FORECAST_DAYS = 16;
+
+// Helper to map WMO codes to OWM-style icon codes that our UI expects
+const getIconCode = (wmoCode: number, isDay: number): string => {
+  const suffix = isDay ? 'd' : 'n';
+
+  // WMO Code mapping
+  if (wmoCode === 0) return `01${suffix}`;
+  if (wmoCode === 1) return `02${suffix}`;
+  if (wmoCode === 2) return `03${suffix}`;
+  if (wmoCode === 3) return `04${suffix}`;
+  if (wmoCode === 45 || wmoCode === 48) return `50${suffix}`;
+  if (wmoCode >= 51 && wmoCode <= 57) return `09${suffix}`;
+  if (wmoCode >= 61 && wmoCode <= 67) return `10${suffix}`;
+  if (wmoCode >= 80 && wmoCode <= 82) return `09${suffix}`;
+  if ((wmoCode >= 71 && wmoCode <= 77) || (wmoCode >= 85 && wmoCode <= 86)) return `13${suffix}`;
+  if (wmoCode >= 95 && wmoCode <= 99) return `11${suffix}`;
+
+  return `01${suffix}`;
+};
+
+// Stored descriptions are always English; the UI translates them from the condition id
+const getDescription = (wmoCode: number): string => describeWeatherCode(wmoCode, 'en');
+
+// OpenMeteo Geocoding
+const searchLocations = async (query: string, { count = 10, signal }: LocationSearchOptions = {}): Promise<GeoLocation[]> => {
+  const response = await axios.get(GEO_URL, {
+    params: {
+      name: query,
+      count,
+      language: getLocale(),
+      format: 'json'
+    },
+    signal
+  });
+
+  return (response.data.results || []).map((result: any): GeoLocation => ({
+    id: result.id,
+    name: result.name,
+    latitude: result.latitude,
+    longitude: result.longitude,
+    country: result.country,
+    country_code: result.country_code,
+    admin1: result.admin1,
+    population: result.population,
+    timezone: result.timezone
+  }));
+};
+
+const reverseGeocode = async (latitude: number, longitude: number): Promise<GeoLocation | null> => {
+  const response = await axios.get(REVERSE_GEO_URL, {
+    params: { latitude, longitude, localityLanguage: getLocale() }
+  });
+
+  const { city, locality, principalSubdivision, countryName, countryCode } = response.data || {};
+  const name = city || locality;
+  if (!name) return null;
+  return {
+    id: getCoordinateLocationId(latitude, longitude),
+    name,
+    latitude,
+    longitude,
+    country: countryName || '',
+    country_code: countryCode,
+    admin1: principalSubdivision
+  };
+};
+
+// Open-Meteo has no current visibility, so read the hourly slot containing current.time
+const getCurrentHourValue = (data: any, field: string): number | undefined => {
+  const hourIndex = data.hourly.time.findIndex((t: number) => t <= data.current.time && data.current.time < t + 3600);
+  return hourIndex === -1 ? undefined : data.hourly[field]?.[hourIndex];
+};
+
+const mapCurrent = (data: any, aqi: any, location: GeoLocation): CurrentWeather => {
+  const { latitude, longitude, name, country } = location;
+  const current = data.current;
+  const daily = data.daily;
+  const todayIndex = 0;
+
+  return {
+    coord: { lon: longitude, lat: latitude },
+    weather: [{
+      id: current.weather_code,
+      main: getDescription(current.weather_code),
+      description: getDescription(current.weather_code),
+      icon: getIconCode(current.weather_code, current.is_day)
+    }],
+    base: 'stations',
+    main: {
+      temp: current.temperature_2m,
+      feels_like: current.apparent_temperature,
+      temp_min: daily.temperature_2m_min[todayIndex],
+      temp_max: daily.temperature_2m_max[todayIndex],
+      pressure: current.surface_pressure,
+      humidity: current.relative_humidity_2m
+    },
+    visibility: getCurrentHourValue(data, 'visibility') ?? 10000,
+    wind: {
+      speed: current.wind_speed_10m,
+      deg: current.wind_direction_10m,
+      gust: current.wind_gusts_10m
+    },
+    clouds: { all: current.cloud_cover },
+    dt: current.time,
+    sys: {
+      type: 1,
+      id: 0,
+      country: country || 'XX',
+      sunrise: daily.sunrise[todayIndex],
+      sunset: daily.sunset[todayIndex]
+    },
+    // Extended fields
+    uv_index: daily.uv_index_max[todayIndex],
+    precipitation: current.precipitation,
+    dew_point: current.dew_point_2m,
+    aqi: aqi ? {
+      us_aqi: aqi.us_aqi,
+      eu_aqi: aqi.european_aqi,
+      pm2_5: aqi.pm2_5,
+      pm10: aqi.pm10,
+      co: aqi.carbon_monoxide,
+      no2: aqi.nitrogen_dioxide,
+      so2: aqi.sulphur_dioxide,
+      o3: aqi.ozone
+    } : null,
+    timezone: data.utc_offset_seconds,
+    timezone_id: data.timezone,
+    id: location.id,
+    name: name,
+    cod: 200
+  };
+};
+
+const average = (values: number[]) => {
+  const valid = values.filter(value => typeof value === 'number');
+  return valid.length > 0 ? valid.reduce((sum, value) => sum + value, 0) / valid.length : 0;
+};
+
+// Daily means for fields Open-Meteo only publishes hourly; `hourlyDates` holds each slot's local date
+const getDailyMeans = (hourly: any, hourlyDates: string[], date: string) => {
+  const indices: number[] = [];
+  hourlyDates.forEach((hourDate, i) => { if (hourDate === date) indices.push(i); });
+  const pick = (field: string) => indices.map(i => hourly[field]?.[i]);
+  return {
+    humidity: Math.round(average(pick('relative_humidity_2m'))),
+    clouds: Math.round(average(pick('cloud_cover'))),
+    pressure: average(pick('pressure_msl')),
+    visibility: average(pick('visibility'))
+  };
+};
+
+const mapForecast = (data: any, location: GeoLocation, options: ForecastOptions): ForecastResponse => {
+  const { latitude, longitude, name, country } = location;
+  const daily = data.daily;
+  const hourly = data.hourly;
+  const list: ForecastItem[] = [];
+  const hourlyList: HourlyItem[] = [];
+  // Times arrive as Unix seconds; calendar dates are taken in the location's own zone
+  const hourlyDates: string[] = hourly.time.map((t: number) => getLocalDate(t, data.timezone));
+
+  // Map daily arrays to ForecastItem list
+  for (let i = 0; i < Math.min(daily.time.length, options.days); i++) {
+     // daily.time is local midnight; noon is safe from DST shifts, which happen overnight
+     const unixTime = daily.time[i] + 43200;
+     const date = getLocalDate(unixTime, data.timezone);
+     const means = getDailyMeans(hourly, hourlyDates, date);
+
+     list.push({
+       dt: unixTime,
+       main: {
+         temp: (daily.temperature_2m_max[i] + daily.temperature_2m_min[i]) / 2,
+         feels_like: daily.apparent_temperature_max[i],
+         temp_min: daily.temperature_2m_min[i],
+         temp_max: daily.temperature_2m_max[i],
+         pressure: means.pressure,
+         sea_level: means.pressure,
+         humidity: means.humidity
+       },
+       weather: [{
+         id: daily.weather_code[i],
+         main: getDescription(daily.weather_code[i]),
+         description: getDescription(daily.weather_code[i]),
+         icon: getIconCode(daily.weather_code[i], 1)
+       }],
+       clouds: { all: means.clouds },
+       wind: {
+         speed: daily.wind_speed_10m_max[i],
+         deg: daily.wind_direction_10m_dominant[i],
+         gust: daily.wind_gusts_10m_max[i]
+       },
+       visibility: means.visibility,
+       pop: daily.precipitation_probability_max?.[i] || 0,
+       precipitation: daily.precipitation_sum[i] || 0,
+       uv_index: daily.uv_index_max[i],
+       sunrise: daily.sunrise[i],
+       sunset: daily.sunset[i],
+       dt_txt: `${date} 12:00:00`
+     });
+  }
+
+  // Map hourly data (from the current hour through the configured hourly horizon)
+  const now = Date.now() / 1000;
+  const foundIndex = hourly.time.findIndex((t: number) => t + 3600 > now);
+  let startIndex = foundIndex !== -1 ? foundIndex : 0;
+  const hours = options.hourlyDays * 24;
+
+  for (let i = startIndex; i < startIndex + hours && i < hourly.time.length; i++) {
+      hourlyList.push({
+          dt: hourly.time[i],
+          temp: hourly.temperature_2m[i],
+          feels_like: hourly.apparent_temperature[i],
+          humidity: hourly.relative_humidity_2m[i],
+          wind: {
+              speed: hourly.wind_speed_10m[i],
+              deg: hourly.wind_direction_10m[i],
+              gust: hourly.wind_gusts_10m[i]
+          },
+          clouds: hourly.cloud_cover[i],
+          precipitation: hourly.precipitation[i] || 0,
+          snowfall: hourly.snowfall?.[i] || 0,
+          uv_index: hourly.uv_index?.[i],
+          is_day: hourly.is_day[i] === 1,
+          weather: [{
+              id: hourly.weather_code[i],
+              main: getDescription(hourly.weather_code[i]),
+              description: '',
+              icon: getIconCode(hourly.weather_code[i], hourly.is_day[i])
+          }],
+          pop: hourly.precipitation_probability?.[i]
+      });
+  }
+
+  return {
+    cod: "200",
+    message: 0,
+    cnt: list.length,
+    list: list,
+    hourly: hourlyList,
+    city: {
+      id: location.id,
+      name: name,
+      coord: { lat: latitude, lon: longitude },
+      country: country,
+      population: location.population || 0,
+      timezone: data.utc_offset_seconds,
+      timezone_id: data.timezone,
+      sunrise: daily.sunrise[0],
+      sunset: daily.sunset[0]
+    }
+  };
+};
+
+// Open-Meteo returns an array for comma-separated coordinates and a bare object for one
+const toArray = (data: any): any[] => Array.isArray(data) ? data : [data];
+
+// One forecast request carries current, daily and hourly blocks for every location;
+// AQI lives on a separate host, so a batch costs two requests regardless of size.
+const getBundles = async (locations: GeoLocation[], options: ForecastOptions): Promise<WeatherBundle[]> => {
+  if (locations.length === 0) return [];
+  const latitude = locations.map(location => location.latitude).join(',');
+  const longitude = locations.map(location => location.longitude).join(',');
+
+  const [weatherResponse, aqiResponse] = await Promise.all([
+    axios.get(WEATHER_URL, {
+      params: {
+        latitude,
+        longitude,
+        current: 'temperature_2m,relative_humidity_2m,apparent_temperature,is_day,precipitation,rain,showers,snowfall,weather_code,cloud_cover,wind_speed_10m,wind_direction_10m,wind_gusts_10m,surface_pressure,dew_point_2m',
+        daily: 'weather_code,temperature_2m_max,temperature_2m_min,apparent_temperature_max,sunrise,sunset,uv_index_max,precipitation_sum,precipitation_probability_max,wind_speed_10m_max,wind_gusts_10m_max,wind_direction_10m_dominant',
+        hourly: 'temperature_2m,apparent_temperature,relative_humidity_2m,weather_code,is_day,precipitation_probability,precipitation,snowfall,cloud_cover,wind_speed_10m,wind_direction_10m,wind_gusts_10m,uv_index,visibility,pressure_msl',
+        // Fetch whichever horizon is longer so daily means always have their hourly source
+        forecast_days: Math.min(Math.max(options.days, options.hourlyDays + 1), MAX_FORECAST_DAYS),
+        temperature_unit: 'celsius',
+        wind_speed_unit: 'ms',
+        precipitation_unit: 'mm',
+        timezone: 'auto',
+        timeformat: 'unixtime'
+      }
+    }),
+    // AQI is optional: a failing air-quality host should not take down the whole bundle
+    axios.get(AQI_URL, {
+      params: {
+        latitude,
+        longitude,
+        current: 'us_aqi,european_aqi,pm10,pm2_5,carbon_monoxide,nitrogen_dioxide,sulphur_dioxide,ozone',
+        timezone: 'auto'
+      }
+    }).catch((error) => {
+      console.warn("Air quality fetch failed:", error);
+      return null;
+    })
+  ]);
+
+  const weatherData = toArray(weatherResponse.data);
+  const aqiData = aqiResponse ? toArray(aqiResponse.data) : [];
+
+  return locations.map((location, i) => ({
+    location,
+    current: mapCurrent(weatherData[i], aqiData[i]?.current, location),
+    forecast: mapForecast(weatherData[i], location, options)
+  }));
+};
+
+const getBundle = async (location: GeoLocation, options: ForecastOptions): Promise<WeatherBundle> => {
+  const [bundle] = await getBundles([location], options);
+  return bundle;
+};
+
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  maxForecastDays: MAX_FORECAST_DAYS,
+  searchLocations,
+  reverseGeocode,
+  getBundle,
+  getBundles
+};
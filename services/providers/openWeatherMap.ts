@@ -0,0 +1,244 @@
+import axios from 'axios';
+import { getCoordinateLocationId } from '../geoUtils';
+import { getLocalDate, getUtcOffset, getZonedParts, resolveTimeZone } from '../timezone';
+import { getLocale } from '../i18n';
+import { CurrentWeather, ForecastResponse, ForecastItem, HourlyItem, GeoLocation, LocationSearchOptions, ForecastOptions, WeatherBundle, WeatherProvider } from '../../types';
+
+// Requests go through the server (server/api.ts), which adds the API key
+const GEO_URL = '/api/owm/geo/1.0/direct';
+const REVERSE_GEO_URL = '/api/owm/geo/1.0/reverse';
+const WEATHER_URL = '/api/owm/data/2.5/weather';
+const FORECAST_URL = '/api/owm/data/2.5/forecast';
+const AQI_URL = '/api/owm/data/2.5/air_pollution';
+
+// The free 5 day / 3 hour forecast is the whole horizon available
+const MAX_FORECAST_DAYS = 5;
+
+// Magnus approximation; OWM's free tier does not report dew point
+const getDewPoint = (temp: number, humidity: number) => {
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (17.62 * temp) / (243.12 + temp);
+  return (243.12 * gamma) / (17.62 - gamma);
+};
+
+// OWM only publishes its own 1-5 index, so derive US AQI from the particulate concentrations
+const PM25_BREAKPOINTS = [[0, 9, 0, 50], [9.1, 35.4, 51, 100], [35.5, 55.4, 101, 150], [55.5, 125.4, 151, 200], [125.5, 225.4, 201, 300], [225.5, 325.4, 301, 500]];
+const PM10_BREAKPOINTS = [[0, 54, 0, 50], [55, 154, 51, 100], [155, 254, 101, 150], [255, 354, 151, 200], [355, 424, 201, 300], [425, 604, 301, 500]];
+
+const interpolateAQI = (concentration: number, breakpoints: number[][]) => {
+  const band = breakpoints.find(([, hi]) => concentration <= hi) || breakpoints[breakpoints.length - 1];
+  const [cLo, cHi, iLo, iHi] = band;
+  return Math.round(((iHi - iLo) / (cHi - cLo)) * (Math.min(concentration, cHi) - cLo) + iLo);
+};
+
+const toUsAQI = (pm2_5: number, pm10: number) =>
+  Math.max(interpolateAQI(pm2_5, PM25_BREAKPOINTS), interpolateAQI(pm10, PM10_BREAKPOINTS));
+
+// OWM caps direct geocoding at 5 results and does not report population
+const searchLocations = async (query: string, { count = 5, signal }: LocationSearchOptions = {}): Promise<GeoLocation[]> => {
+  const response = await axios.get(GEO_URL, {
+    params: {
+      q: query,
+      limit: Math.min(count, 5)
+    },
+    signal
+  });
+
+  return (response.data || []).map((result: any): GeoLocation => ({
+    // OWM geocoding has no place ids, so derive a stable one from the coordinates
+    id: getCoordinateLocationId(result.lat, result.lon),
+    name: result.local_names?.[getLocale()] || result.local_names?.en || result.name,
+    latitude: result.lat,
+    longitude: result.lon,
+    country: result.country,
+    country_code: result.country,
+    admin1: result.state
+  }));
+};
+
+const reverseGeocode = async (latitude: number, longitude: number): Promise<GeoLocation | null> => {
+  const response = await axios.get(REVERSE_GEO_URL, {
+    params: { lat: latitude, lon: longitude, limit: 1 }
+  });
+
+  const result = response.data?.[0];
+  if (!result) return null;
+  return {
+    id: getCoordinateLocationId(latitude, longitude),
+    name: result.local_names?.[getLocale()] || result.local_names?.en || result.name,
+    latitude,
+    longitude,
+    country: result.country,
+    country_code: result.country,
+    admin1: result.state
+  };
+};
+
+const mapCurrent = (data: any, components: any, location: GeoLocation): CurrentWeather => {
+  const { latitude, longitude, name } = location;
+
+  return {
+    coord: { lon: longitude, lat: latitude },
+    weather: data.weather,
+    base: data.base,
+    main: {
+      temp: data.main.temp,
+      feels_like: data.main.feels_like,
+      temp_min: data.main.temp_min,
+      temp_max: data.main.temp_max,
+      pressure: data.main.pressure,
+      humidity: data.main.humidity
+    },
+    visibility: data.visibility ?? 10000,
+    wind: {
+      speed: data.wind.speed,
+      deg: data.wind.deg,
+      gust: data.wind.gust
+    },
+    clouds: { all: data.clouds.all },
+    dt: data.dt,
+    sys: {
+      type: data.sys.type ?? 1,
+      id: data.sys.id ?? 0,
+      country: data.sys.country || 'XX',
+      sunrise: data.sys.sunrise,
+      sunset: data.sys.sunset
+    },
+    // UV is not part of the free OWM tier
+    uv_index: 0,
+    precipitation: data.rain?.['1h'] ?? data.snow?.['1h'] ?? 0,
+    dew_point: getDewPoint(data.main.temp, data.main.humidity),
+    aqi: components ? {
+      us_aqi: toUsAQI(components.pm2_5, components.pm10),
+      pm2_5: components.pm2_5,
+      pm10: components.pm10,
+      co: components.co,
+      no2: components.no2,
+      so2: components.so2,
+      o3: components.o3
+    } : null,
+    timezone: data.timezone,
+    // OWM only reports an offset; the geocoder's IANA name, when we have one, also covers DST
+    timezone_id: resolveTimeZone(location.timezone, data.timezone),
+    id: location.id,
+    name: name,
+    cod: 200
+  };
+};
+
+// Rain and snow are reported per 3-hour step, in mm
+const getStepPrecipitation = (entry: any) => (entry.rain?.['3h'] || 0) + (entry.snow?.['3h'] || 0);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const mapForecast = (data: any, location: GeoLocation, options: ForecastOptions): ForecastResponse => {
+  const { latitude, longitude, name, country } = location;
+  const timezone: number = data.city.timezone;
+  const timezoneId = resolveTimeZone(location.timezone, timezone);
+  const entries: any[] = data.list;
+
+  // Group 3-hourly entries by the city's local date
+  const days = new Map<string, any[]>();
+  for (const entry of entries) {
+    const localDate = getLocalDate(entry.dt, timezoneId);
+    if (!days.has(localDate)) days.set(localDate, []);
+    days.get(localDate)!.push(entry);
+  }
+
+  const list: ForecastItem[] = [];
+  for (const [date, dayEntries] of Array.from(days.entries()).slice(0, Math.min(options.days, MAX_FORECAST_DAYS))) {
+    const temps = dayEntries.map(e => e.main.temp);
+    const tempMax = Math.max(...dayEntries.map(e => e.main.temp_max));
+    const tempMin = Math.min(...dayEntries.map(e => e.main.temp_min));
+    // Prefer the slot nearest local midday for the representative condition (dt_txt is UTC)
+    const midday = dayEntries.find(e => Math.abs(getZonedParts(e.dt, timezoneId).hour - 12) <= 1) || dayEntries[Math.floor(dayEntries.length / 2)];
+
+    list.push({
+      dt: Date.parse(`${date}T12:00:00Z`) / 1000 - getUtcOffset(midday.dt, timezoneId), // local noon
+      main: {
+        temp: mean(temps),
+        feels_like: Math.max(...dayEntries.map(e => e.main.feels_like)),
+        temp_min: tempMin,
+        temp_max: tempMax,
+        pressure: mean(dayEntries.map(e => e.main.pressure)),
+        sea_level: mean(dayEntries.map(e => e.main.sea_level)),
+        grnd_level: mean(dayEntries.map(e => e.main.grnd_level)),
+        humidity: Math.round(mean(dayEntries.map(e => e.main.humidity)))
+      },
+      weather: [{ ...midday.weather[0], icon: midday.weather[0].icon.replace('n', 'd') }],
+      clouds: { all: Math.round(mean(dayEntries.map(e => e.clouds.all))) },
+      wind: {
+        speed: Math.max(...dayEntries.map(e => e.wind.speed)),
+        deg: midday.wind.deg,
+        gust: Math.max(...dayEntries.map(e => e.wind.gust ?? e.wind.speed))
+      },
+      visibility: mean(dayEntries.map(e => e.visibility ?? 10000)),
+      pop: Math.round(Math.max(...dayEntries.map(e => e.pop || 0)) * 100),
+      precipitation: dayEntries.reduce((sum, e) => sum + getStepPrecipitation(e), 0),
+      dt_txt: `${date} 12:00:00`
+    });
+  }
+
+  // OWM free tier is 3-hourly, so each day of the hourly horizon is 8 slots
+  const hourlyList: HourlyItem[] = entries.slice(0, options.hourlyDays * 8).map(entry => ({
+    dt: entry.dt,
+    temp: entry.main.temp,
+    feels_like: entry.main.feels_like,
+    humidity: entry.main.humidity,
+    wind: { speed: entry.wind.speed, deg: entry.wind.deg, gust: entry.wind.gust },
+    clouds: entry.clouds.all,
+    precipitation: getStepPrecipitation(entry),
+    snowfall: (entry.snow?.['3h'] || 0) / 10,
+    is_day: entry.sys?.pod === 'd',
+    weather: entry.weather,
+    pop: Math.round((entry.pop || 0) * 100)
+  }));
+
+  return {
+    cod: "200",
+    message: 0,
+    cnt: list.length,
+    list: list,
+    hourly: hourlyList,
+    city: {
+      id: location.id,
+      name: name,
+      coord: { lat: latitude, lon: longitude },
+      country: country,
+      population: data.city.population || 0,
+      timezone: timezone,
+      timezone_id: timezoneId,
+      sunrise: data.city.sunrise,
+      sunset: data.city.sunset
+    }
+  };
+};
+
+// OWM splits current, forecast and air pollution across three endpoints
+const getBundle = async (location: GeoLocation, options: ForecastOptions): Promise<WeatherBundle> => {
+  const { latitude, longitude } = location;
+  const params = { lat: latitude, lon: longitude };
+  // Always metric: conversion to the user's units happens on render
+
+  const [weatherResponse, forecastResponse, aqiResponse] = await Promise.all([
+    axios.get(WEATHER_URL, { params: { ...params, units: 'metric' } }),
+    axios.get(FORECAST_URL, { params: { ...params, units: 'metric' } }),
+    axios.get(AQI_URL, { params }).catch((error) => {
+      console.warn("Air quality fetch failed:", error);
+      return null;
+    })
+  ]);
+
+  return {
+    location,
+    current: mapCurrent(weatherResponse.data, aqiResponse?.data.list?.[0]?.components, location),
+    forecast: mapForecast(forecastResponse.data, location, options)
+  };
+};
+
+export const openWeatherMapProvider: WeatherProvider = {
+  id: 'openweathermap',
+  maxForecastDays: MAX_FORECAST_DAYS,
+  searchLocations,
+  reverseGeocode,
+  getBundle
+};
@@ -0,0 +1,293 @@
+import { ParsedQuery, QueryMetric, QueryTimeWindow } from '../types';
+import { fromZonedTime, getLocalDate } from './timezone';
+
+// Offline understanding of common weather questions ("rain in Pune tomorrow evening?"), used when
+// Gemini is off, out of budget or failing. A small vocabulary per app language; whatever it does not
+// recognise is treated as part of the place name.
+
+export const QUERY_METRICS: QueryMetric[] = ['temperature', 'rain', 'snow', 'wind', 'humidity', 'uv', 'air_quality', 'visibility'];
+
+export const MAX_COMPARISONS = 3;
+
+type DayPart = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const DAY_PARTS: Record<DayPart, [number, number]> = {
+  morning: [6, 12],
+  afternoon: [12, 17],
+  evening: [17, 21],
+  night: [20, 24]
+};
+
+// Phrase tables are matched longest first, so "por la mañana" (morning) is taken before "mañana" (tomorrow)
+type PhraseTable<T> = Record<string, T>;
+
+const PART_PHRASES: PhraseTable<DayPart> = {
+  'morning': 'morning', 'por la mañana': 'morning', 'am morgen': 'morning', 'morgens': 'morning', 'vormittag': 'morning', 'सुबह': 'morning',
+  'afternoon': 'afternoon', 'por la tarde': 'afternoon', 'tarde': 'afternoon', 'nachmittag': 'afternoon', 'nachmittags': 'afternoon', 'दोपहर': 'afternoon',
+  'evening': 'evening', 'abend': 'evening', 'abends': 'evening', 'शाम': 'evening',
+  'tonight': 'night', 'night': 'night', 'noche': 'night', 'nacht': 'night', 'रात': 'night'
+};
+
+const DAY_PHRASES: PhraseTable<number> = {
+  'today': 0, 'hoy': 0, 'heute': 0, 'आज': 0,
+  'tomorrow': 1, 'mañana': 1, 'morgen': 1, 'कल': 1,
+  'day after tomorrow': 2, 'pasado mañana': 2, 'übermorgen': 2, 'परसों': 2
+};
+
+// Indexed like Date#getDay, Sunday first
+const WEEKDAY_NAMES = [
+  ['sunday', 'domingo', 'sonntag', 'रविवार'],
+  ['monday', 'lunes', 'montag', 'सोमवार'],
+  ['tuesday', 'martes', 'dienstag', 'मंगलवार'],
+  ['wednesday', 'miércoles', 'miercoles', 'mittwoch', 'बुधवार'],
+  ['thursday', 'jueves', 'donnerstag', 'गुरुवार'],
+  ['friday', 'viernes', 'freitag', 'शुक्रवार'],
+  ['saturday', 'sábado', 'sabado', 'samstag', 'शनिवार']
+];
+const WEEKDAY_PHRASES: PhraseTable<number> = Object.fromEntries(
+  WEEKDAY_NAMES.flatMap((names, day) => names.map(name => [name, day]))
+);
+// A weekend is pinned to its Saturday, since a window covers a single day
+const WEEKEND_PHRASES: PhraseTable<number> = { 'weekend': 6, 'fin de semana': 6, 'wochenende': 6, 'सप्ताहांत': 6 };
+// Next week is pinned to its Monday for the same reason
+const NEXT_WEEK_PHRASES: PhraseTable<number> = {
+  'next week': 1, 'la próxima semana': 1, 'próxima semana': 1, 'la semana que viene': 1, 'semana que viene': 1,
+  'nächste woche': 1, 'nächsten woche': 1, 'kommende woche': 1, 'अगले सप्ताह': 1, 'अगले हफ्ते': 1
+};
+
+const METRIC_PHRASES: PhraseTable<QueryMetric> = {
+  'rain': 'rain', 'raining': 'rain', 'rainy': 'rain', 'showers': 'rain', 'drizzle': 'rain', 'umbrella': 'rain', 'storm': 'rain',
+  'lluvia': 'rain', 'llover': 'rain', 'llueve': 'rain', 'lloverá': 'rain', 'paraguas': 'rain',
+  'regen': 'rain', 'regnet': 'rain', 'regnen': 'rain', 'regenschirm': 'rain', 'gewitter': 'rain',
+  'बारिश': 'rain', 'वर्षा': 'rain', 'छाता': 'rain',
+  'snow': 'snow', 'snowing': 'snow', 'nieve': 'snow', 'nevará': 'snow', 'schnee': 'snow', 'schneit': 'snow', 'बर्फ': 'snow', 'बर्फबारी': 'snow',
+  'wind': 'wind', 'windy': 'wind', 'gusts': 'wind', 'viento': 'wind', 'windig': 'wind', 'böen': 'wind', 'हवा': 'wind', 'आंधी': 'wind',
+  'temperature': 'temperature', 'hot': 'temperature', 'cold': 'temperature', 'warm': 'temperature', 'chilly': 'temperature', 'degrees': 'temperature',
+  'temperatura': 'temperature', 'calor': 'temperature', 'frío': 'temperature', 'temperatur': 'temperature', 'heiß': 'temperature', 'kalt': 'temperature',
+  'तापमान': 'temperature', 'गर्मी': 'temperature', 'ठंड': 'temperature',
+  'humid': 'humidity', 'humidity': 'humidity', 'muggy': 'humidity', 'humedad': 'humidity', 'feuchtigkeit': 'humidity', 'schwül': 'humidity', 'नमी': 'humidity', 'उमस': 'humidity',
+  'uv': 'uv', 'sunscreen': 'uv', 'sunburn': 'uv', 'protector solar': 'uv', 'sonnencreme': 'uv', 'sonnenbrand': 'uv',
+  'air quality': 'air_quality', 'aqi': 'air_quality', 'pollution': 'air_quality', 'smog': 'air_quality',
+  'calidad del aire': 'air_quality', 'contaminación': 'air_quality', 'luftqualität': 'air_quality', 'वायु गुणवत्ता': 'air_quality', 'प्रदूषण': 'air_quality',
+  'fog': 'visibility', 'foggy': 'visibility', 'visibility': 'visibility', 'niebla': 'visibility', 'visibilidad': 'visibility', 'nebel': 'visibility', 'sicht': 'visibility', 'कोहरा': 'visibility'
+};
+
+const ACTIVITY_PHRASES: PhraseTable<string> = {
+  'run': 'running', 'running': 'running', 'jog': 'running', 'jogging': 'running', 'correr': 'running', 'laufen': 'running', 'joggen': 'running', 'दौड़': 'running',
+  'cycle': 'cycling', 'cycling': 'cycling', 'bike': 'cycling', 'biking': 'cycling', 'bicicleta': 'cycling', 'ciclismo': 'cycling',
+  'radfahren': 'cycling', 'fahrrad': 'cycling', 'radtour': 'cycling', 'साइकिल': 'cycling',
+  'picnic': 'picnic', 'pícnic': 'picnic', 'picnik': 'picnic', 'picknick': 'picnic', 'पिकनिक': 'picnic'
+};
+
+const COMPARE_PHRASES: PhraseTable<true> = {
+  'compare': true, 'comparison': true, 'compared': true, 'compara': true, 'comparar': true,
+  'vergleiche': true, 'vergleich': true, 'vergleichen': true, 'तुलना': true
+};
+
+// "vs"-style words always separate places; "and"/"with" only do once the query asked to compare.
+// Separators are matched in lowercase only, so the state code in "Portland, OR" stays part of the place.
+const ALWAYS_SEPARATE = ['vs', 'vs.', 'versus', 'or', 'o', 'oder', 'या'];
+const COMPARE_SEPARATE = ['with', 'and', 'to', 'against', 'con', 'y', 'mit', 'und', 'और', 'से'];
+
+// Place markers: what follows "in"/"en"/"bei", or what precedes Hindi "में"
+const PREPOSITIONS = ['in', 'at', 'near', 'en', 'bei', 'im'];
+const POSTPOSITIONS = ['में'];
+
+// Filler trimmed from either end of a place name; never from the middle, so "Rio de Janeiro" survives
+const FILLER = new Set([
+  'what', "what's", 'whats', 'how', "how's", 'hows', 'is', 'are', 'will', 'would', 'it', "it's", 'be', 'a', 'an',
+  'weather', 'forecast', 'like', 'going', 'gonna', 'to', 'in', 'at', 'on', 'for', 'near', 'this', 'next', 'there', 'any',
+  'chance', 'of', 'do', 'does', 'i', 'we', 'need', 'should', 'can', 'get', 'good', 'go', 'me', 'tell', 'show', 'check',
+  'please', 'outside', 'out', 'about', 'conditions', 'by', 'around', 'from', 'with', 'and', 'or', 'than', 'between',
+  'qué', 'que', 'cómo', 'como', 'va', 'hace', 'hará', 'un', 'una', 'tiempo', 'clima', 'en', 'de', 'del', 'para', 'por',
+  'esta', 'este', 'hay', 'pronóstico', 'y', 'con', 'voy', 'ir', 'puedo',
+  'wie', 'wird', 'ist', 'es', 'wetter', 'am', 'um', 'im', 'für', 'bei', 'gibt', 'vorhersage', 'und', 'oder', 'mit',
+  'soll', 'kann', 'ich', 'nächste', 'nächsten', 'diese', 'diesen', 'dieses',
+  'क्या', 'कैसा', 'कैसी', 'है', 'हैं', 'होगा', 'होगी', 'रहेगा', 'रहेगी', 'में', 'का', 'की', 'के', 'को', 'मौसम', 'और',
+  'या', 'से', 'करो', 'करें', 'बताओ', 'बताइए', 'पर'
+]);
+// Articles start real names ("Los Angeles", "The Hague"), so they are only trimmed when lowercase
+const ARTICLES = new Set(['the', 'el', 'la', 'los', 'las', 'der', 'die', 'das', 'den', 'dem']);
+
+const BOUNDARY = `[\\s,.;:!?¿¡"'()]`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phraseRegExp = (phrase: string) => new RegExp(`(^|${BOUNDARY})${escapeRegExp(phrase)}(?=$|${BOUNDARY})`, 'giu');
+
+// Removes every phrase of the table from the text; the value is that of the first phrase found.
+// `keep` spares an occurrence that belongs to a place name, given the text after it.
+const take = <T>(text: string, table: PhraseTable<T>, keep?: (found: string, rest: string) => boolean): { value?: T; text: string } => {
+  let value: T | undefined;
+  const phrases = Object.keys(table).sort((a, b) => b.length - a.length);
+  for (const phrase of phrases) {
+    text = text.replace(phraseRegExp(phrase), (match, lead: string, offset: number, whole: string) => {
+      const found = match.slice(lead.length);
+      if (keep?.(found, whole.slice(offset + match.length))) return match;
+      if (value === undefined) value = table[phrase];
+      return `${lead} `;
+    });
+  }
+  return { value, text };
+};
+
+// "5pm", "17:00", "um 17 Uhr", "a las 5", "5 बजे"; a bare number only counts after a word like "at"
+const CLOCK = /(^|\s)(at\s+|around\s+|um\s+|gegen\s+|a\s+las\s+|alle\s+)?(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?|uhr|h|बजे)?(?=\s|$)/giu;
+
+const takeClockTime = (text: string): { hour?: number; meridiem: boolean; text: string } => {
+  for (const match of text.matchAll(CLOCK)) {
+    const [whole, lead, prefix, digits, minutes, suffix] = match;
+    let hour = Number(digits);
+    if (!prefix && !minutes && !suffix) continue;
+    if (hour > 24) continue;
+    const meridiem = !!suffix && /^[ap]/i.test(suffix);
+    if (meridiem && /^p/i.test(suffix)) hour = hour % 12 + 12;
+    else if (meridiem) hour = hour % 12;
+    return { hour: hour % 24, meridiem: meridiem || hour > 12, text: text.replace(whole, `${lead} `) };
+  }
+  return { meridiem: false, text };
+};
+
+const VOCABULARY = new Set([PART_PHRASES, DAY_PHRASES, WEEKDAY_PHRASES, WEEKEND_PHRASES, NEXT_WEEK_PHRASES, METRIC_PHRASES, ACTIVITY_PHRASES, COMPARE_PHRASES].flatMap(Object.keys));
+
+// A capitalised weather word followed by another capitalised word opens a place name ("Hot Springs", "Rainy Lake")
+const startsPlaceName = (found: string, rest: string) => {
+  const next = rest.match(/^\s*([^\s,.;:]+)/u)?.[1] || '';
+  return /^\p{Lu}/u.test(found) && /^\p{Lu}/u.test(next) && !VOCABULARY.has(next.toLowerCase()) && !FILLER.has(next.toLowerCase());
+};
+
+const isFiller = (word: string) => FILLER.has(word.toLowerCase()) || (ARTICLES.has(word) && word === word.toLowerCase());
+
+// A capitalised code after a comma is a state or region ("Portland, OR", "Indianapolis, IN"), not filler
+const isRegionCode = (words: string[], index: number) =>
+  /^\p{Lu}{2,3}$/u.test(words[index]) && index > 0 && words[index - 1].endsWith(',');
+
+const trimFiller = (words: string[]) => {
+  let start = 0;
+  let end = words.length;
+  while (start < end && isFiller(words[start])) start++;
+  while (end > start && isFiller(words[end - 1]) && !isRegionCode(words, end - 1)) end--;
+  // A comma left before a separator ("Portland, or Seattle") is not part of the name
+  return words.slice(start, end).join(' ').replace(/,$/, '');
+};
+
+const extractPlace = (fragment: string) => {
+  const words = fragment.split(/\s+/).filter(Boolean);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const word = words[i].toLowerCase();
+    const place = PREPOSITIONS.includes(word) ? trimFiller(words.slice(i + 1))
+      : POSTPOSITIONS.includes(word) ? trimFiller(words.slice(0, i))
+      : '';
+    if (place) return place;
+  }
+  return trimFiller(words);
+};
+
+const splitPlaces = (text: string, separators: string[]) => {
+  const pattern = new RegExp(`(?:^|\\s)(?:${separators.map(escapeRegExp).join('|')})(?=\\s|$)`, 'gu');
+  return text.split(pattern).map(extractPlace).filter(Boolean);
+};
+
+const daysUntil = (weekday: number, now: Date) => (weekday - now.getDay() + 7) % 7;
+
+export const hasQueryDetails = (parsed: Omit<ParsedQuery, 'city'>) =>
+  !!(parsed.when || parsed.metric || parsed.activity || parsed.compareWith?.length);
+
+// Weekdays are counted from `now`'s date on the device clock; callers pass a time on the place's own date,
+// since resolveTimeWindow applies the offset on the place's calendar
+export const parseQueryLocally = (query: string, now: Date = new Date()): ParsedQuery => {
+  let text = ` ${query.replace(/[?!¿¡;"“”]/g, ' ').replace(/\.\s*$/, '')} `;
+
+  const clock = takeClockTime(text);
+  text = clock.text;
+  const part = take(text, PART_PHRASES);
+  text = part.text;
+  const day = take(text, DAY_PHRASES);
+  text = day.text;
+  const weekday = take(text, WEEKDAY_PHRASES);
+  text = weekday.text;
+  const weekend = take(text, WEEKEND_PHRASES);
+  text = weekend.text;
+  const nextWeek = take(text, NEXT_WEEK_PHRASES);
+  text = nextWeek.text;
+  const metric = take(text, METRIC_PHRASES, startsPlaceName);
+  text = metric.text;
+  const activity = take(text, ACTIVITY_PHRASES);
+  text = activity.text;
+  const compare = take(text, COMPARE_PHRASES);
+  text = compare.text;
+
+  const places = splitPlaces(text, compare.value ? [...ALWAYS_SEPARATE, ...COMPARE_SEPARATE] : ALWAYS_SEPARATE);
+  const result: ParsedQuery = { city: places[0] || '' };
+
+  const dayOffset = day.value
+    ?? (weekday.value !== undefined ? daysUntil(weekday.value, now) : undefined)
+    ?? (weekend.value !== undefined ? (now.getDay() === 0 ? 0 : daysUntil(weekend.value, now)) : undefined)
+    ?? (nextWeek.value !== undefined ? daysUntil(nextWeek.value, now) || 7 : undefined);
+  if (clock.hour !== undefined) {
+    // "7 in the evening" means 19:00
+    const hour = !clock.meridiem && clock.hour < 12 && part.value && part.value !== 'morning' ? clock.hour + 12 : clock.hour;
+    result.when = { dayOffset: dayOffset ?? 0, startHour: hour, endHour: hour + 1 };
+  } else if (part.value) {
+    const [startHour, endHour] = DAY_PARTS[part.value];
+    result.when = { dayOffset: dayOffset ?? 0, startHour, endHour };
+  } else if (dayOffset !== undefined) {
+    result.when = { dayOffset, startHour: 0, endHour: 24 };
+  }
+  if (metric.value) result.metric = metric.value;
+  if (activity.value) result.activity = activity.value;
+  if (places.length > 1) result.compareWith = places.slice(1, 1 + MAX_COMPARISONS);
+  // The whole question doubles as the insight prompt's intent when it asked something specific
+  if (hasQueryDetails(result)) result.intent = query.trim();
+  return result;
+};
+
+// A lowercase "hot springs" loses "hot" to the metric table. When a weather word sits right before
+// the parsed place, returns the name with it put back, worth geocoding before trusting the parse.
+export const getPlaceWithWeatherWord = (query: string): string | null => {
+  const { city } = parseQueryLocally(query);
+  if (!city) return null;
+  const word = query.match(new RegExp(`(?:^|${BOUNDARY})([^\\s,.;:!?¿¡"'()]+)\\s+${escapeRegExp(city)}(?=$|${BOUNDARY})`, 'iu'))?.[1];
+  return word && Object.keys(METRIC_PHRASES).includes(word.toLowerCase()) ? `${word} ${city}` : null;
+};
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Gemini's answer is schema-constrained but not guaranteed; null means "use the local parser instead"
+export const sanitizeParsedQuery = (raw: unknown): ParsedQuery | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, any>;
+  if (typeof value.city !== 'string') return null;
+
+  const result: ParsedQuery = { city: value.city.trim() };
+  if (typeof value.intent === 'string' && value.intent.trim()) result.intent = value.intent.trim();
+  const when = value.when;
+  if (when && isInteger(when.dayOffset, 0, 15) && isInteger(when.startHour, 0, 23) && isInteger(when.endHour, when.startHour + 1, 24)) {
+    result.when = { dayOffset: when.dayOffset, startHour: when.startHour, endHour: when.endHour };
+  }
+  if (typeof value.activity === 'string' && value.activity.trim()) result.activity = value.activity.trim().toLowerCase();
+  if (Array.isArray(value.compareWith)) {
+    const names = value.compareWith
+      .filter((name: unknown): name is string => typeof name === 'string' && name.trim().length > 0)
+      .map((name: string) => name.trim())
+      .slice(0, MAX_COMPARISONS);
+    if (names.length > 0) result.compareWith = names;
+  }
+  if (QUERY_METRICS.includes(value.metric)) result.metric = value.metric;
+  return result;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Unix-second bounds of the window in the place's zone, on the place's own calendar
+export const resolveTimeWindow = (when: QueryTimeWindow, timeZone: string, now: number = Date.now() / 1000) => {
+  const [year, month, day] = getLocalDate(now, timeZone).split('-').map(Number);
+  const dateAt = (offset: number) => new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+  const date = dateAt(when.dayOffset);
+  const start = fromZonedTime(`${date}T${pad(when.startHour)}:00`, timeZone)!;
+  const end = when.endHour === 24
+    ? fromZonedTime(dateAt(when.dayOffset + 1), timeZone)!
+    : fromZonedTime(`${date}T${pad(when.endHour)}:00`, timeZone)!;
+  return { start, end };
+};
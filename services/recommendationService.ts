@@ -0,0 +1,191 @@
+import { ActivityScore, HourlyItem, OutdoorActivity, Recommendations, WeatherBundle } from '../types';
+import { generateRecommendations } from './geminiService';
+import { fromZonedTime } from './timezone';
+import { getIntlLocale, t } from './i18n';
+import type { MessageKey } from '../locales/en';
+
+const HOUR = 3600;
+
+// Labels are the `activity.*` message keys
+export const ACTIVITIES: OutdoorActivity[] = ['running', 'cycling', 'picnic'];
+
+// --- Rule-based fallback ---
+// Written in the active locale like Gemini's plan; both are rebuilt when the language changes
+
+interface ActivityProfile {
+  comfort: [number, number]; // Feels-like range in °C with no penalty
+  rain: number; // Weight on precipitation chance and amount
+  windLimit: number; // m/s before wind starts to count against it
+  airQuality: number; // Weight on unhealthy AQI; exertion breathes more of it
+}
+
+const PROFILES: Record<OutdoorActivity, ActivityProfile> = {
+  running: { comfort: [5, 18], rain: 1, windLimit: 8, airQuality: 1.5 },
+  cycling: { comfort: [12, 24], rain: 1.5, windLimit: 6, airQuality: 1.5 },
+  picnic: { comfort: [18, 28], rain: 2.5, windLimit: 6, airQuality: 1 }
+};
+
+// The general "best time to be outside" window uses a middle-of-the-road profile
+const OUTDOORS: ActivityProfile = { comfort: [15, 25], rain: 2, windLimit: 7, airQuality: 1 };
+
+type Penalty = 'cold' | 'hot' | 'rain' | 'wind' | 'air';
+
+const PENALTY_NOTES: Record<Penalty, MessageKey> = {
+  cold: 'plan.noteCold',
+  hot: 'plan.noteHot',
+  rain: 'plan.noteRain',
+  wind: 'plan.noteWind',
+  air: 'plan.noteAir'
+};
+
+const scoreHour = (item: HourlyItem, profile: ActivityProfile, aqi: number | null): { score: number; worst: Penalty | null } => {
+  const [low, high] = profile.comfort;
+  const penalties: Record<Penalty, number> = {
+    cold: Math.max(0, low - item.feels_like) * 0.5,
+    hot: Math.max(0, item.feels_like - high) * 0.6,
+    rain: ((item.pop ?? 0) / 100 * 3 + Math.min(item.precipitation, 4)) * profile.rain,
+    wind: Math.max(0, Math.max(item.wind.speed, (item.wind.gust ?? 0) * 0.7) - profile.windLimit) * 0.6,
+    air: aqi !== null && aqi > 100 ? (aqi > 150 ? 5 : 3) * profile.airQuality : 0
+  };
+  const worst = (Object.keys(penalties) as Penalty[]).reduce<Penalty | null>((top, key) => penalties[key] >= 1 && (!top || penalties[key] > penalties[top]) ? key : top, null);
+  const total = Object.values(penalties).reduce((sum, value) => sum + value, 0);
+  return { score: Math.max(0, Math.min(10, 10 - total)), worst };
+};
+
+const scoreActivity = (hours: HourlyItem[], profile: ActivityProfile, aqi: number | null): ActivityScore => {
+  const best = hours
+    .map(item => scoreHour(item, profile, aqi))
+    .reduce<ReturnType<typeof scoreHour> | null>((top, hour) => !top || hour.score > top.score ? hour : top, null);
+  if (!best) return { score: 0, note: t('plan.noteNoForecast') };
+  const score = Math.round(best.score);
+  const note = best.worst ? PENALTY_NOTES[best.worst] : score >= 8 ? 'plan.noteGreat' : 'plan.noteDecent';
+  return { score, note: t(note) };
+};
+
+// Highest average comfort over consecutive daylight hours, up to three hours long
+const findBestWindow = (hours: HourlyItem[], aqi: number | null): Recommendations['bestWindow'] => {
+  let best: { start: number; end: number; score: number } | null = null;
+  for (let i = 0; i < hours.length; i++) {
+    const span = hours.slice(i, i + 3).filter((item, offset) => item.dt === hours[i].dt + offset * HOUR);
+    const score = span.reduce((sum, item) => sum + scoreHour(item, OUTDOORS, aqi).score, 0) / span.length;
+    if (!best || score > best.score) best = { start: span[0].dt, end: span[span.length - 1].dt + HOUR, score };
+  }
+  if (!best || best.score < 4) return null;
+  const reason = t(best.score >= 8 ? 'plan.reasonIdeal' : 'plan.reasonBest');
+  return { start: best.start, end: best.end, reason };
+};
+
+const getClothing = (coldest: number, wet: boolean, windy: boolean): string[] => {
+  const layers: MessageKey[] =
+    coldest < -10 ? ['wear.thermalBase', 'wear.insulatedCoat', 'wear.hatGlovesScarf'] :
+    coldest < 0 ? ['wear.warmBase', 'wear.winterCoat', 'wear.hatGloves'] :
+    coldest < 8 ? ['wear.longSleeves', 'wear.sweater', 'wear.warmJacket'] :
+    coldest < 15 ? ['wear.longSleeves', 'wear.lightJacket'] :
+    coldest < 22 ? ['wear.tShirt', 'wear.lightSweater'] :
+    ['wear.breathable'];
+  if (wet) layers.push('wear.waterproof');
+  else if (windy) layers.push('wear.windproof');
+  return layers.map(layer => t(layer));
+};
+
+export const getRuleRecommendations = ({ current, forecast }: WeatherBundle, now: number = Date.now() / 1000): Recommendations => {
+  const upcoming = (forecast.hourly || []).filter(item => item.dt + HOUR > now && item.dt < now + 24 * HOUR);
+  const nextHalfDay = upcoming.filter(item => item.dt < now + 12 * HOUR);
+  const daylight = upcoming.filter(item => item.is_day !== false);
+  const aqi = current.aqi ? current.aqi.us_aqi : null;
+
+  const feelsLike = nextHalfDay.length > 0 ? nextHalfDay.map(item => item.feels_like) : [current.main.feels_like];
+  const coldest = Math.min(...feelsLike);
+  const maxPop = Math.max(0, ...nextHalfDay.map(item => item.pop ?? 0));
+  const totalRain = nextHalfDay.reduce((sum, item) => sum + item.precipitation, 0);
+  const maxWind = Math.max(current.wind.gust ?? current.wind.speed, ...nextHalfDay.map(item => item.wind.gust ?? item.wind.speed));
+  const maxUv = Math.max(current.uv_index || 0, ...nextHalfDay.map(item => item.uv_index ?? 0));
+
+  const umbrella = maxPop >= 40 || totalRain >= 1;
+  const sunscreen = maxUv >= 3;
+  const mask = aqi !== null && aqi > 100;
+
+  const activities = ACTIVITIES.reduce((scores, activity) => {
+    // Polar night still gets scores, from the dark hours
+    scores[activity] = scoreActivity(daylight.length > 0 ? daylight : upcoming, PROFILES[activity], aqi);
+    return scores;
+  }, {} as Record<OutdoorActivity, ActivityScore>);
+
+  const cautions = ([[umbrella, 'plan.cautionRain'], [maxWind > 12, 'plan.cautionGusty'], [mask, 'plan.cautionAir']] as [boolean, MessageKey][])
+    .filter(([applies]) => applies)
+    .map(([, caution]) => t(caution));
+  const summary = cautions.length > 0
+    ? t('plan.headsUp', { cautions: new Intl.ListFormat(getIntlLocale(), { type: 'conjunction' }).format(cautions) })
+    : t('plan.calm');
+
+  return {
+    summary,
+    clothing: getClothing(coldest, umbrella, maxWind > 10),
+    umbrella,
+    sunscreen,
+    mask,
+    bestWindow: findBestWindow(daylight, aqi),
+    activities,
+    source: 'rules'
+  };
+};
+
+// --- Validation of model output ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const toActivityScore = (value: unknown): ActivityScore | null => {
+  if (!isRecord(value) || typeof value.score !== 'number' || !Number.isFinite(value.score) || !isText(value.note)) return null;
+  return { score: Math.round(Math.max(0, Math.min(10, value.score))), note: value.note.trim() };
+};
+
+// A window that is malformed or already over is dropped rather than failing the whole result
+const toWindow = (value: unknown, timeZone: string, now: number): Recommendations['bestWindow'] => {
+  if (!isRecord(value) || !isText(value.start) || !isText(value.end)) return null;
+  const start = fromZonedTime(value.start, timeZone);
+  const end = fromZonedTime(value.end, timeZone);
+  if (start === null || end === null || end <= start || end <= now || end - start > 12 * HOUR) return null;
+  return { start, end, reason: isText(value.reason) ? value.reason.trim() : '' };
+};
+
+// Null when anything the cards depend on is missing or the wrong type
+export const validateRecommendations = (raw: unknown, timeZone: string, now: number = Date.now() / 1000): Recommendations | null => {
+  if (!isRecord(raw) || !isText(raw.summary) || !Array.isArray(raw.clothing) || !isRecord(raw.activities)) return null;
+  if (typeof raw.umbrella !== 'boolean' || typeof raw.sunscreen !== 'boolean' || typeof raw.mask !== 'boolean') return null;
+
+  const clothing = raw.clothing.filter(isText).map(item => item.trim()).slice(0, 6);
+  if (clothing.length === 0) return null;
+
+  const activities = {} as Record<OutdoorActivity, ActivityScore>;
+  for (const activity of ACTIVITIES) {
+    const score = toActivityScore((raw.activities as Record<string, unknown>)[activity]);
+    if (!score) return null;
+    activities[activity] = score;
+  }
+
+  return {
+    summary: raw.summary.trim(),
+    clothing,
+    umbrella: raw.umbrella,
+    sunscreen: raw.sunscreen,
+    mask: raw.mask,
+    bestWindow: toWindow(raw.best_window, timeZone, now),
+    activities,
+    source: 'gemini'
+  };
+};
+
+// Gemini first, falling back to the rules when the server has no key, the call fails or its output does not validate
+export const getRecommendations = async (bundle: WeatherBundle, timeZone: string): Promise<Recommendations> => {
+  try {
+    const validated = validateRecommendations(await generateRecommendations(bundle, timeZone), timeZone);
+    if (validated) return validated;
+    console.warn("Gemini recommendations failed validation; using rules.");
+  } catch (error) {
+    console.warn("Gemini recommendations unavailable; using rules:", error);
+  }
+  return getRuleRecommendations(bundle);
+};
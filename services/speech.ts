@@ -0,0 +1,54 @@
+import { VoiceSettings } from '../types';
+
+// Browser speech helpers. Recognition is still prefixed in Chromium and missing in Firefox,
+// so everything here degrades to "not supported" instead of throwing.
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { voiceURI: null, rate: 1, pitch: 1 };
+
+export const VOICE_RATE_RANGE = { min: 0.5, max: 2 };
+export const VOICE_PITCH_RANGE = { min: 0, max: 2 };
+
+export const getSpeechRecognition = (): (new () => any) | null => {
+  if (typeof window === 'undefined') return null;
+  return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+};
+
+export const getSpeechSynthesis = (): SpeechSynthesis | null =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+
+// A terminator only counts once whitespace follows, so "3.5" or a chunk ending in "." waits for more text.
+// Includes the Devanagari danda for Hindi.
+const SENTENCE_END = /([.!?।]+)(\s+)/g;
+
+export const splitSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[1].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end + match[2].length;
+  }
+  return { sentences, rest: text.slice(start) };
+};
+
+// Markdown emphasis and headings would otherwise be read out as "asterisk"
+export const toSpeakableText = (text: string) => text.replace(/[*_#`]+/g, '').replace(/\s+/g, ' ').trim();
+
+// The chosen voice wins when installed; otherwise the exact tag ("hi-IN"), then any voice for the language
+export const pickVoice = (voices: SpeechSynthesisVoice[], tag: string, voiceURI: string | null) => {
+  const normalized = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  const language = tag.split('-')[0].toLowerCase();
+  return voices.find(voice => voice.voiceURI === voiceURI)
+    || voices.find(voice => normalized(voice) === tag.toLowerCase())
+    || voices.find(voice => normalized(voice).startsWith(language))
+    || null;
+};
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+export const sanitizeVoiceSettings = (settings: any): VoiceSettings => ({
+  voiceURI: typeof settings?.voiceURI === 'string' ? settings.voiceURI : null,
+  rate: typeof settings?.rate === 'number' && Number.isFinite(settings.rate) ? clamp(settings.rate, VOICE_RATE_RANGE) : DEFAULT_VOICE_SETTINGS.rate,
+  pitch: typeof settings?.pitch === 'number' && Number.isFinite(settings.pitch) ? clamp(settings.pitch, VOICE_PITCH_RANGE) : DEFAULT_VOICE_SETTINGS.pitch
+});
@@ -0,0 +1,86 @@
+import { getIntlLocale } from './i18n';
+
+// All timestamps in the app are Unix seconds; this module turns them into wall-clock values
+// for a given zone. `timeZone` is an IANA name, a "UTC±hh:mm" fixed offset for providers
+// that only report one, or undefined for the device's own zone.
+
+const FIXED_OFFSET = /^UTC([+-])(\d{2}):(\d{2})$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Prefers the IANA name (which knows about DST); a bare offset is only right until the next transition
+export const resolveTimeZone = (timeZoneId: string | undefined, offsetSeconds: number): string => {
+  if (timeZoneId && isValidTimeZone(timeZoneId)) return timeZoneId;
+  const absolute = Math.abs(offsetSeconds);
+  return `UTC${offsetSeconds < 0 ? '-' : '+'}${pad(Math.floor(absolute / 3600))}:${pad(Math.floor((absolute % 3600) / 60))}`;
+};
+
+// Intl only understands IANA names, so fixed offsets are applied by shifting the instant and formatting as UTC
+const toIntl = (timestamp: number, timeZone?: string): [Date, string | undefined] => {
+  const match = timeZone?.match(FIXED_OFFSET);
+  if (!match) return [new Date(timestamp * 1000), timeZone];
+  const offset = (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 3600 + Number(match[3]) * 60);
+  return [new Date((timestamp + offset) * 1000), 'UTC'];
+};
+
+// Building a DateTimeFormat is slow enough to matter when labelling hundreds of hourly slots
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (locale: string | undefined, timeZone: string | undefined, options: Intl.DateTimeFormatOptions) => {
+  const key = JSON.stringify([locale, timeZone, options]);
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Display text follows the app's language; prompts and tool results pass 'en-US' explicitly
+export const formatInZone = (timestamp: number, timeZone: string | undefined, options: Intl.DateTimeFormatOptions, locale: string = getIntlLocale()) => {
+  const [date, zone] = toIntl(timestamp, timeZone);
+  return getFormatter(locale, zone, options).format(date);
+};
+
+export const formatTime = (timestamp: number, timeZone?: string) =>
+  formatInZone(timestamp, timeZone, { hour: '2-digit', minute: '2-digit' });
+
+export const getZonedParts = (timestamp: number, timeZone?: string) => {
+  const [date, zone] = toIntl(timestamp, timeZone);
+  const parts = getFormatter('en-US', zone, {
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour') % 24, minute: value('minute') };
+};
+
+// YYYY-MM-DD of the instant in the zone
+export const getLocalDate = (timestamp: number, timeZone?: string) => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Offset from UTC in seconds at that instant, so it changes across DST transitions
+export const getUtcOffset = (timestamp: number, timeZone?: string) => {
+  const { year, month, day, hour, minute } = getZonedParts(timestamp, timeZone);
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute) / 1000 - timestamp) / 60) * 60;
+};
+
+// Unix seconds for a wall-clock "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm" in the zone, or null if unparseable.
+// The offset is looked up a second time at the result so times just after a DST change land right.
+export const fromZonedTime = (local: string, timeZone?: string) => {
+  const [date, time = '00:00'] = local.trim().split('T');
+  const naive = Date.parse(`${date}T${time.slice(0, 5)}:00Z`) / 1000;
+  if (Number.isNaN(naive)) return null;
+  const guess = naive - getUtcOffset(naive, timeZone);
+  return naive - getUtcOffset(guess, timeZone);
+};
@@ -0,0 +1,85 @@
+import { Unit, UnitSettings, WindUnit, PressureUnit, PrecipitationUnit, DistanceUnit } from '../types';
+
+// Weather data is stored canonically in metric (°C, m/s, hPa, mm, metres);
+// everything here converts for display only, so switching units never refetches.
+
+export const DEFAULT_UNITS: UnitSettings = {
+  temperature: Unit.CELSIUS,
+  wind: 'ms',
+  pressure: 'hpa',
+  precipitation: 'mm',
+  distance: 'km'
+};
+
+export const UNIT_LABELS = {
+  temperature: { [Unit.CELSIUS]: '°C', [Unit.FAHRENHEIT]: '°F' } as Record<Unit, string>,
+  wind: { ms: 'm/s', kmh: 'km/h', mph: 'mph', kn: 'kn', bft: 'Bft' } as Record<WindUnit, string>,
+  pressure: { hpa: 'hPa', inhg: 'inHg', mmhg: 'mmHg' } as Record<PressureUnit, string>,
+  precipitation: { mm: 'mm', in: 'in' } as Record<PrecipitationUnit, string>,
+  distance: { km: 'km', mi: 'mi' } as Record<DistanceUnit, string>
+};
+
+// Spelled-out names for prompts, where "kn" or "Bft" would be ambiguous
+export const UNIT_NAMES = {
+  temperature: { [Unit.CELSIUS]: 'Celsius', [Unit.FAHRENHEIT]: 'Fahrenheit' } as Record<Unit, string>,
+  wind: { ms: 'metres per second', kmh: 'kilometres per hour', mph: 'miles per hour', kn: 'knots', bft: 'on the Beaufort scale' } as Record<WindUnit, string>,
+  pressure: { hpa: 'hectopascals', inhg: 'inches of mercury', mmhg: 'millimetres of mercury' } as Record<PressureUnit, string>,
+  precipitation: { mm: 'millimetres', in: 'inches' } as Record<PrecipitationUnit, string>,
+  distance: { km: 'kilometres', mi: 'miles' } as Record<DistanceUnit, string>
+};
+
+export const convertTemperature = (celsius: number, unit: Unit) =>
+  unit === Unit.FAHRENHEIT ? celsius * 9 / 5 + 32 : celsius;
+
+// For differences ("4° warmer than normal") the offset must not be applied
+export const convertTemperatureDelta = (celsiusDelta: number, unit: Unit) =>
+  unit === Unit.FAHRENHEIT ? celsiusDelta * 9 / 5 : celsiusDelta;
+
+// Upper bounds (m/s) of Beaufort forces 0-11; anything above is force 12
+const BEAUFORT_LIMITS = [0.5, 1.5, 3.3, 5.5, 7.9, 10.7, 13.8, 17.1, 20.7, 24.4, 28.4, 32.6];
+
+export const toBeaufort = (metersPerSecond: number) => {
+  const force = BEAUFORT_LIMITS.findIndex(limit => metersPerSecond < limit);
+  return force === -1 ? 12 : force;
+};
+
+export const convertWind = (metersPerSecond: number, unit: WindUnit) => {
+  switch (unit) {
+    case 'kmh': return metersPerSecond * 3.6;
+    case 'mph': return metersPerSecond * 2.236936;
+    case 'kn': return metersPerSecond * 1.943844;
+    case 'bft': return toBeaufort(metersPerSecond);
+    default: return metersPerSecond;
+  }
+};
+
+export const convertPressure = (hectopascals: number, unit: PressureUnit) => {
+  switch (unit) {
+    case 'inhg': return hectopascals * 0.0295300;
+    case 'mmhg': return hectopascals * 0.750062;
+    default: return hectopascals;
+  }
+};
+
+export const convertPrecipitation = (millimetres: number, unit: PrecipitationUnit) =>
+  unit === 'in' ? millimetres / 25.4 : millimetres;
+
+export const convertDistance = (metres: number, unit: DistanceUnit) =>
+  unit === 'mi' ? metres / 1609.344 : metres / 1000;
+
+export const formatTemperature = (celsius: number, unit: Unit) =>
+  `${Math.round(convertTemperature(celsius, unit))}°`;
+
+// Inverses for values the user types in (alert thresholds); a Beaufort force maps to the bottom of its band
+export const toMetricTemperature = (value: number, unit: Unit) =>
+  unit === Unit.FAHRENHEIT ? (value - 32) * 5 / 9 : value;
+
+export const toMetricWind = (value: number, unit: WindUnit) => {
+  switch (unit) {
+    case 'kmh': return value / 3.6;
+    case 'mph': return value / 2.236936;
+    case 'kn': return value / 1.943844;
+    case 'bft': return value <= 0 ? 0 : BEAUFORT_LIMITS[Math.min(Math.round(value), 12) - 1];
+    default: return value;
+  }
+};
@@ -0,0 +1,122 @@
+import { GeoLocation, Locale, Nowcast, QuietHours, SentNotification, WatchConfig, WatchNotification, WeatherBundle } from '../types';
+import { getWeatherBundles, getLocationKey } from './weatherService';
+import { getNowcast } from './nowcastService';
+import { evaluateAlerts, isDismissed } from './alertService';
+import { loadSentLog, loadWatchConfig, saveSentLog } from './watchStore';
+import { translate } from './i18n';
+
+export const WATCH_SYNC_TAG = 'skycast-watch';
+export const WATCH_INTERVAL_MS = 15 * 60 * 1000;
+
+const HOUR = 3600;
+// Alerts starting further out than this wait for a later check
+const ALERT_LEAD = 2 * HOUR;
+// "Rain in N min" is only useful shortly before it starts
+const NOWCAST_LEAD = 30 * 60;
+
+// Injected so checks can run against a fake clock and a mocked provider
+export interface WatchDependencies {
+  now: () => number; // Unix seconds
+  getBundles: (locations: GeoLocation[]) => Promise<WeatherBundle[]>;
+  getNowcast: (location: GeoLocation) => Promise<Nowcast>;
+}
+
+const defaultDependencies: WatchDependencies = {
+  now: () => Date.now() / 1000,
+  getBundles: getWeatherBundles,
+  getNowcast
+};
+
+export const isQuietTime = (quietHours: QuietHours | null, timestamp: number) => {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const hour = new Date(timestamp * 1000).getHours();
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+};
+
+const getNowcastNotification = (location: GeoLocation, nowcast: Nowcast, now: number, locale: Locale) => {
+  const start = nowcast.slots.findIndex(slot => slot.intensity !== 'none');
+  // Already wet in the current slot means it has started, not that it is about to
+  if (start <= 0) return null;
+  const startsIn = nowcast.slots[start].time - now;
+  if (startsIn > NOWCAST_LEAD) return null;
+  return {
+    key: `${getLocationKey(location)}|nowcast`,
+    until: nowcast.slots[start].time + HOUR,
+    notification: {
+      tag: `${getLocationKey(location)}|nowcast`,
+      title: translate({
+        key: nowcast.slots[start].snowfall > 0 ? 'notify.snowSoon' : 'notify.rainSoon',
+        params: { minutes: Math.max(1, Math.round(startsIn / 60)), place: location.name }
+      }, locale),
+      body: translate(nowcast.summary, locale)
+    }
+  };
+};
+
+// Returns what should be shown and the updated sent log; showing and persisting are the caller's job
+export const runWatchCheck = async (
+  config: WatchConfig,
+  sent: SentNotification[],
+  dependencies: WatchDependencies = defaultDependencies
+): Promise<{ notifications: WatchNotification[]; sent: SentNotification[] }> => {
+  const now = dependencies.now();
+  const log = sent.filter(entry => entry.until > now);
+  // Nothing is marked as sent during quiet hours, so conditions still active afterwards are announced then
+  if (config.locations.length === 0 || isQuietTime(config.quietHours, now)) {
+    return { notifications: [], sent: log };
+  }
+
+  const candidates: { key: string; until: number; notification: WatchNotification }[] = [];
+
+  try {
+    const bundles = await dependencies.getBundles(config.locations);
+    bundles.forEach(bundle => {
+      evaluateAlerts(bundle, config.thresholds, config.units, now)
+        .filter(alert => alert.start <= now + ALERT_LEAD && !isDismissed(alert, config.dismissed))
+        .forEach(alert => {
+          // Keyed by type and severity rather than start time, which moves while an alert is ongoing
+          const key = `${alert.locationKey}|${alert.type}|${alert.severity}`;
+          candidates.push({
+            key,
+            until: alert.end,
+            notification: {
+              tag: key,
+              title: translate({ key: 'notify.alertAt', params: { title: alert.title, place: bundle.location.name } }, config.locale),
+              body: translate(alert.description, config.locale)
+            }
+          });
+        });
+    });
+  } catch (error) {
+    console.warn("Watch check could not refresh forecasts:", error);
+  }
+
+  const nowcasts = await Promise.all(config.locations.map(location =>
+    dependencies.getNowcast(location)
+      .then(nowcast => getNowcastNotification(location, nowcast, now, config.locale))
+      .catch(() => null)
+  ));
+  nowcasts.forEach(candidate => { if (candidate) candidates.push(candidate); });
+
+  const notifications: WatchNotification[] = [];
+  candidates.forEach(({ key, until, notification }) => {
+    if (log.some(entry => entry.key === key)) return;
+    log.push({ key, until });
+    notifications.push(notification);
+  });
+  return { notifications, sent: log };
+};
+
+// Shared by the service worker and the in-page fallback: load state, check, persist, show
+export const performWatchCheck = async (
+  show: (notification: WatchNotification) => Promise<void> | void,
+  dependencies: WatchDependencies = defaultDependencies
+) => {
+  const config = await loadWatchConfig();
+  if (!config) return;
+  const { notifications, sent } = await runWatchCheck(config, await loadSentLog(), dependencies);
+  await saveSentLog(sent);
+  await Promise.all(notifications.map(notification => show(notification)));
+};
@@ -0,0 +1,46 @@
+import { SentNotification, WatchConfig } from '../types';
+
+// The page and the service worker share state through the Cache API, the one
+// key-value store both can reach (localStorage does not exist in workers).
+
+const STORE_NAME = 'skycast-watch';
+const CONFIG_URL = '/__skycast/watch-config';
+const SENT_URL = '/__skycast/watch-sent';
+
+const readJSON = async <T>(url: string): Promise<T | null> => {
+  if (typeof caches === 'undefined') return null;
+  try {
+    const cache = await caches.open(STORE_NAME);
+    const response = await cache.match(url);
+    return response ? await response.json() : null;
+  } catch (error) {
+    console.warn("Watch store read failed:", error);
+    return null;
+  }
+};
+
+const writeJSON = async (url: string, value: unknown) => {
+  if (typeof caches === 'undefined') return;
+  try {
+    const cache = await caches.open(STORE_NAME);
+    if (value === null) {
+      await cache.delete(url);
+    } else {
+      await cache.put(url, new Response(JSON.stringify(value), { headers: { 'Content-Type': 'application/json' } }));
+    }
+  } catch (error) {
+    console.warn("Watch store write failed:", error);
+  }
+};
+
+export const loadWatchConfig = () => readJSON<WatchConfig>(CONFIG_URL);
+
+// null turns background checks off
+export const saveWatchConfig = (config: WatchConfig | null) => writeJSON(CONFIG_URL, config);
+
+export const loadSentLog = async (): Promise<SentNotification[]> => {
+  const sent = await readJSON<SentNotification[]>(SENT_URL);
+  return Array.isArray(sent) ? sent : [];
+};
+
+export const saveSentLog = (sent: SentNotification[]) => writeJSON(SENT_URL, sent);
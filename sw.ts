@@ -0,0 +1,35 @@
+import { performWatchCheck, WATCH_SYNC_TAG } from './services/watchService';
+
+// The app compiles against the DOM lib only, which has no ServiceWorkerGlobalScope;
+// the handful of worker APIs used here are accessed untyped instead of pulling in a second lib.
+const scope = self as any;
+
+const check = () => performWatchCheck((notification) =>
+  scope.registration.showNotification(notification.title, {
+    body: notification.body,
+    tag: notification.tag
+  })
+);
+
+scope.addEventListener('install', () => scope.skipWaiting());
+
+scope.addEventListener('activate', (event: any) => event.waitUntil(scope.clients.claim()));
+
+// Periodic Background Sync (Chromium, installed app) runs checks with no tab open
+scope.addEventListener('periodicsync', (event: any) => {
+  if (event.tag === WATCH_SYNC_TAG) event.waitUntil(check());
+});
+
+// Pages without periodic sync ask for a check on their own timer
+scope.addEventListener('message', (event: any) => {
+  if (event.data?.type === WATCH_SYNC_TAG) event.waitUntil(check());
+});
+
+scope.addEventListener('notificationclick', (event: any) => {
+  event.notification.close();
+  event.waitUntil(
+    scope.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients: any[]) =>
+      clients.length > 0 ? clients[0].focus() : scope.clients.openWindow('/')
+    )
+  );
+});
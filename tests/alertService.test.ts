@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyItem } from '../types';
+import { dismissAlert, evaluateAlerts, getWindChill, isDismissed } from '../services/alertService';
+import { HOUR, makeBundle, makeHourly, METRIC_UNITS, THRESHOLDS } from './fixtures';
+
+const NOW = Date.UTC(2026, 0, 15, 0) / 1000;
+
+const alertsFor = (shape: (index: number) => Partial<HourlyItem>, hours: number = 48, thresholds = THRESHOLDS) =>
+  evaluateAlerts(makeBundle(makeHourly(NOW, hours, shape)), thresholds, METRIC_UNITS, NOW);
+
+const snowAlerts = (shape: (index: number) => Partial<HourlyItem>) =>
+  alertsFor(shape).filter(alert => alert.type === 'snow');
+
+describe('evaluateAlerts: snow', () => {
+  // 10 cm default threshold, spread over five hours
+  it('alerts when 24-hour snowfall reaches the threshold exactly', () => {
+    const alerts = snowAlerts(i => i < 5 ? { snowfall: THRESHOLDS.snowfall / 5 } : {});
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ severity: 'moderate', start: NOW, end: NOW + 5 * HOUR });
+  });
+
+  it('stays quiet just below the threshold', () => {
+    expect(snowAlerts(i => i < 5 ? { snowfall: (THRESHOLDS.snowfall - 0.5) / 5 } : {})).toEqual([]);
+  });
+
+  it('escalates at twice the threshold', () => {
+    expect(snowAlerts(i => i < 4 ? { snowfall: THRESHOLDS.snowfall / 2 } : {})[0].severity).toBe('severe');
+  });
+
+  // 0.3 cm an hour for 40 hours: 12 cm in the spell, but only 7.2 cm in any 24 hours
+  it('does not add up a long, light spell beyond 24 hours', () => {
+    expect(snowAlerts(i => i < 40 ? { snowfall: 0.3 } : {})).toEqual([]);
+  });
+
+  // 0.5 cm an hour for 30 hours: 12 cm within the first 24
+  it('alerts on the heaviest 24 hours of a long spell', () => {
+    const alerts = snowAlerts(i => i < 30 ? { snowfall: 0.5 } : {});
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].end).toBe(NOW + 30 * HOUR);
+  });
+
+  it('alerts on heavy-snow codes even without amounts', () => {
+    const heavy = [{ id: 75, main: 'Snow', description: 'heavy snow', icon: '13d' }];
+    expect(snowAlerts(i => i === 3 ? { weather: heavy } : {})[0].severity).toBe('moderate');
+  });
+
+  it('follows a user-set threshold', () => {
+    const alerts = alertsFor(i => i < 2 ? { snowfall: 2 } : {}, 48, { ...THRESHOLDS, snowfall: 4 })
+      .filter(alert => alert.type === 'snow');
+    expect(alerts).toHaveLength(1);
+  });
+});
+
+describe('evaluateAlerts: other rules', () => {
+  it('groups consecutive gusty hours into one alert with the worst severity', () => {
+    const alerts = alertsFor(i => i >= 2 && i < 6 ? { wind: { speed: 8, deg: 0, gust: i === 4 ? THRESHOLDS.gust + 8 : THRESHOLDS.gust } } : {})
+      .filter(alert => alert.type === 'wind');
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ severity: 'severe', start: NOW + 2 * HOUR, end: NOW + 6 * HOUR });
+  });
+
+  it('ignores data past the 48-hour horizon', () => {
+    const alerts = alertsFor(i => i >= 50 ? { wind: { speed: 8, deg: 0, gust: 40 } } : {}, 72);
+    expect(alerts).toEqual([]);
+  });
+
+  it('raises heat alerts from the heat index, not the air temperature', () => {
+    const humid = alertsFor(i => i === 1 ? { temp: 31, humidity: 80 } : {}).filter(alert => alert.type === 'heat');
+    const dry = alertsFor(i => i === 1 ? { temp: 31, humidity: 10 } : {}).filter(alert => alert.type === 'heat');
+    expect(humid).toHaveLength(1);
+    expect(dry).toEqual([]);
+  });
+
+  it('only computes wind chill for cold, moving air', () => {
+    expect(getWindChill(15, 10)).toBe(15);
+    expect(getWindChill(-10, 1)).toBe(-10);
+    expect(getWindChill(-10, 10)).toBeLessThan(-10);
+  });
+});
+
+describe('dismissals', () => {
+  const gusty = () => alertsFor(i => i < 3 ? { wind: { speed: 8, deg: 0, gust: THRESHOLDS.gust + 1 } } : {})[0];
+
+  it('hides a dismissed alert until its window ends', () => {
+    const alert = gusty();
+    const dismissed = dismissAlert([], alert, NOW);
+    expect(isDismissed(alert, dismissed)).toBe(true);
+    expect(isDismissed({ ...alert, start: alert.end }, dismissed)).toBe(false);
+  });
+
+  it('shows the alert again when it escalates', () => {
+    const alert = gusty();
+    const dismissed = dismissAlert([], alert, NOW);
+    expect(isDismissed({ ...alert, severity: 'severe' }, dismissed)).toBe(false);
+  });
+
+  it('drops expired dismissals when adding a new one', () => {
+    const alert = gusty();
+    const old = { ...dismissAlert([], alert, NOW)[0], until: NOW - 1 };
+    expect(dismissAlert([old], alert, NOW)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getAstronomy } from '../services/astronomy';
+import { fromZonedTime, getLocalDate } from '../services/timezone';
+
+const BERLIN = { latitude: 52.52, longitude: 13.405, zone: 'Europe/Berlin' };
+
+const astronomyIn = ({ latitude, longitude, zone }: typeof BERLIN, now: number) => getAstronomy(latitude, longitude, zone, now);
+
+describe('getAstronomy: clock changes', () => {
+  // 00:30 on the night the clocks go forward: still the 29th, a 23-hour day
+  it('uses the zone\'s own midnights on a spring-forward day', () => {
+    const { sun, moon, dayLengthChange } = astronomyIn(BERLIN, Date.UTC(2026, 2, 28, 23, 30));
+    const dayStart = fromZonedTime('2026-03-29', BERLIN.zone)!;
+    const dayEnd = fromZonedTime('2026-03-30', BERLIN.zone)!;
+    expect(dayEnd - dayStart).toBe(23 * 3600);
+
+    expect(getLocalDate(sun.sunrise!, BERLIN.zone)).toBe('2026-03-29');
+    // A few minutes longer than yesterday, not an hour
+    expect(dayLengthChange).toBeGreaterThan(200);
+    expect(dayLengthChange).toBeLessThan(300);
+    [moon.rise, moon.set].forEach(time => {
+      expect(time).toBeGreaterThanOrEqual(dayStart);
+      expect(time).toBeLessThan(dayEnd);
+    });
+  });
+
+  it('scans all 25 hours of a fall-back day', () => {
+    const { moon, dayLengthChange } = astronomyIn(BERLIN, Date.UTC(2026, 9, 25, 10));
+    const dayStart = fromZonedTime('2026-10-25', BERLIN.zone)!;
+    const dayEnd = fromZonedTime('2026-10-26', BERLIN.zone)!;
+    expect(dayEnd - dayStart).toBe(25 * 3600);
+    expect(dayLengthChange).toBeLessThan(-200);
+    expect(dayLengthChange).toBeGreaterThan(-300);
+    [moon.rise, moon.set].forEach(time => {
+      expect(time).toBeGreaterThanOrEqual(dayStart);
+      expect(time).toBeLessThan(dayEnd);
+    });
+  });
+});
+
+describe('getAstronomy: polar and southern days', () => {
+  const TROMSO = { latitude: 69.65, longitude: 18.96, zone: 'Europe/Oslo' };
+
+  it('reports the midnight sun as a 24-hour day without sunrise or sunset', () => {
+    const { sun, dayLengthChange } = astronomyIn(TROMSO, Date.UTC(2026, 5, 21, 12));
+    expect(sun).toMatchObject({ polar: 'day', sunrise: null, sunset: null, dayLength: 86400 });
+    expect(dayLengthChange).toBe(0);
+  });
+
+  it('reports the polar night as a day of zero length', () => {
+    const { sun } = astronomyIn(TROMSO, Date.UTC(2026, 11, 21, 12));
+    expect(sun).toMatchObject({ polar: 'night', sunrise: null, sunset: null, dayLength: 0 });
+    // The sun still brightens the sky at noon
+    expect(sun.civilDawn).not.toBeNull();
+  });
+
+  it('has long days in the southern summer', () => {
+    const { sun } = astronomyIn({ latitude: -33.87, longitude: 151.21, zone: 'Australia/Sydney' }, Date.UTC(2026, 0, 15, 2));
+    expect(sun.polar).toBeNull();
+    expect(sun.dayLength).toBeGreaterThan(14 * 3600);
+    expect(sun.sunrise!).toBeLessThan(sun.solarNoon);
+    expect(sun.solarNoon).toBeLessThan(sun.sunset!);
+  });
+});
+
+describe('getAstronomy: moon phase', () => {
+  // The eclipse full moon of 3 March 2026 and the new moon of 19 March
+  it('names the full and new moon', () => {
+    const full = astronomyIn(BERLIN, Date.UTC(2026, 2, 3, 12)).moon;
+    expect(full.phaseName).toBe('moon.full');
+    expect(full.illumination).toBeGreaterThan(0.97);
+    const dark = astronomyIn(BERLIN, Date.UTC(2026, 2, 19, 2)).moon;
+    expect(dark.phaseName).toBe('moon.new');
+    expect(dark.illumination).toBeLessThan(0.03);
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { configureCacheTTLs, DEFAULT_CACHE_TTLS, isFresh } from '../services/cacheService';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+describe('isFresh', () => {
+  afterEach(() => configureCacheTTLs(DEFAULT_CACHE_TTLS));
+
+  it('expires each data type on its own TTL', () => {
+    const age = 20 * MINUTE;
+    expect(isFresh(NOW - age, 'current', NOW)).toBe(false);
+    expect(isFresh(NOW - age, 'hourly', NOW)).toBe(true);
+    expect(isFresh(NOW - age, 'daily', NOW)).toBe(true);
+    expect(isFresh(NOW - age, 'aqi', NOW)).toBe(true);
+
+    expect(isFresh(NOW - 45 * MINUTE, 'hourly', NOW)).toBe(false);
+    expect(isFresh(NOW - 45 * MINUTE, 'daily', NOW)).toBe(true);
+    expect(isFresh(NOW - 4 * 60 * MINUTE, 'daily', NOW)).toBe(false);
+    expect(isFresh(NOW - 7 * 24 * 60 * MINUTE, 'climate', NOW)).toBe(true);
+  });
+
+  it('holds a set of sections to the shortest TTL among them', () => {
+    expect(isFresh(NOW - 20 * MINUTE, ['hourly', 'daily'], NOW)).toBe(true);
+    expect(isFresh(NOW - 20 * MINUTE, ['current', 'daily'], NOW)).toBe(false);
+  });
+
+  it('judges a whole bundle by all of its sections by default', () => {
+    expect(isFresh(NOW - 9 * MINUTE, undefined, NOW)).toBe(true);
+    expect(isFresh(NOW - 10 * MINUTE, undefined, NOW)).toBe(false);
+  });
+
+  it('follows configured overrides per type', () => {
+    configureCacheTTLs({ current: 60 * MINUTE });
+    expect(isFresh(NOW - 20 * MINUTE, 'current', NOW)).toBe(true);
+    expect(isFresh(NOW - 40 * MINUTE, undefined, NOW)).toBe(false);
+    configureCacheTTLs({ hourly: 2 * 60 * MINUTE });
+    expect(isFresh(NOW - 40 * MINUTE, undefined, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { AlertThresholds, GeoLocation, HourlyItem, Unit, UnitSettings, WeatherBundle } from '../types';
+import { DEFAULT_ALERT_THRESHOLDS } from '../services/alertService';
+
+// Minimal, calm weather that tests override field by field
+
+export const HOUR = 3600;
+
+export const METRIC_UNITS: UnitSettings = { temperature: Unit.CELSIUS, wind: 'kmh', pressure: 'hpa', precipitation: 'mm', distance: 'km' };
+
+export const THRESHOLDS: AlertThresholds = { ...DEFAULT_ALERT_THRESHOLDS };
+
+export const makeLocation = (name: string = 'Testville', latitude: number = 10, longitude: number = 20): GeoLocation => ({
+  id: 1, name, latitude, longitude, country: 'Testland', country_code: 'TL'
+});
+
+export const makeHour = (dt: number, overrides: Partial<HourlyItem> = {}): HourlyItem => ({
+  dt,
+  temp: 18,
+  feels_like: 18,
+  humidity: 50,
+  wind: { speed: 3, deg: 180 },
+  clouds: 20,
+  precipitation: 0,
+  snowfall: 0,
+  uv_index: 2,
+  is_day: true,
+  weather: [{ id: 1, main: 'Clear', description: 'mainly clear', icon: '01d' }],
+  pop: 0,
+  ...overrides
+});
+
+// `hours` consecutive hourly slots from `start`, each passed through `shape` by index
+export const makeHourly = (start: number, hours: number, shape: (index: number) => Partial<HourlyItem> = () => ({})) =>
+  Array.from({ length: hours }, (_, i) => makeHour(start + i * HOUR, shape(i)));
+
+export const makeBundle = (hourly: HourlyItem[], location: GeoLocation = makeLocation()): WeatherBundle => {
+  const first = hourly[0]?.dt ?? 0;
+  const condition = { id: 1, main: 'Clear', description: 'mainly clear', icon: '01d' };
+  return {
+    location,
+    current: {
+      coord: { lat: location.latitude, lon: location.longitude },
+      weather: [condition],
+      base: 'test',
+      main: { temp: 18, feels_like: 18, temp_min: 12, temp_max: 22, pressure: 1013, humidity: 50 },
+      visibility: 10000,
+      wind: { speed: 3, deg: 180 },
+      clouds: { all: 20 },
+      dt: first,
+      sys: { type: 0, id: 0, country: 'TL', sunrise: first, sunset: first + 12 * HOUR },
+      uv_index: 2,
+      precipitation: 0,
+      dew_point: 8,
+      aqi: null,
+      timezone: 0,
+      timezone_id: 'UTC',
+      id: 1,
+      name: location.name,
+      cod: 200
+    },
+    forecast: {
+      cod: '200',
+      message: 0,
+      cnt: 1,
+      list: [],
+      hourly,
+      city: {
+        id: 1,
+        name: location.name,
+        coord: { lat: location.latitude, lon: location.longitude },
+        country: 'TL',
+        population: 0,
+        timezone: 0,
+        timezone_id: 'UTC',
+        sunrise: first,
+        sunset: first + 12 * HOUR
+      }
+    }
+  };
+};
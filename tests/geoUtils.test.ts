@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoordinates } from '../services/geoUtils';
+
+describe('parseCoordinates', () => {
+  it.each([
+    ['48.85,2.35', 48.85, 2.35],
+    ['48.85 2.35', 48.85, 2.35],
+    ['48.85N, 2.35E', 48.85, 2.35],
+    ['33.87 S 151.21 E', -33.87, 151.21],
+    ['40.71°, -74.01°', 40.71, -74.01],
+    ['48, 2', 48, 2],
+    ['48;2', 48, 2],
+    ['48N 2W', 48, -2]
+  ])('reads %s', (query, latitude, longitude) => {
+    expect(parseCoordinates(query)).toEqual({ latitude, longitude });
+  });
+
+  it.each([
+    ['bare integers separated by a space', '48 2'],
+    ['a search with two numbers', '10 15'],
+    ['a latitude out of range', '91.5, 10'],
+    ['a longitude out of range', '45.1, 181'],
+    ['a place name', 'Paris']
+  ])('ignores %s', (_, query) => {
+    expect(parseCoordinates(query)).toBeNull();
+  });
+});
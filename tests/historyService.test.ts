@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { getClimateNormal } from '../services/historyService';
+import { writeCache } from '../services/cacheService';
+import { makeLocation } from './fixtures';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+const memoryStorage = () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); }
+  };
+};
+
+// Every day of the requested range at a constant 20/10 °C and 1 mm
+const archiveResponse = (params: { start_date: string; end_date: string }) => {
+  const time: string[] = [];
+  for (let day = new Date(params.start_date); day <= new Date(params.end_date); day.setUTCDate(day.getUTCDate() + 1)) {
+    time.push(day.toISOString().slice(0, 10));
+  }
+  return {
+    data: {
+      daily: {
+        time,
+        temperature_2m_max: time.map(() => 20),
+        temperature_2m_min: time.map(() => 10),
+        precipitation_sum: time.map(() => 1),
+        wind_speed_10m_max: time.map(() => 5)
+      }
+    }
+  };
+};
+
+const get = vi.mocked(axios.get);
+
+describe('getClimateNormal', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    get.mockImplementation(async (_url, config) => archiveResponse(config!.params as { start_date: string; end_date: string }) as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    get.mockReset();
+  });
+
+  it('averages the window around the date in each year of 1991–2020', async () => {
+    const normal = await getClimateNormal(makeLocation(), '2026-03-01');
+    expect(normal).toEqual({ temp_max: 20, temp_min: 10, precipitation: 1, period: '1991–2020' });
+    expect(get).toHaveBeenCalledTimes(30);
+    expect(get.mock.calls[0][1]!.params).toMatchObject({ start_date: '1991-02-22', end_date: '1991-03-08' });
+    expect(get.mock.calls[29][1]!.params).toMatchObject({ start_date: '2020-02-23', end_date: '2020-03-08' });
+  });
+
+  it('centres 29 February on 28 February in common years', async () => {
+    await getClimateNormal(makeLocation(), '2028-02-29');
+    expect(get.mock.calls[0][1]!.params).toMatchObject({ start_date: '1991-02-21', end_date: '1991-03-07' });
+    expect(get.mock.calls[1][1]!.params).toMatchObject({ start_date: '1992-02-22', end_date: '1992-03-07' });
+  });
+
+  it('keeps normals when the response cache evicts everything else', async () => {
+    const location = makeLocation();
+    await getClimateNormal(location, '2026-03-01');
+    for (let i = 0; i < 40; i++) writeCache(`filler|${i}`, i);
+
+    expect(await getClimateNormal(location, '2026-03-01')).not.toBeNull();
+    expect(get).toHaveBeenCalledTimes(30);
+  });
+
+  it('fetches separately for each location and date', async () => {
+    await getClimateNormal(makeLocation('A', 1, 1), '2026-03-01');
+    await getClimateNormal(makeLocation('B', 2, 2), '2026-03-01');
+    await getClimateNormal(makeLocation('B', 2, 2), '2026-07-15');
+    expect(get).toHaveBeenCalledTimes(90);
+  });
+
+  it('remembers a point the archive has no data for', async () => {
+    get.mockImplementation(async () => ({ data: { daily: { time: [], temperature_2m_max: [], temperature_2m_min: [], precipitation_sum: [], wind_speed_10m_max: [] } } }) as any);
+    expect(await getClimateNormal(makeLocation(), '2026-03-01')).toBeNull();
+    expect(await getClimateNormal(makeLocation(), '2026-03-01')).toBeNull();
+    expect(get).toHaveBeenCalledTimes(30);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildNowcast } from '../services/nowcastService';
+
+const SLOT = 15 * 60;
+const NOW = Date.UTC(2026, 0, 15, 12) / 1000;
+
+// One past slot plus nine ahead, as requested from Open-Meteo, with `amounts` in mm per slot from the past one
+const nowcastOf = (amounts: number[], { snow = false, now = NOW } = {}) => {
+  const times = Array.from({ length: 10 }, (_, i) => NOW + (i - 1) * SLOT);
+  const precipitation = times.map((_, i) => amounts[i] ?? 0);
+  return buildNowcast(times, precipitation, precipitation.map(value => snow ? value * 0.7 : 0), now);
+};
+
+describe('buildNowcast', () => {
+  it('keeps the slot containing now and the next two hours', () => {
+    const { slots } = nowcastOf([], { now: NOW + 5 * 60 });
+    expect(slots).toHaveLength(8);
+    expect(slots[0].time).toBe(NOW);
+  });
+
+  it('bands intensity by hourly rate and ignores traces', () => {
+    const { slots } = nowcastOf([0, 0.05, 0.6, 0.7, 1.8, 1.9]);
+    expect(slots.slice(0, 5).map(slot => slot.intensity)).toEqual(['none', 'light', 'moderate', 'moderate', 'heavy']);
+  });
+
+  it('reads missing values as dry', () => {
+    const nowcast = buildNowcast([NOW, NOW + SLOT], [null as unknown as number, 0], [], NOW);
+    expect(nowcast.slots[0]).toMatchObject({ precipitation: 0, snowfall: 0, intensity: 'none' });
+    expect(nowcast.summary).toEqual({ key: 'nowcast.dry' });
+  });
+
+  it('says when rain starts and how long it lasts, labelled by its peak', () => {
+    expect(nowcastOf([0, 0, 0, 0.3, 0.8, 0.3]).summary).toEqual({
+      key: 'nowcast.starting',
+      params: { label: { key: 'nowcast.moderateRain' }, minutes: 30, duration: 45 }
+    });
+  });
+
+  it('says when rain stops, or that it keeps going', () => {
+    expect(nowcastOf([0.3, 0.3, 0.3]).summary).toEqual({ key: 'nowcast.stopping', params: { label: { key: 'nowcast.lightRain' }, minutes: 30 } });
+    expect(nowcastOf(Array(10).fill(2)).summary).toEqual({ key: 'nowcast.ongoing', params: { label: { key: 'nowcast.heavyRain' } } });
+  });
+
+  it('calls a spell snow when any of it falls as snow, and rounds to at least 5 minutes', () => {
+    expect(nowcastOf([0, 0, 0.3], { snow: true, now: NOW + 14 * 60 }).summary).toEqual({
+      key: 'nowcast.starting',
+      params: { label: { key: 'nowcast.lightSnow' }, minutes: 5, duration: 15 }
+    });
+  });
+
+  it('says rain starting beyond the window lasts past it', () => {
+    expect(nowcastOf([0, 0, 0, 0, 0, 0, 0, 0.3, 0.3, 0.3]).summary).toEqual({
+      key: 'nowcast.startingLong',
+      params: { label: { key: 'nowcast.lightRain' }, minutes: 90 }
+    });
+  });
+});
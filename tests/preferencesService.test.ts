@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Unit } from '../types';
+import { DEFAULT_PREFERENCES, migratePreferences, parsePreferences, PREFERENCES_VERSION } from '../services/preferencesService';
+import { DEFAULT_UNITS } from '../services/units';
+import { DEFAULT_ALERT_THRESHOLDS } from '../services/alertService';
+import { makeLocation } from './fixtures';
+
+// Just enough of the Storage API for the legacy-key migration
+const memoryStorage = (initial: Record<string, string> = {}) => {
+  const store = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+    has: (key: string) => store.has(key)
+  };
+};
+
+const paris = makeLocation('Paris', 48.85, 2.35);
+
+describe('migratePreferences', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    storage = memoryStorage({ 'skycast.favorites': JSON.stringify([paris]) });
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('folds the legacy favorites key into a fresh store and removes it', () => {
+    const migrated = migratePreferences(null);
+    expect(migrated.version).toBe(PREFERENCES_VERSION);
+    expect(migrated.favorites).toEqual([paris]);
+    expect(storage.has('skycast.favorites')).toBe(false);
+  });
+
+  it('ignores a legacy favorites key that is not a list', () => {
+    storage.setItem('skycast.favorites', '{"oops":true}');
+    expect(migratePreferences(undefined).favorites).toEqual([]);
+  });
+
+  it('turns the v1 Fahrenheit toggle into unit settings', () => {
+    const migrated = migratePreferences({ version: 1, unit: Unit.FAHRENHEIT, favorites: [paris], ttsEnabled: true });
+    expect(migrated).toEqual({
+      version: 2,
+      favorites: [paris],
+      ttsEnabled: true,
+      units: { ...DEFAULT_UNITS, temperature: Unit.FAHRENHEIT }
+    });
+  });
+
+  it('defaults unknown v1 temperature values to Celsius', () => {
+    expect(migratePreferences({ version: 1, unit: 'kelvin' }).units.temperature).toBe(Unit.CELSIUS);
+  });
+
+  it('leaves current and newer versions alone', () => {
+    const current = { version: PREFERENCES_VERSION, ttsEnabled: true };
+    const newer = { version: PREFERENCES_VERSION + 1, somethingNew: 1 };
+    expect(migratePreferences(current)).toBe(current);
+    expect(migratePreferences(newer)).toBe(newer);
+    expect(storage.has('skycast.favorites')).toBe(true);
+  });
+});
+
+describe('parsePreferences', () => {
+  it('returns defaults for nothing stored or unreadable JSON', () => {
+    expect(parsePreferences(null)).toEqual(DEFAULT_PREFERENCES);
+    expect(parsePreferences('{not json')).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it('migrates a v1 store all the way through', () => {
+    const preferences = parsePreferences(JSON.stringify({ version: 1, unit: Unit.FAHRENHEIT, favorites: [paris], lastLocation: paris }));
+    expect(preferences.version).toBe(PREFERENCES_VERSION);
+    expect(preferences.units.temperature).toBe(Unit.FAHRENHEIT);
+    expect(preferences.favorites).toEqual([paris]);
+    expect(preferences.lastLocation).toEqual(paris);
+  });
+
+  it('replaces malformed fields with defaults and drops invalid entries', () => {
+    const preferences = parsePreferences(JSON.stringify({
+      version: PREFERENCES_VERSION,
+      units: { temperature: 'kelvin', wind: 'mph' },
+      favorites: [paris, { name: 'Nowhere' }],
+      alertThresholds: { gust: 'strong', uvIndex: 6 },
+      notifications: { enabled: true, quietHours: { start: 25, end: 7 } },
+      timeDisplay: 'device',
+      locale: 'fr'
+    }));
+    expect(preferences.units).toEqual({ ...DEFAULT_UNITS, wind: 'mph' });
+    expect(preferences.favorites).toEqual([paris]);
+    expect(preferences.alertThresholds).toEqual({ ...DEFAULT_ALERT_THRESHOLDS, uvIndex: 6 });
+    expect(preferences.notifications).toEqual({ enabled: true, quietHours: DEFAULT_PREFERENCES.notifications.quietHours });
+    expect(preferences.timeDisplay).toBe('device');
+    expect(preferences.locale).toBe(DEFAULT_PREFERENCES.locale);
+  });
+
+  it('keeps quiet hours switched off', () => {
+    const preferences = parsePreferences(JSON.stringify({ version: PREFERENCES_VERSION, notifications: { enabled: true, quietHours: null } }));
+    expect(preferences.notifications.quietHours).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { getPlaceWithWeatherWord, parseQueryLocally } from '../services/queryParser';
+
+// A Thursday, device-local
+const NOW = new Date(2026, 0, 15, 9);
+
+describe('parseQueryLocally', () => {
+  it('reads the place, day, time of day and metric', () => {
+    expect(parseQueryLocally('rain in Pune tomorrow evening?', NOW)).toEqual({
+      city: 'Pune',
+      when: { dayOffset: 1, startHour: 17, endHour: 21 },
+      metric: 'rain',
+      intent: 'rain in Pune tomorrow evening?'
+    });
+  });
+
+  it('keeps articles and abbreviations that belong to the name', () => {
+    expect(parseQueryLocally("what's the weather in Los Angeles on Saturday", NOW)).toMatchObject({
+      city: 'Los Angeles',
+      when: { dayOffset: 2, startHour: 0, endHour: 24 }
+    });
+    expect(parseQueryLocally('is it windy in St. Louis', NOW)).toMatchObject({ city: 'St. Louis', metric: 'wind' });
+  });
+
+  it('splits places to compare', () => {
+    expect(parseQueryLocally('Paris vs London', NOW)).toMatchObject({ city: 'Paris', compareWith: ['London'] });
+    expect(parseQueryLocally('compare Delhi and Mumbai', NOW)).toMatchObject({ city: 'Delhi', compareWith: ['Mumbai'] });
+  });
+
+  it('keeps a state code after a comma as part of the place', () => {
+    expect(parseQueryLocally('Portland, OR tomorrow', NOW)).toMatchObject({ city: 'Portland, OR', when: { dayOffset: 1 } });
+    expect(parseQueryLocally('weather in Indianapolis, IN', NOW)).toMatchObject({ city: 'Indianapolis, IN' });
+    expect(parseQueryLocally('Portland, or Seattle', NOW)).toMatchObject({ city: 'Portland' });
+    expect(parseQueryLocally('Portland or Seattle', NOW)).toMatchObject({ city: 'Portland', compareWith: ['Seattle'] });
+  });
+
+  it('reads next week as its Monday', () => {
+    expect(parseQueryLocally('weather in Rio de Janeiro next week', NOW)).toMatchObject({
+      city: 'Rio de Janeiro',
+      when: { dayOffset: 4, startHour: 0, endHour: 24 }
+    });
+    expect(parseQueryLocally('lluvia en Madrid la próxima semana', new Date(2026, 0, 12, 9))).toMatchObject({ city: 'Madrid', when: { dayOffset: 7 } });
+  });
+
+  it('leaves the place empty when none is named', () => {
+    expect(parseQueryLocally('will it snow tomorrow', NOW)).toMatchObject({ city: '', metric: 'snow' });
+    expect(parseQueryLocally('regen morgen abends', NOW)).toMatchObject({ city: '', metric: 'rain', when: { dayOffset: 1 } });
+  });
+
+  it('keeps weather words that are part of a place name', () => {
+    expect(parseQueryLocally('Hot Springs', NOW)).toEqual({ city: 'Hot Springs' });
+    expect(parseQueryLocally('Cold Spring Harbor', NOW)).toEqual({ city: 'Cold Spring Harbor' });
+    expect(parseQueryLocally('Rainy Lake', NOW)).toEqual({ city: 'Rainy Lake' });
+    expect(parseQueryLocally('weather in Windy Bay tomorrow', NOW)).toMatchObject({ city: 'Windy Bay', when: { dayOffset: 1 } });
+    expect(parseQueryLocally('Hot Springs rain on Sunday', NOW)).toMatchObject({ city: 'Hot Springs', metric: 'rain', when: { dayOffset: 3 } });
+  });
+
+  it('still reads a capitalised weather word that does not start a name', () => {
+    expect(parseQueryLocally('Rain in Pune tomorrow', NOW)).toMatchObject({ city: 'Pune', metric: 'rain' });
+    expect(parseQueryLocally('Hot Tomorrow in Delhi', NOW)).toMatchObject({ city: 'Delhi', metric: 'temperature' });
+  });
+});
+
+describe('getPlaceWithWeatherWord', () => {
+  it('puts back a weather word the parse took from the place', () => {
+    expect(getPlaceWithWeatherWord('hot springs')).toBe('hot springs');
+    expect(getPlaceWithWeatherWord('rainy lake tomorrow')).toBe('rainy lake');
+    expect(getPlaceWithWeatherWord('cold spring harbor on sunday')).toBe('cold spring harbor');
+  });
+
+  it('has nothing to try for ordinary questions', () => {
+    expect(getPlaceWithWeatherWord('rain in Paris tomorrow')).toBeNull();
+    expect(getPlaceWithWeatherWord('weather in Berlin')).toBeNull();
+    expect(getPlaceWithWeatherWord('will it snow tomorrow')).toBeNull();
+    expect(getPlaceWithWeatherWord('Hot Springs')).toBeNull();
+  });
+});
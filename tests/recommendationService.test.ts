@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { HourlyItem } from '../types';
+import { getRuleRecommendations, validateRecommendations } from '../services/recommendationService';
+import { t } from '../services/i18n';
+import { HOUR, makeBundle, makeHourly } from './fixtures';
+
+const NOW = Date.UTC(2026, 0, 15, 8) / 1000;
+
+const planFor = (shape: (index: number) => Partial<HourlyItem>, hours: number = 24) =>
+  getRuleRecommendations(makeBundle(makeHourly(NOW, hours, shape)), NOW);
+
+describe('getRuleRecommendations', () => {
+  it('gives a calm plan with high scores on a mild, dry day', () => {
+    const plan = planFor(() => ({ feels_like: 20 }));
+    expect(plan).toMatchObject({ umbrella: false, sunscreen: false, mask: false, source: 'rules', summary: t('plan.calm') });
+    expect(plan.activities.picnic.score).toBe(10);
+    expect(plan.bestWindow).toMatchObject({ start: NOW, end: NOW + 3 * HOUR });
+  });
+
+  it('flags an umbrella and a waterproof layer for likely rain in the next 12 hours', () => {
+    const plan = planFor(i => i === 6 ? { pop: 80, precipitation: 2 } : {});
+    expect(plan.umbrella).toBe(true);
+    expect(plan.clothing).toContain(t('wear.waterproof'));
+    expect(plan.summary).toContain(t('plan.cautionRain'));
+  });
+
+  it('ignores rain beyond the next 12 hours for the umbrella', () => {
+    expect(planFor(i => i === 18 ? { pop: 80, precipitation: 2 } : {}).umbrella).toBe(false);
+  });
+
+  it('dresses for the coldest feels-like ahead', () => {
+    expect(planFor(i => ({ feels_like: i === 3 ? -15 : 5 })).clothing).toContain(t('wear.insulatedCoat'));
+  });
+
+  it('asks for a mask and marks down exertion in bad air', () => {
+    const bundle = makeBundle(makeHourly(NOW, 24));
+    bundle.current.aqi = { us_aqi: 180, pm2_5: 90, pm10: 120, co: 0, no2: 0, so2: 0, o3: 0 };
+    const plan = getRuleRecommendations(bundle, NOW);
+    expect(plan.mask).toBe(true);
+    expect(plan.activities.running).toEqual({ score: 3, note: t('plan.noteAir') });
+  });
+
+  it('scores from the dark hours when there is no daylight', () => {
+    const plan = planFor(() => ({ is_day: false }));
+    expect(plan.bestWindow).toBeNull();
+    expect(plan.activities.running.score).toBeGreaterThan(0);
+  });
+
+  it('notes a missing forecast instead of scoring', () => {
+    expect(planFor(() => ({}), 0).activities.cycling).toEqual({ score: 0, note: t('plan.noteNoForecast') });
+  });
+});
+
+describe('validateRecommendations', () => {
+  const valid = {
+    summary: ' Mild and dry. ',
+    clothing: ['T-shirt', '', 'Light sweater'],
+    umbrella: false,
+    sunscreen: true,
+    mask: false,
+    best_window: { start: '2026-01-15T10:00', end: '2026-01-15T12:00', reason: 'Sunniest' },
+    activities: {
+      running: { score: 7.6, note: 'Good' },
+      cycling: { score: 14, note: 'Great' },
+      picnic: { score: -2, note: 'Too cold' }
+    }
+  };
+
+  it('trims text, drops empty items and clamps scores', () => {
+    expect(validateRecommendations(valid, 'Europe/Berlin', NOW)).toEqual({
+      summary: 'Mild and dry.',
+      clothing: ['T-shirt', 'Light sweater'],
+      umbrella: false,
+      sunscreen: true,
+      mask: false,
+      bestWindow: { start: Date.UTC(2026, 0, 15, 9) / 1000, end: Date.UTC(2026, 0, 15, 11) / 1000, reason: 'Sunniest' },
+      activities: {
+        running: { score: 8, note: 'Good' },
+        cycling: { score: 10, note: 'Great' },
+        picnic: { score: 0, note: 'Too cold' }
+      },
+      source: 'gemini'
+    });
+  });
+
+  it.each([
+    ['not an object', 'Sunny'],
+    ['a missing summary', { ...valid, summary: ' ' }],
+    ['a flag that is not a boolean', { ...valid, umbrella: 'yes' }],
+    ['no usable clothing', { ...valid, clothing: [1, ''] }],
+    ['a missing activity', { ...valid, activities: { running: valid.activities.running, cycling: valid.activities.cycling } }],
+    ['a score that is not a number', { ...valid, activities: { ...valid.activities, picnic: { score: '5', note: 'Fine' } } }]
+  ])('rejects %s', (_, raw) => {
+    expect(validateRecommendations(raw, 'Europe/Berlin', NOW)).toBeNull();
+  });
+
+  it.each([
+    ['already over', { start: '2026-01-15T06:00', end: '2026-01-15T08:00' }],
+    ['backwards', { start: '2026-01-15T12:00', end: '2026-01-15T10:00' }],
+    ['longer than 12 hours', { start: '2026-01-15T09:00', end: '2026-01-16T09:00' }],
+    ['unparseable', { start: 'noon', end: 'later' }]
+  ])('drops a best window that is %s but keeps the rest', (_, window) => {
+    const plan = validateRecommendations({ ...valid, best_window: window }, 'Europe/Berlin', NOW);
+    expect(plan).not.toBeNull();
+    expect(plan!.bestWindow).toBeNull();
+  });
+});
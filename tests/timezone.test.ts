@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { formatInZone, fromZonedTime, getLocalDate, getUtcOffset, resolveTimeZone } from '../services/timezone';
+
+const BERLIN = 'Europe/Berlin';
+const hhmm = (timestamp: number, zone: string) =>
+  formatInZone(timestamp, zone, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, 'en-GB');
+
+describe('fromZonedTime', () => {
+  it('reads wall-clock times on either side of a DST change', () => {
+    expect(fromZonedTime('2026-03-29T01:30', BERLIN)).toBe(Date.UTC(2026, 2, 29, 0, 30) / 1000);
+    expect(fromZonedTime('2026-03-29T03:30', BERLIN)).toBe(Date.UTC(2026, 2, 29, 1, 30) / 1000);
+    expect(fromZonedTime('2026-03-29', BERLIN)).toBe(Date.UTC(2026, 2, 28, 23) / 1000);
+  });
+
+  // 02:00-03:00 does not exist on the spring-forward night
+  it('moves a time in the DST gap forward by the gap', () => {
+    const time = fromZonedTime('2026-03-29T02:30', BERLIN)!;
+    expect(time).toBe(Date.UTC(2026, 2, 29, 1, 30) / 1000);
+    expect(hhmm(time, BERLIN)).toBe('03:30');
+  });
+
+  // 02:00-03:00 happens twice on the fall-back night
+  it('resolves a repeated hour to a time that reads back the same', () => {
+    const time = fromZonedTime('2026-10-25T02:30', BERLIN)!;
+    expect([Date.UTC(2026, 9, 25, 0, 30) / 1000, Date.UTC(2026, 9, 25, 1, 30) / 1000]).toContain(time);
+    expect(hhmm(time, BERLIN)).toBe('02:30');
+  });
+
+  it('applies fixed offsets and rejects unparseable input', () => {
+    expect(fromZonedTime('2026-01-15T12:00', 'UTC+05:30')).toBe(Date.UTC(2026, 0, 15, 6, 30) / 1000);
+    expect(fromZonedTime('2026-01-15T12:00', 'UTC-03:00')).toBe(Date.UTC(2026, 0, 15, 15) / 1000);
+    expect(fromZonedTime('tomorrow', BERLIN)).toBeNull();
+  });
+});
+
+describe('formatInZone and friends', () => {
+  const instant = Date.UTC(2026, 0, 15, 23, 30) / 1000;
+
+  it('shows the zone\'s own wall clock and calendar', () => {
+    expect(hhmm(instant, 'Asia/Kolkata')).toBe('05:00');
+    expect(getLocalDate(instant, 'Asia/Kolkata')).toBe('2026-01-16');
+    expect(getLocalDate(instant, 'America/New_York')).toBe('2026-01-15');
+    expect(hhmm(instant, 'UTC+05:30')).toBe('05:00');
+  });
+
+  it('tracks the offset across DST', () => {
+    expect(getUtcOffset(Date.UTC(2026, 0, 15) / 1000, BERLIN)).toBe(3600);
+    expect(getUtcOffset(Date.UTC(2026, 6, 15) / 1000, BERLIN)).toBe(7200);
+  });
+
+  it('prefers the IANA name and falls back to the offset', () => {
+    expect(resolveTimeZone('Europe/Berlin', 3600)).toBe('Europe/Berlin');
+    expect(resolveTimeZone(undefined, 19800)).toBe('UTC+05:30');
+    expect(resolveTimeZone('Not/AZone', -12600)).toBe('UTC-03:30');
+  });
+});
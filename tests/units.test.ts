@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Unit } from '../types';
+import {
+  convertDistance, convertPrecipitation, convertPressure, convertTemperature, convertTemperatureDelta, convertWind,
+  formatTemperature, toBeaufort, toMetricTemperature, toMetricWind
+} from '../services/units';
+
+describe('temperature', () => {
+  it('converts readings with the offset and differences without it', () => {
+    expect(convertTemperature(100, Unit.FAHRENHEIT)).toBe(212);
+    expect(convertTemperature(-40, Unit.FAHRENHEIT)).toBe(-40);
+    expect(convertTemperatureDelta(5, Unit.FAHRENHEIT)).toBe(9);
+    expect(convertTemperature(21.5, Unit.CELSIUS)).toBe(21.5);
+  });
+
+  it('rounds to whole degrees and never shows a negative zero', () => {
+    expect(formatTemperature(21.5, Unit.CELSIUS)).toBe('22°');
+    expect(formatTemperature(-0.4, Unit.CELSIUS)).toBe('0°');
+    expect(formatTemperature(-17.8, Unit.FAHRENHEIT)).toBe('0°');
+  });
+
+  it('round-trips typed thresholds', () => {
+    expect(toMetricTemperature(convertTemperature(32, Unit.FAHRENHEIT), Unit.FAHRENHEIT)).toBeCloseTo(32);
+  });
+});
+
+describe('wind', () => {
+  it('converts to every display unit', () => {
+    expect(convertWind(10, 'kmh')).toBeCloseTo(36);
+    expect(convertWind(10, 'mph')).toBeCloseTo(22.37, 2);
+    expect(convertWind(10, 'kn')).toBeCloseTo(19.44, 2);
+    expect(convertWind(10, 'ms')).toBe(10);
+  });
+
+  it('puts band edges in the higher Beaufort force', () => {
+    expect(toBeaufort(0)).toBe(0);
+    expect(toBeaufort(0.5)).toBe(1);
+    expect(toBeaufort(10.7)).toBe(6);
+    expect(toBeaufort(32.6)).toBe(12);
+    expect(convertWind(5, 'bft')).toBe(3);
+  });
+
+  it('maps a typed force to the bottom of its band, which reads back as that force', () => {
+    for (let force = 1; force <= 12; force++) {
+      expect(toBeaufort(toMetricWind(force, 'bft'))).toBe(force);
+    }
+    expect(toMetricWind(0, 'bft')).toBe(0);
+    expect(toMetricWind(36, 'kmh')).toBeCloseTo(10);
+  });
+});
+
+describe('pressure, precipitation and distance', () => {
+  it('converts from the metric base units', () => {
+    expect(convertPressure(1013.25, 'inhg')).toBeCloseTo(29.92, 2);
+    expect(convertPressure(1013.25, 'mmhg')).toBeCloseTo(760, 0);
+    expect(convertPrecipitation(25.4, 'in')).toBe(1);
+    expect(convertDistance(1609.344, 'mi')).toBe(1);
+    expect(convertDistance(10000, 'km')).toBe(10);
+  });
+});
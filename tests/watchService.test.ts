@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { Nowcast, NowcastSlot, WatchConfig } from '../types';
+import { isQuietTime, runWatchCheck, WatchDependencies } from '../services/watchService';
+import { getLocationKey } from '../services/weatherService';
+import { HOUR, makeBundle, makeHourly, makeLocation, METRIC_UNITS, THRESHOLDS } from './fixtures';
+
+// Device-local wall clock, since quiet hours are judged in the device's zone
+const localTime = (hour: number, minute: number = 0) => new Date(2026, 0, 15, hour, minute).getTime() / 1000;
+
+const NOON = localTime(12);
+const location = makeLocation('Windy Bay');
+
+const config = (overrides: Partial<WatchConfig> = {}): WatchConfig => ({
+  locations: [location],
+  thresholds: THRESHOLDS,
+  units: METRIC_UNITS,
+  dismissed: [],
+  quietHours: null,
+  locale: 'en',
+  ...overrides
+});
+
+const dryNowcast = (now: number): Nowcast => ({
+  slots: Array.from({ length: 8 }, (_, i): NowcastSlot => ({ time: now + i * 15 * 60, precipitation: 0, snowfall: 0, intensity: 'none' })),
+  summary: { key: 'nowcast.dry' }
+});
+
+// Rain from slot `start` onwards
+const wetNowcast = (now: number, start: number): Nowcast => ({
+  slots: dryNowcast(now).slots.map((slot, i) => i >= start ? { ...slot, precipitation: 1, intensity: 'moderate' } : slot),
+  summary: { key: 'nowcast.starting', params: { label: { key: 'nowcast.moderateRain' }, minutes: 15, duration: 90 } }
+});
+
+// Gusts of `gust` m/s from `from` hours after now, calm otherwise
+const dependencies = (now: number, { gust = 0, from = 0, nowcast = dryNowcast(now) }: { gust?: number; from?: number; nowcast?: Nowcast } = {}): WatchDependencies => ({
+  now: () => now,
+  getBundles: async () => [makeBundle(makeHourly(now, 24, i => i >= from && i < from + 3 ? { wind: { speed: 5, deg: 180, gust } } : {}), location)],
+  getNowcast: async () => nowcast
+});
+
+describe('isQuietTime', () => {
+  it('treats a missing or empty range as never quiet', () => {
+    expect(isQuietTime(null, localTime(3))).toBe(false);
+    expect(isQuietTime({ start: 8, end: 8 }, localTime(8))).toBe(false);
+  });
+
+  it('handles ranges within a day, end exclusive', () => {
+    const quiet = { start: 13, end: 15 };
+    expect(isQuietTime(quiet, localTime(12, 59))).toBe(false);
+    expect(isQuietTime(quiet, localTime(13))).toBe(true);
+    expect(isQuietTime(quiet, localTime(14, 59))).toBe(true);
+    expect(isQuietTime(quiet, localTime(15))).toBe(false);
+  });
+
+  it('handles ranges that wrap past midnight', () => {
+    const quiet = { start: 22, end: 7 };
+    expect(isQuietTime(quiet, localTime(21, 59))).toBe(false);
+    expect(isQuietTime(quiet, localTime(23))).toBe(true);
+    expect(isQuietTime(quiet, localTime(3))).toBe(true);
+    expect(isQuietTime(quiet, localTime(7))).toBe(false);
+  });
+});
+
+describe('runWatchCheck', () => {
+  it('notifies when a forecast crosses a threshold soon', async () => {
+    const { notifications, sent } = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1 }));
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].tag).toBe(`${getLocationKey(location)}|wind|moderate`);
+    expect(sent).toEqual([{ key: notifications[0].tag, until: NOON + 3 * HOUR }]);
+  });
+
+  it('stays silent below the threshold', async () => {
+    const { notifications } = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust - 0.5 }));
+    expect(notifications).toEqual([]);
+  });
+
+  it('follows a user-lowered threshold', async () => {
+    const thresholds = { ...THRESHOLDS, gust: 10 };
+    const { notifications } = await runWatchCheck(config({ thresholds }), [], dependencies(NOON, { gust: 11 }));
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('waits for alerts that start beyond the lead time', async () => {
+    const { notifications } = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1, from: 3 }));
+    expect(notifications).toEqual([]);
+  });
+
+  it('announces an ongoing condition only once', async () => {
+    const first = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1 }));
+    const later = NOON + HOUR;
+    const second = await runWatchCheck(config(), first.sent, dependencies(later, { gust: THRESHOLDS.gust + 1 }));
+    expect(second.notifications).toEqual([]);
+    expect(second.sent).toEqual(first.sent);
+  });
+
+  it('announces again once the previous notice has expired', async () => {
+    const first = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1 }));
+    const next = first.sent[0].until + HOUR;
+    const second = await runWatchCheck(config(), first.sent, dependencies(next, { gust: THRESHOLDS.gust + 1 }));
+    expect(second.notifications).toHaveLength(1);
+  });
+
+  it('announces an escalation even when the milder alert was sent', async () => {
+    const first = await runWatchCheck(config(), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1 }));
+    const second = await runWatchCheck(config(), first.sent, dependencies(NOON, { gust: THRESHOLDS.gust + 9 }));
+    expect(second.notifications.map(notification => notification.tag)).toEqual([`${getLocationKey(location)}|wind|severe`]);
+  });
+
+  it('skips alerts the user dismissed', async () => {
+    const dismissed = [{ type: 'wind' as const, locationKey: getLocationKey(location), severity: 'moderate' as const, until: NOON + 6 * HOUR }];
+    const { notifications } = await runWatchCheck(config({ dismissed }), [], dependencies(NOON, { gust: THRESHOLDS.gust + 1 }));
+    expect(notifications).toEqual([]);
+  });
+
+  it('holds everything during quiet hours without marking it sent', async () => {
+    const night = localTime(23);
+    const quietHours = { start: 22, end: 7 };
+    const quiet = await runWatchCheck(config({ quietHours }), [], dependencies(night, { gust: THRESHOLDS.gust + 1 }));
+    expect(quiet.notifications).toEqual([]);
+    expect(quiet.sent).toEqual([]);
+
+    const morning = localTime(7, 5) + 24 * HOUR;
+    const after = await runWatchCheck(config({ quietHours }), quiet.sent, dependencies(morning, { gust: THRESHOLDS.gust + 1 }));
+    expect(after.notifications).toHaveLength(1);
+  });
+
+  it('drops expired entries from the sent log', async () => {
+    const sent = [{ key: 'old', until: NOON - 1 }, { key: 'current', until: NOON + HOUR }];
+    const result = await runWatchCheck(config(), sent, dependencies(NOON));
+    expect(result.sent).toEqual([{ key: 'current', until: NOON + HOUR }]);
+  });
+
+  it('warns about rain starting within half an hour', async () => {
+    const { notifications } = await runWatchCheck(config(), [], dependencies(NOON, { nowcast: wetNowcast(NOON, 1) }));
+    expect(notifications.map(notification => notification.tag)).toEqual([`${getLocationKey(location)}|nowcast`]);
+  });
+
+  it('ignores rain that has already started or is further out', async () => {
+    const started = await runWatchCheck(config(), [], dependencies(NOON, { nowcast: wetNowcast(NOON, 0) }));
+    const later = await runWatchCheck(config(), [], dependencies(NOON, { nowcast: wetNowcast(NOON, 3) }));
+    expect(started.notifications).toEqual([]);
+    expect(later.notifications).toEqual([]);
+  });
+
+  it('writes notifications in the configured language', async () => {
+    const { notifications } = await runWatchCheck(config({ locale: 'de' }), [], dependencies(NOON, { gust: 20, nowcast: wetNowcast(NOON, 1) }));
+    expect(notifications.map(({ title, body }) => ({ title, body }))).toEqual([
+      { title: 'Windhinweis in Windy Bay', body: 'Böen bis 72 km/h. Lose Gegenstände sichern und auf exponierten Straßen vorsichtig fahren.' },
+      { title: 'Regen in 15 Min. in Windy Bay', body: 'Mäßiger Regen ab ~15 Min., für 90 Min.' }
+    ]);
+  });
+
+  it('still reports nowcasts when the forecast refresh fails', async () => {
+    const failing: WatchDependencies = {
+      ...dependencies(NOON, { nowcast: wetNowcast(NOON, 1) }),
+      getBundles: async () => { throw new Error('offline'); }
+    };
+    const { notifications } = await runWatchCheck(config(), [], failing);
+    expect(notifications).toHaveLength(1);
+  });
+});
@@ -1,3 +1,6 @@
+import type { Content } from '@google/genai';
+import type { MessageKey } from './locales/en';
+
 export interface WeatherCondition {
   id: number;
   main: string;
@@ -43,6 +46,7 @@ export interface CurrentWeather {
   dew_point: number;
   aqi: {
     us_aqi: number;
+    eu_aqi?: number; // Only providers that publish the European index set this
     pm2_5: number;
     pm10: number;
     co: number;
@@ -50,12 +54,14 @@ export interface CurrentWeather {
     so2: number;
     o3: number;
   } | null;
-  timezone: number; // Offset in seconds
+  timezone: number; // Offset in seconds at fetch time
+  timezone_id: string; // IANA name, or "UTC±hh:mm" when the provider only reports an offset
   id: number;
   name: string;
   cod: number;
 }
 
+// One day of the daily forecast. Humidity, clouds and pressure are daily means.
 export interface ForecastItem {
   dt: number;
   main: {
@@ -64,32 +70,53 @@ export interface ForecastItem {
     temp_min: number;
     temp_max: number;
     pressure: number;
-    sea_level: number;
-    grnd_level: number;
+    sea_level?: number;
+    grnd_level?: number;
     humidity: number;
-    temp_kf: number;
+    temp_kf?: number;
   };
   weather: WeatherCondition[];
   clouds: {
     all: number;
   };
   wind: {
-    speed: number;
-    deg: number;
-    gust: number;
+    speed: number; // Daily maximum
+    deg: number; // Dominant direction
+    gust: number; // Daily maximum
   };
   visibility: number;
   pop: number;
+  precipitation: number; // Daily total, mm
+  uv_index?: number; // Daily maximum; not every provider reports UV
+  sunrise?: number; // Unix seconds; only providers with daily sun times set these
+  sunset?: number;
   dt_txt: string;
 }
 
 export interface HourlyItem {
   dt: number;
   temp: number;
+  feels_like: number;
+  humidity: number;
+  wind: {
+    speed: number;
+    deg: number;
+    gust?: number;
+  };
+  clouds: number;
+  precipitation: number; // mm over the hour (or the provider's step)
+  snowfall?: number; // cm over the same step
+  uv_index?: number;
+  is_day?: boolean;
   weather: WeatherCondition[];
   pop?: number; // Probability of precipitation
 }
 
+export interface ForecastOptions {
+  days: number; // Daily horizon, clamped to what the provider offers
+  hourlyDays: number; // How many days of the hourly series to keep, starting now
+}
+
 export interface ForecastResponse {
   cod: string;
   message: number;
@@ -106,17 +133,387 @@ export interface ForecastResponse {
     country: string;
     population: number;
     timezone: number;
+    timezone_id: string;
     sunrise: number;
     sunset: number;
   };
 }
 
+// Temperature unit. Weather data is always stored in metric and converted on render.
 export enum Unit {
   CELSIUS = 'metric',
   FAHRENHEIT = 'imperial'
 }
 
+export type WindUnit = 'ms' | 'kmh' | 'mph' | 'kn' | 'bft';
+export type PressureUnit = 'hpa' | 'inhg' | 'mmhg';
+export type PrecipitationUnit = 'mm' | 'in';
+export type DistanceUnit = 'km' | 'mi';
+
+export interface UnitSettings {
+  temperature: Unit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  precipitation: PrecipitationUnit;
+  distance: DistanceUnit;
+}
+
 export interface AppError {
   message: string;
   type: 'api' | 'network' | 'validation';
-}
\ No newline at end of file
+}
+
+// --- Weather Providers ---
+
+export type WeatherProviderId = 'open-meteo' | 'openweathermap';
+
+export interface GeoLocation {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  country: string;
+  country_code?: string;
+  admin1?: string;
+  population?: number;
+  timezone?: string;
+}
+
+export interface LocationSearchOptions {
+  count?: number;
+  signal?: AbortSignal; // Lets search-as-you-type drop requests the user has typed past
+}
+
+export interface WeatherBundle {
+  location: GeoLocation;
+  current: CurrentWeather;
+  forecast: ForecastResponse;
+}
+
+// Every backend geocodes and fetches into the same normalized (OWM-shaped) types,
+// so the UI never needs to know which provider served the data. Values are canonical
+// metric: °C, m/s, hPa, mm and metres.
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  // Candidates ordered by relevance, each with enough context (region, country, population) to tell apart
+  searchLocations: (query: string, options?: LocationSearchOptions) => Promise<GeoLocation[]>;
+  // Nearest named place for a coordinate pair, or null for remote sites with nothing nearby
+  reverseGeocode: (latitude: number, longitude: number) => Promise<GeoLocation | null>;
+  // Current, forecast and AQI for an already-resolved location in as few requests as the API allows
+  maxForecastDays: number;
+  getBundle: (location: GeoLocation, options: ForecastOptions) => Promise<WeatherBundle>;
+  // Optional multi-location variant for APIs that accept several coordinates per request
+  getBundles?: (locations: GeoLocation[], options: ForecastOptions) => Promise<WeatherBundle[]>;
+}
+
+// --- Air Quality ---
+
+export type AQIScale = 'us' | 'eu';
+
+export type Pollutant = 'pm2_5' | 'pm10' | 'o3' | 'no2' | 'so2' | 'co';
+
+export type PollenType = 'alder' | 'birch' | 'grass' | 'mugwort' | 'olive' | 'ragweed';
+
+export interface AirQualityReading {
+  time: number; // Unix seconds
+  us_aqi: number | null;
+  eu_aqi: number | null;
+  concentrations: Partial<Record<Pollutant, number>>; // µg/m³
+  subIndices: Record<AQIScale, Partial<Record<Pollutant, number>>>;
+  pollen: Partial<Record<PollenType, number>>; // grains/m³; only published for Europe
+}
+
+export interface AirQualityReport {
+  current: AirQualityReading;
+  hourly: AirQualityReading[]; // From the current hour through the air-quality forecast horizon
+}
+
+// --- History ---
+
+export interface HistoricalDay {
+  date: string; // YYYY-MM-DD, local to the location
+  temp_max: number;
+  temp_min: number;
+  precipitation: number; // mm
+  wind_max: number; // m/s
+}
+
+export interface ClimateNormal {
+  temp_max: number;
+  temp_min: number;
+  precipitation: number; // Mean daily total, mm
+  period: string; // e.g. "1991–2020"
+}
+
+// Today's forecast against the climate normal and the same date a year earlier
+export interface WeatherComparison {
+  date: string;
+  today: { temp_max: number; temp_min: number; precipitation: number };
+  normal: ClimateNormal | null;
+  lastYear: HistoricalDay | null;
+  anomaly: number | null; // °C; daily mean (high + low) / 2 minus the normal's
+}
+
+// Extra, already-derived facts handed to the insight prompt
+export interface InsightContext {
+  alerts?: WeatherAlert[];
+  comparison?: WeatherComparison | null;
+}
+
+// --- Astronomy ---
+
+export interface TimeWindow {
+  start: number; // Unix seconds
+  end: number;
+}
+
+// Event times are Unix seconds, or null when the sun never crosses that altitude on the day (polar regions)
+export interface SunTimes {
+  solarNoon: number;
+  sunrise: number | null;
+  sunset: number | null;
+  civilDawn: number | null;
+  civilDusk: number | null;
+  nauticalDawn: number | null;
+  nauticalDusk: number | null;
+  astronomicalDawn: number | null;
+  astronomicalDusk: number | null;
+  goldenHour: { morning: TimeWindow | null; evening: TimeWindow | null };
+  blueHour: { morning: TimeWindow | null; evening: TimeWindow | null };
+  dayLength: number; // Seconds
+  polar: 'day' | 'night' | null;
+}
+
+export interface MoonInfo {
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phaseName: MessageKey;
+  illumination: number; // Lit fraction, 0-1
+  rise: number | null;
+  set: number | null;
+  alwaysUp: boolean;
+  alwaysDown: boolean;
+}
+
+export interface AstronomyData {
+  sun: SunTimes;
+  moon: MoonInfo;
+  dayLengthChange: number; // Seconds versus the previous day
+}
+
+// --- Weather Alerts ---
+
+export type AlertType = 'heat' | 'cold' | 'wind' | 'thunderstorm' | 'freezing-rain' | 'snow' | 'uv' | 'air-quality';
+
+export type AlertSeverity = 'minor' | 'moderate' | 'severe';
+
+export interface WeatherAlert {
+  id: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  title: LocalizedText;
+  description: LocalizedText;
+  locationKey: string;
+  start: number; // Unix seconds
+  end: number;
+}
+
+// Trigger levels in canonical metric units; severity escalates by fixed steps above them
+export interface AlertThresholds {
+  heatIndex: number; // °C
+  windChill: number; // °C
+  gust: number; // m/s
+  snowfall: number; // cm within 24 hours
+  uvIndex: number;
+  aqi: number; // US AQI
+}
+
+// Dismissing hides alerts of that type for the location until the dismissed window ends,
+// unless a later evaluation escalates the severity
+export interface DismissedAlert {
+  type: AlertType;
+  locationKey: string;
+  severity: AlertSeverity;
+  until: number; // Unix seconds
+}
+
+// --- Notifications ---
+
+export interface QuietHours {
+  start: number; // Local hour 0-23; the range may wrap past midnight (22 -> 7)
+  end: number;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  quietHours: QuietHours | null;
+}
+
+// Everything a background check needs, mirrored out of preferences because
+// service workers cannot read localStorage
+export interface WatchConfig {
+  locations: GeoLocation[];
+  thresholds: AlertThresholds;
+  units: UnitSettings;
+  dismissed: DismissedAlert[];
+  quietHours: QuietHours | null;
+  locale: Locale; // Notifications are written in the app's language
+}
+
+export interface WatchNotification {
+  tag: string; // Doubles as the dedupe key, so the OS also replaces rather than stacks
+  title: string;
+  body: string;
+}
+
+export interface SentNotification {
+  key: string;
+  until: number; // Unix seconds; the same condition is not announced again before this
+}
+
+// --- User Preferences ---
+
+// Whose clock times are shown in: the viewed location's ("their time") or the device's ("my time")
+export type TimeDisplay = 'location' | 'device';
+
+// Free-text streamed insight, or structured recommendation cards
+export type InsightMode = 'summary' | 'plan';
+
+// UI, voice and AI output language; see services/i18n.ts
+export type Locale = 'en' | 'hi' | 'es' | 'de';
+
+// Text built by a service, rendered with translate() in whatever locale is showing it.
+// A param may itself be localized text, e.g. a nowcast's "Light rain" inside its summary.
+export interface LocalizedText {
+  key: MessageKey;
+  params?: Record<string, string | number | LocalizedText>;
+}
+
+// Read-aloud voice; a null voiceURI picks one matching the UI language
+export interface VoiceSettings {
+  voiceURI: string | null;
+  rate: number; // 0.5-2
+  pitch: number; // 0-2
+}
+
+export interface UserPreferences {
+  version: number;
+  units: UnitSettings;
+  lastLocation: GeoLocation | null;
+  ttsEnabled: boolean; // Read insights aloud as soon as they finish streaming
+  aiBackground: boolean; // Generate a Gemini scene for the background
+  favorites: GeoLocation[];
+  alertThresholds: AlertThresholds;
+  dismissedAlerts: DismissedAlert[];
+  notifications: NotificationSettings;
+  timeDisplay: TimeDisplay;
+  insightMode: InsightMode;
+  locale: Locale;
+  voice: VoiceSettings;
+}
+
+// --- Nowcast ---
+
+export type PrecipitationIntensity = 'none' | 'light' | 'moderate' | 'heavy';
+
+export interface NowcastSlot {
+  time: number; // Unix seconds at the start of the 15-minute slot
+  precipitation: number; // mm over the slot
+  snowfall: number; // cm over the slot
+  intensity: PrecipitationIntensity;
+}
+
+export interface Nowcast {
+  slots: NowcastSlot[]; // The next 2 hours, starting with the slot containing "now"
+  summary: LocalizedText; // e.g. "Light rain starting in ~20 min, lasting 40 min."
+}
+
+// --- Assistant Chat ---
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  tools?: string[]; // Tool names the assistant called while answering
+  error?: boolean;
+}
+
+// What the assistant treats as "here": the location on screen, in its own time zone
+export interface ChatContext {
+  location: GeoLocation;
+  units: UnitSettings;
+  timeZone: string;
+  language: Locale;
+}
+
+// --- Recommendations ---
+
+export type OutdoorActivity = 'running' | 'cycling' | 'picnic';
+
+export interface ActivityScore {
+  score: number; // 0 (don't bother) to 10 (ideal)
+  note: string;
+}
+
+export interface Recommendations {
+  summary: string;
+  clothing: string[]; // Layers, innermost first
+  umbrella: boolean;
+  sunscreen: boolean;
+  mask: boolean;
+  bestWindow: (TimeWindow & { reason: string }) | null; // Best stretch outdoors in the next 24 hours
+  activities: Record<OutdoorActivity, ActivityScore>;
+  source: 'gemini' | 'rules';
+}
+
+// --- Gemini proxy API ---
+// Request and response bodies shared by services/geminiService.ts and the server in server/
+
+export type GeminiFeature = 'insight' | 'parse' | 'scene' | 'chat' | 'recommendations';
+
+export interface InsightRequest {
+  weather: CurrentWeather;
+  units: UnitSettings;
+  intent?: string;
+  context?: InsightContext;
+  language?: Locale; // Answers in English when omitted
+}
+
+export type QueryMetric = 'temperature' | 'rain' | 'snow' | 'wind' | 'humidity' | 'uv' | 'air_quality' | 'visibility';
+
+// Local time at the searched place, relative to its own "today"
+export interface QueryTimeWindow {
+  dayOffset: number; // 0 = today, 1 = tomorrow, ...
+  startHour: number; // 0-23
+  endHour: number; // 1-24, exclusive
+}
+
+export interface ParsedQuery {
+  city: string; // Empty when the query names no place, i.e. it is about the one on screen
+  intent?: string;
+  when?: QueryTimeWindow;
+  activity?: string; // An OutdoorActivity when it is one, otherwise a short English noun
+  compareWith?: string[];
+  metric?: QueryMetric;
+}
+
+// Everything a search asked about besides the place, used to point the dashboard at it
+export type QueryFocus = Omit<ParsedQuery, 'city' | 'intent'>;
+
+export interface SceneResult {
+  imageData: string | null;
+  isQuotaError: boolean;
+  retryAfter?: number; // Seconds until the quota frees up, when it is known
+}
+
+export interface ChatTurnRequest {
+  contents: Content[]; // Full conversation so far, ending with the user's message or tool results
+  context: ChatContext;
+}
+
+export interface RecommendationRequest {
+  location: GeoLocation;
+  current: CurrentWeather;
+  hourly: HourlyItem[]; // Next 24 hours only
+  timeZone: string;
+  language?: Locale;
+}
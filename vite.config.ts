@@ -1,18 +1,41 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createApiHandler } from './server/api';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini and OpenWeatherMap keys stay in Node: dev and preview serve /api/* from the same handler as server/index.ts
+    const handleApi = createApiHandler({ apiKey: env.GEMINI_API_KEY || env.API_KEY, owmApiKey: env.OWM_API_KEY });
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          name: 'skycast-api',
+          configureServer: (server) => { server.middlewares.use(handleApi); },
+          configurePreviewServer: (server) => { server.middlewares.use(handleApi); }
+        }
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER),
+        // The dev server transforms sw.ts on request; builds emit it as a stable, unhashed sw.js
+        'process.env.SERVICE_WORKER_URL': JSON.stringify(mode === 'development' ? '/sw.ts' : '/sw.js')
+      },
+      // `npm run build:server` bundles server/index.ts for Node; everything else here is the browser build
+      build: isSsrBuild ? { outDir: 'dist-server' } : {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'sw.ts')
+          },
+          output: {
+            entryFileNames: (chunk) => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'
+          }
+        }
       },
       resolve: {
         alias: {